@@ -1,18 +1,125 @@
-import OpenAI from 'openai';
 import fs from 'fs';
 import path from 'path';
-import { EnrichedIssue, RepoContext } from './github';
-import { generateSystemPrompt, generateUserPrompt } from './prompts';
+import {
+  EnrichedIssue,
+  LinkedPullRequest,
+  ReferencedIssue,
+  RepoContext,
+  formatLinkedPullRequest,
+  formatReferencedIssue,
+} from './github';
+import {
+  generateSystemPrompt,
+  generateUserPrompt,
+  getBudgetRanges,
+} from './prompts';
+import {
+  Complexity,
+  EstimationCorrection,
+  ValidEstimation,
+  buildRepairPrompt,
+  enforceBudgetRange,
+  formatCorrections,
+  validateEstimationResponse,
+} from './estimationSchema';
+import {
+  CommentOmissions,
+  digestIssue,
+  formatCommentOmissions,
+  hasOmissions,
+} from './commentDigest';
+import { getDuplicateDiscount } from './issueSimilarity';
+import {
+  EnsembleOptions,
+  EnsembleSample,
+  aggregateSamples,
+  getEnsembleMembers,
+} from './ensemble';
+import {
+  EffortOptions,
+  RateCard,
+  resolveEffortOptions,
+  totalHours,
+} from './effort';
+import { LLMRequestError, resolveModel } from './llm';
+import {
+  RunBudget,
+  SpendCapReachedError,
+  TokenUsage,
+  UsageMeter,
+  createRunBudget,
+  createUsageMeter,
+  emptyUsage,
+  mergeUsage,
+} from './usage';
+import { config } from '@/config';
 import logger from '@/app/_lib/utils/logger';
 
+// 'skipped': not estimated because the run reached its spend cap first
+export type EstimationStatus = 'estimated' | 'failed' | 'skipped';
+
 export interface IssueEstimation {
+  repository: string; // owner/repo
   issueNumber: number;
+  issueKey?: string; // imported issues: the tracker's own id, e.g. PROJ-123
   title: string;
-  complexity: 'low' | 'medium' | 'high' | 'critical';
-  estimatedCost: number;
+  status: EstimationStatus;
+  error?: string; // why a failed estimate gave up or it was skipped
+  complexity: Complexity | null; // null when the estimate failed or was skipped
+  estimatedCost: number; // median of the samples
+  // Effort mode: total hours and hours per role, priced with the rate card.
+  // null in the budget mode
+  hours: number | null;
+  roleHours: Record<string, number> | null;
+  costP10: number;
+  costP90: number;
+  agreement: number | null; // share of samples on `complexity`; null for one
+  confidence: number | null; // 0-1; null for one sample
+  needsReview: boolean; // samples disagree or spread widely
+  sampleCount: number;
   reasoning: string;
   labels: string[];
   url: string;
+  assignees: string[];
+  milestone: string | null;
+  reactionCount: number;
+  locked: boolean;
+  linkedPullRequests: LinkedPullRequest[];
+  referencedIssues: ReferencedIssue[];
+  omittedContent: CommentOmissions; // what the prompt left out of the thread
+  possibleDuplicates: number[]; // issue numbers in the same duplicate cluster
+  relatedIssues: number[];
+  duplicateDiscount: number; // already taken off estimatedCost
+  corrections: EstimationCorrection[]; // changes made to the model's answer
+  usage: TokenUsage; // model requests for this issue, retries included
+}
+
+export interface EstimationTotals {
+  issueCount: number; // estimated issues; failed ones are counted apart
+  failedCount: number;
+  skippedCount: number; // left out once the spend cap was reached
+  needsReviewCount: number;
+  totalCost: number;
+  totalHours: number; // 0 outside the effort mode
+  avgCost: number;
+  complexityCounts: Record<string, number>;
+}
+
+export interface FailedIssue {
+  repository: string;
+  issueNumber: number;
+  issueKey?: string;
+  url: string;
+  error: string;
+}
+
+export interface EstimationSummary extends EstimationTotals {
+  byRepository: Record<string, EstimationTotals>; // keyed by owner/repo
+  // Rerun these through the issueNumbers filter to retry only them
+  failedIssues: FailedIssue[];
+  // Every model request of the run, failed ones and similarity embeddings
+  // included
+  usage: TokenUsage;
 }
 
 export interface ComplexityBudgetRange {
@@ -24,6 +131,10 @@ export interface EstimationParams {
   minBudget: number;
   maxBudget: number;
   model: string;
+  ensemble?: EnsembleOptions; // unset uses ENSEMBLE_SAMPLES / ENSEMBLE_MODELS
+  // Hours per role priced with a rate card; null asks for a cost within the
+  // budget ranges, unset follows ESTIMATION_MODE
+  effort?: EffortOptions | null;
   complexityBudgets?: {
     low?: ComplexityBudgetRange;
     medium?: ComplexityBudgetRange;
@@ -33,77 +144,282 @@ export interface EstimationParams {
 }
 
 
+interface SampleResult {
+  sample: EnsembleSample;
+  corrections: EstimationCorrection[];
+  omissions: CommentOmissions;
+}
+
 /**
- * Estimate a single issue using OpenAI API
+ * One reply from one model, repaired until it validates (or
+ * maxRepairAttempts runs out) and held to its complexity's budget range.
+ * With a rate card the cost comes from the hours and the ranges don't apply.
  */
-export async function estimateIssue(
+async function sampleEstimation(
   repoContext: RepoContext,
   issue: EnrichedIssue,
   params: EstimationParams,
-  options?: { saveToFile?: boolean; repoOwner?: string; repoName?: string }
-): Promise<IssueEstimation> {
-  const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-  });
+  systemPrompt: string,
+  modelId: string,
+  sample: number,
+  meter: UsageMeter,
+  rateCard?: RateCard
+): Promise<SampleResult> {
+  const { provider, model } = resolveModel(modelId);
+  const { issue: promptIssue, omissions } = digestIssue(issue, model);
+  const userPrompt = generateUserPrompt(repoContext, promptIssue);
+
+  const corrections: EstimationCorrection[] = [];
+  let prompt = userPrompt;
+  let estimation: ValidEstimation | undefined;
+
+  // The first reply plus up to maxRepairAttempts repairs
+  for (let attempt = 0; !estimation; attempt++) {
+    const completion = await provider.complete({
+      model,
+      system: systemPrompt,
+      user: prompt,
+      json: true,
+      sample,
+      signal: meter.signal,
+    });
+    meter.record(`${provider.id}:${model}`, completion.usage);
+    if (completion.usage) {
+      logger.debug(
+        { ...completion.usage, provider: provider.id, attempt, sample },
+        'Token usage'
+      );
+    }
+
+    const validation = completion.content
+      ? validateEstimationResponse(completion.content, rateCard)
+      : { errors: ['The reply is empty'] };
+    if ('estimation' in validation) {
+      estimation = validation.estimation;
+      corrections.push(...validation.corrections);
+      if (attempt > 0) {
+        corrections.unshift({
+          field: 'response',
+          action: 'repaired',
+          message: `valid reply after ${attempt} repair round${attempt === 1 ? '' : 's'}`,
+        });
+      }
+      break;
+    }
 
-  const systemPrompt = generateSystemPrompt(params);
-  const userPrompt = generateUserPrompt(repoContext, issue);
+    const reason = validation.modelError
+      ? `${provider.name} returned an error: ${validation.modelError}`
+      : `Invalid response from ${provider.name}: ${validation.errors.join('; ')}`;
+    if (attempt >= config.estimation.maxRepairAttempts) {
+      throw new Error(reason);
+    }
+    logger.warn(
+      { issueNumber: issue.number, attempt, errors: validation.errors },
+      'Invalid estimation reply, asking the model to repair it'
+    );
+    prompt = buildRepairPrompt(
+      userPrompt,
+      completion.content,
+      validation.modelError
+        ? [`You returned an error instead of an estimate: ${validation.modelError}`]
+        : validation.errors,
+      rateCard
+    );
+  }
 
+  let estimatedCost = estimation.estimatedCost;
+  if (!rateCard) {
+    const range = enforceBudgetRange(
+      estimation,
+      getBudgetRanges(params)[estimation.complexity],
+      config.estimation.outOfRange
+    );
+    estimatedCost = range.estimatedCost;
+    if (range.correction) {
+      corrections.push(range.correction);
+    }
+  }
+
+  return {
+    sample: {
+      ...estimation,
+      estimatedCost,
+      model: `${provider.id}:${model}`,
+    },
+    corrections,
+    omissions,
+  };
+}
+
+/**
+ * Estimate a single issue with the configured LLM provider for params.model.
+ * With an ensemble, every member is sampled side by side and the answers are
+ * combined into a median cost with a p10-p90 range; members that fail are
+ * left out, and the issue fails only when all of them do. The token usage of
+ * every request goes to options.meter, or a meter of its own.
+ */
+export async function estimateIssue(
+  repoContext: RepoContext,
+  issue: EnrichedIssue,
+  params: EstimationParams,
+  options?: {
+    saveToFile?: boolean;
+    repoOwner?: string;
+    repoName?: string;
+    meter?: UsageMeter;
+  }
+): Promise<IssueEstimation> {
+  const meter = options?.meter ?? createUsageMeter();
   try {
+    const systemPrompt = generateSystemPrompt(params);
+    const rateCard = resolveEffortOptions(params.effort)?.rateCard;
+    const members = getEnsembleMembers(params.model, params.ensemble);
+
     logger.info(
-      { issueNumber: issue.number, title: issue.title.substring(0, 50) },
+      {
+        issueNumber: issue.number,
+        title: issue.title.substring(0, 50),
+        models: [...new Set(members.map((member) => member.model))],
+        samples: members.length,
+      },
       'Estimating issue with AI'
     );
 
     const startTime = Date.now();
-    const completion = await openai.chat.completions.create({
-      seed: 42,
-      model: params.model,
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      response_format: { type: 'json_object' },
-    });
+    const settled = await Promise.allSettled(
+      members.map(({ model, sample }) =>
+        sampleEstimation(
+          repoContext,
+          issue,
+          params,
+          systemPrompt,
+          model,
+          sample,
+          meter,
+          rateCard
+        )
+      )
+    );
+    const results = settled
+      .filter((result) => result.status === 'fulfilled')
+      .map((result) => (result as PromiseFulfilledResult<SampleResult>).value);
+    const failures = settled.filter((result) => result.status === 'rejected');
+    if (results.length === 0) {
+      throw (failures[0] as PromiseRejectedResult).reason;
+    }
+    if (failures.length > 0) {
+      logger.warn(
+        {
+          issueNumber: issue.number,
+          failed: failures.length,
+          errors: failures.map((failure) =>
+            String((failure as PromiseRejectedResult).reason)
+          ),
+        },
+        'Some ensemble samples failed'
+      );
+    }
     const duration = Date.now() - startTime;
 
-    const responseContent = completion.choices[0].message.content;
-    if (!responseContent) {
-      throw new Error('Empty response from OpenAI');
+    const ensemble = aggregateSamples(results.map((result) => result.sample));
+    const corrections =
+      results.length === 1
+        ? results[0].corrections
+        : results.flatMap(({ sample, corrections: sampleCorrections }, index) =>
+            sampleCorrections.map((correction) => ({
+              ...correction,
+              message: `${sample.model} sample ${index + 1}: ${correction.message}`,
+            }))
+          );
+
+    // Samples were held to their own ranges; the median must fit the
+    // range of the complexity that won. Effort estimates take the median
+    // sample's own priced hours, which lie within p10-p90
+    let estimatedCost = ensemble.estimatedCost;
+    if (!rateCard && results.length > 1) {
+      const range = enforceBudgetRange(
+        ensemble,
+        getBudgetRanges(params)[ensemble.complexity],
+        config.estimation.outOfRange
+      );
+      estimatedCost = range.estimatedCost;
+      if (range.correction) {
+        corrections.push(range.correction);
+      }
     }
 
-    const estimation = JSON.parse(responseContent);
+    // A clamped median can fall outside the samples' p10-p90; the range is
+    // widened to take it in, so no row reports a cost outside its own range
+    let { costP10, costP90 } = ensemble;
+    if (estimatedCost < costP10 || estimatedCost > costP90) {
+      const from = `$${costP10}-$${costP90}`;
+      costP10 = Math.min(costP10, estimatedCost);
+      costP90 = Math.max(costP90, estimatedCost);
+      corrections.push({
+        field: 'costRange',
+        action: 'widened',
+        from,
+        to: `$${costP10}-$${costP90}`,
+        message: `cost range ${from} widened to $${costP10}-$${costP90} to include the $${estimatedCost} estimate`,
+      });
+    }
 
     logger.info(
       {
         issueNumber: issue.number,
-        complexity: estimation.complexity,
-        estimatedCost: estimation.estimatedCost,
+        complexity: ensemble.complexity,
+        estimatedCost,
+        hours: ensemble.hours ? totalHours(ensemble.hours) : undefined,
+        samples: results.length,
+        agreement: ensemble.agreement,
+        confidence: ensemble.confidence,
         duration,
       },
       'AI estimation completed'
     );
-    logger.debug({ reasoning: estimation.reasoning }, 'Estimation reasoning');
+    logger.debug({ reasoning: ensemble.reasoning }, 'Estimation reasoning');
 
-    if (completion.usage) {
-      logger.debug(
-        {
-          promptTokens: completion.usage.prompt_tokens,
-          completionTokens: completion.usage.completion_tokens,
-          totalTokens: completion.usage.total_tokens,
-        },
-        'Token usage'
+    if (corrections.length > 0) {
+      logger.info(
+        { issueNumber: issue.number, corrections },
+        'Estimation corrected'
       );
     }
 
+    const duplicateDiscount = getDuplicateDiscount(issue, estimatedCost);
+
     const result: IssueEstimation = {
+      repository: repoContext.fullName,
       issueNumber: issue.number,
+      issueKey: issue.key,
       title: issue.title,
-      complexity: estimation.complexity,
-      estimatedCost: estimation.estimatedCost,
-      reasoning: estimation.reasoning,
+      status: 'estimated',
+      complexity: ensemble.complexity,
+      estimatedCost: estimatedCost - duplicateDiscount,
+      hours: ensemble.hours ? totalHours(ensemble.hours) : null,
+      roleHours: ensemble.hours,
+      costP10: costP10 - getDuplicateDiscount(issue, costP10),
+      costP90: costP90 - getDuplicateDiscount(issue, costP90),
+      agreement: ensemble.agreement,
+      confidence: ensemble.confidence,
+      needsReview: ensemble.needsReview,
+      sampleCount: results.length,
+      reasoning: ensemble.reasoning,
       labels: issue.labels,
       url: issue.url,
+      assignees: issue.assignees,
+      milestone: issue.milestone?.title ?? null,
+      reactionCount: issue.reactions.total,
+      locked: issue.locked,
+      linkedPullRequests: issue.linkedPullRequests,
+      referencedIssues: issue.referencedIssues,
+      // From the request's own model, the first member
+      omittedContent: results[0].omissions,
+      possibleDuplicates: issue.similarity?.possibleDuplicates ?? [],
+      relatedIssues: issue.similarity?.relatedIssues ?? [],
+      duplicateDiscount,
+      corrections,
+      usage: meter.usage,
     };
 
     // Write to file if requested
@@ -113,18 +429,213 @@ export async function estimateIssue(
 
     return result;
   } catch (error) {
-    logger.error(
-      { error, issueNumber: issue.number },
-      'Error estimating issue with AI'
-    );
+    if (!(error instanceof SpendCapReachedError)) {
+      logger.error(
+        { error, issueNumber: issue.number },
+        'Error estimating issue with AI'
+      );
+    }
     throw new Error(
-      `Failed to estimate issue #${issue.number}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      `Failed to estimate issue #${issue.number}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { cause: error }
+    );
+  }
+}
+
+// Estimations posted back by clients may predate the status field
+export function isEstimated(
+  estimation: IssueEstimation
+): estimation is IssueEstimation & { complexity: Complexity } {
+  return estimation.status !== 'failed' && estimation.status !== 'skipped';
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Timeouts, dropped connections, rate limits, 5xx errors and replies that
+ * stayed invalid after repair rounds can succeed on another try. A model that
+ * isn't configured or a rejected request (400, 401, 403, 404) won't.
+ */
+function isRetryableError(error: unknown): boolean {
+  const cause = error instanceof Error && error.cause ? error.cause : error;
+  const status = (cause as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  return !(cause instanceof LLMRequestError);
+}
+
+const NO_OMISSIONS: CommentOmissions = {
+  botComments: 0,
+  reactionComments: 0,
+  quotedReplies: 0,
+  collapsedBlocks: 0,
+  trimmedComments: 0,
+  trimmedAuthors: [],
+  bodyTruncated: false,
+  tokenBudget: 0,
+  tokensBefore: 0,
+  tokensAfter: 0,
+};
+
+function failedEstimation(
+  repoContext: RepoContext,
+  issue: EnrichedIssue,
+  error: string,
+  usage: TokenUsage,
+  status: 'failed' | 'skipped' = 'failed'
+): IssueEstimation {
+  return {
+    repository: repoContext.fullName,
+    issueNumber: issue.number,
+    issueKey: issue.key,
+    title: issue.title,
+    status,
+    error,
+    complexity: null,
+    estimatedCost: 0,
+    hours: null,
+    roleHours: null,
+    costP10: 0,
+    costP90: 0,
+    agreement: null,
+    confidence: null,
+    needsReview: false,
+    sampleCount: 0,
+    reasoning: '',
+    labels: issue.labels,
+    url: issue.url,
+    assignees: issue.assignees,
+    milestone: issue.milestone?.title ?? null,
+    reactionCount: issue.reactions.total,
+    locked: issue.locked,
+    linkedPullRequests: issue.linkedPullRequests,
+    referencedIssues: issue.referencedIssues,
+    // No prompt went through, so nothing counts as left out
+    omittedContent: NO_OMISSIONS,
+    possibleDuplicates: issue.similarity?.possibleDuplicates ?? [],
+    relatedIssues: issue.similarity?.relatedIssues ?? [],
+    duplicateDiscount: 0,
+    corrections: [],
+    usage,
+  };
+}
+
+/**
+ * The row of a repository that couldn't be read at all (archived, issues
+ * disabled, no access), so a multi-repository run reports it and carries on.
+ * Its issue number is 0.
+ */
+export function failedRepositoryEstimation(
+  repository: string,
+  url: string,
+  error: string
+): IssueEstimation {
+  return {
+    repository,
+    issueNumber: 0,
+    title: '(repository failed)',
+    status: 'failed',
+    error,
+    complexity: null,
+    estimatedCost: 0,
+    hours: null,
+    roleHours: null,
+    costP10: 0,
+    costP90: 0,
+    agreement: null,
+    confidence: null,
+    needsReview: false,
+    sampleCount: 0,
+    reasoning: '',
+    labels: [],
+    url,
+    assignees: [],
+    milestone: null,
+    reactionCount: 0,
+    locked: false,
+    linkedPullRequests: [],
+    referencedIssues: [],
+    omittedContent: NO_OMISSIONS,
+    possibleDuplicates: [],
+    relatedIssues: [],
+    duplicateDiscount: 0,
+    corrections: [],
+    usage: emptyUsage(),
+  };
+}
+
+/**
+ * estimateIssue with exponential backoff. Never rejects: an issue that still
+ * fails after config.estimation.maxRetries comes back as a failed entry, and
+ * one the run's spend cap cuts off as a skipped entry.
+ */
+async function estimateIssueWithRetries(
+  repoContext: RepoContext,
+  issue: EnrichedIssue,
+  params: EstimationParams,
+  budget: RunBudget,
+  options?: { saveToFile?: boolean; repoOwner?: string; repoName?: string }
+): Promise<IssueEstimation> {
+  const { maxRetries, retryBaseDelayMs } = config.estimation;
+  const meter = createUsageMeter(budget);
+  const skipped = () =>
+    failedEstimation(
+      repoContext,
+      issue,
+      `Skipped: spend cap of $${budget.spendCap} reached`,
+      meter.usage,
+      'skipped'
     );
+
+  for (let attempt = 0; ; attempt++) {
+    if (budget.signal.aborted) {
+      return skipped();
+    }
+    try {
+      return await estimateIssue(repoContext, issue, params, {
+        ...options,
+        meter,
+      });
+    } catch (error) {
+      if (error instanceof Error && error.cause instanceof SpendCapReachedError) {
+        return skipped();
+      }
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        const attempts = `${attempt + 1} attempt${attempt === 0 ? '' : 's'}`;
+        logger.error(
+          { issueNumber: issue.number, attempts: attempt + 1, error: message },
+          'Giving up on issue estimate'
+        );
+        return failedEstimation(
+          repoContext,
+          issue,
+          `${message} (${attempts})`,
+          meter.usage
+        );
+      }
+
+      const backoffMs = Math.min(2 ** attempt * retryBaseDelayMs, 30_000);
+      logger.warn(
+        { issueNumber: issue.number, attempt: attempt + 1, backoffMs, error: message },
+        'Issue estimate failed, retrying'
+      );
+      // Jitter keeps a batch of failures from retrying in lockstep
+      await sleep(backoffMs / 2 + Math.random() * (backoffMs / 2));
+    }
   }
 }
 
 /**
- * Estimate multiple issues in batches
+ * Estimate multiple issues. Every issue is queued at once and the provider's
+ * scheduler keeps as many requests in flight as its rate limits allow, so a
+ * slow reply never holds up the others. Each issue is retried on its own;
+ * issues that keep failing are returned with status 'failed' and an error.
+ * Once options.budget reaches its spend cap, issues not estimated yet come
+ * back with status 'skipped'; a run spanning several batches shares one
+ * budget. Results keep the order of `issues`; progress is reported as each
+ * finishes.
  */
 export async function estimateIssuesBatch(
   repoContext: RepoContext,
@@ -135,64 +646,43 @@ export async function estimateIssuesBatch(
     saveToFile?: boolean;
     repoOwner?: string;
     repoName?: string;
+    budget?: RunBudget; // LLM_SPEND_CAP when unset
   }
 ): Promise<IssueEstimation[]> {
-  const estimations: IssueEstimation[] = [];
-  const batchSize = 5; // Process 5 issues at a time
-
-  logger.info(
-    { totalIssues: issues.length, batchSize },
-    'Starting batch estimation'
-  );
+  logger.info({ totalIssues: issues.length }, 'Starting batch estimation');
   const batchStartTime = Date.now();
-
-  for (let i = 0; i < issues.length; i += batchSize) {
-    const batch = issues.slice(i, i + batchSize);
-    const batchNumber = Math.floor(i / batchSize) + 1;
-    const totalBatches = Math.ceil(issues.length / batchSize);
-
-    logger.info(
-      {
-        batchNumber,
-        totalBatches,
-        issueRange: `${i + 1}-${Math.min(i + batchSize, issues.length)}`,
-      },
-      'Processing batch'
-    );
-
-    // Process batch in parallel
-    const batchEstimations = await Promise.all(
-      batch.map((issue) =>
-        estimateIssue(repoContext, issue, params, {
+  const budget = options?.budget ?? createRunBudget();
+  let completed = 0;
+
+  // These never reject
+  const estimations = await Promise.all(
+    issues.map(async (issue) => {
+      const estimation = await estimateIssueWithRetries(
+        repoContext,
+        issue,
+        params,
+        budget,
+        {
           saveToFile: options?.saveToFile,
           repoOwner: options?.repoOwner,
           repoName: options?.repoName,
-        })
-      )
-    );
-
-    estimations.push(...batchEstimations);
-
-    // Report progress
-    const currentCount = Math.min(i + batchSize, issues.length);
-    if (options?.onProgress) {
-      options.onProgress(currentCount, issues.length);
-    }
-
-    logger.info(
-      {
-        batchNumber,
-        totalBatches,
-        currentCount,
-        totalIssues: issues.length,
-      },
-      'Completed batch'
-    );
-  }
+        }
+      );
+      completed++;
+      options?.onProgress?.(completed, issues.length);
+      return estimation;
+    })
+  );
 
   const totalDuration = Date.now() - batchStartTime;
   logger.info(
-    { totalDuration, durationSeconds: (totalDuration / 1000).toFixed(2) },
+    {
+      totalDuration,
+      durationSeconds: (totalDuration / 1000).toFixed(2),
+      failed: estimations.filter((est) => est.status === 'failed').length,
+      skipped: estimations.filter((est) => est.status === 'skipped').length,
+      spent: budget.spent,
+    },
     'Completed all estimations'
   );
 
@@ -205,21 +695,9 @@ export async function estimateIssuesBatch(
 export const EXAMPLE_PARAMS: EstimationParams = {
   minBudget: 100,
   maxBudget: 1000,
-  model: 'gpt-5-nano',
+  model: config.llm.defaultModel,
 };
 
-/**
- * Available OpenAI models for estimation
- */
-export const AVAILABLE_MODELS = [
-  'gpt-5',
-  'gpt-5-mini',
-  'gpt-5-nano',
-  'gpt-4.1',
-] as const;
-
-export type AvailableModel = (typeof AVAILABLE_MODELS)[number];
-
 /**
  * Write estimation result to a JSON file
  */
@@ -249,13 +727,36 @@ export function writeEstimationToFile(
   const filepath = path.join(outputDir, filename);
 
   const output = {
+    repository: estimation.repository,
     issueNumber: estimation.issueNumber,
     title: estimation.title,
+    status: estimation.status,
+    error: estimation.error,
     complexity: estimation.complexity,
     estimatedCost: estimation.estimatedCost,
+    hours: estimation.hours,
+    roleHours: estimation.roleHours,
+    costP10: estimation.costP10,
+    costP90: estimation.costP90,
+    agreement: estimation.agreement,
+    confidence: estimation.confidence,
+    needsReview: estimation.needsReview,
+    sampleCount: estimation.sampleCount,
     reasoning: estimation.reasoning,
     labels: estimation.labels,
     url: estimation.url,
+    assignees: estimation.assignees,
+    milestone: estimation.milestone,
+    reactionCount: estimation.reactionCount,
+    locked: estimation.locked,
+    linkedPullRequests: estimation.linkedPullRequests,
+    referencedIssues: estimation.referencedIssues,
+    omittedContent: estimation.omittedContent,
+    possibleDuplicates: estimation.possibleDuplicates,
+    relatedIssues: estimation.relatedIssues,
+    duplicateDiscount: estimation.duplicateDiscount,
+    corrections: estimation.corrections,
+    usage: estimation.usage,
     timestamp: new Date().toISOString(),
   };
 
@@ -263,6 +764,62 @@ export function writeEstimationToFile(
   logger.debug({ filepath }, 'Wrote estimation to file');
 }
 
+function computeTotals(all: IssueEstimation[]): EstimationTotals {
+  const estimations = all.filter(isEstimated);
+  const totalCost = estimations.reduce((sum, est) => sum + est.estimatedCost, 0);
+  return {
+    issueCount: estimations.length,
+    failedCount: all.filter((est) => est.status === 'failed').length,
+    skippedCount: all.filter((est) => est.status === 'skipped').length,
+    needsReviewCount: estimations.filter((est) => est.needsReview).length,
+    totalCost,
+    totalHours: estimations.reduce((sum, est) => sum + (est.hours ?? 0), 0),
+    avgCost: estimations.length > 0 ? totalCost / estimations.length : 0,
+    complexityCounts: estimations.reduce(
+      (acc, est) => {
+        acc[est.complexity] = (acc[est.complexity] || 0) + 1;
+        return acc;
+      },
+      {} as Record<string, number>
+    ),
+  };
+}
+
+/**
+ * Totals for a run, overall and per repository. Failed and skipped estimates
+ * are counted but left out of the costs; the token usage covers them all,
+ * plus `runUsage` for requests that belong to no single issue.
+ */
+export function summarizeEstimations(
+  estimations: IssueEstimation[],
+  runUsage: TokenUsage[] = []
+): EstimationSummary {
+  const byRepository: Record<string, EstimationTotals> = {};
+  const repositories = [...new Set(estimations.map((est) => est.repository))];
+  for (const repository of repositories) {
+    byRepository[repository] = computeTotals(
+      estimations.filter((est) => est.repository === repository)
+    );
+  }
+
+  const failedIssues = estimations
+    .filter((est) => est.status === 'failed')
+    .map((est) => ({
+      repository: est.repository,
+      issueNumber: est.issueNumber,
+      issueKey: est.issueKey,
+      url: est.url,
+      error: est.error ?? 'Unknown error',
+    }));
+
+  return {
+    ...computeTotals(estimations),
+    byRepository,
+    failedIssues,
+    usage: mergeUsage([...estimations.map((est) => est.usage), ...runUsage]),
+  };
+}
+
 /**
  * Convert estimations array to CSV format
  */
@@ -270,7 +827,8 @@ export function convertEstimationsToCSV(
   estimations: IssueEstimation[]
 ): string {
   // CSV header
-  const header = 'issue_number,title,complexity,estimated_cost,labels,reasoning,url';
+  const header =
+    'repository,issue_number,title,status,error,complexity,estimated_cost,hours,role_hours,cost_p10,cost_p90,agreement,confidence,needs_review,samples,labels,reasoning,url,assignees,milestone,reactions,locked,linked_pull_requests,referenced_issues,omitted_content,possible_duplicates,related_issues,duplicate_discount,corrections,prompt_tokens,completion_tokens,llm_cost';
 
   // CSV rows
   const rows = estimations.map((est) => {
@@ -284,13 +842,46 @@ export function convertEstimationsToCSV(
     };
 
     return [
-      est.issueNumber,
+      escapeCSVField(est.repository),
+      escapeCSVField(est.issueKey ?? String(est.issueNumber)),
       escapeCSVField(est.title),
-      est.complexity,
+      est.status,
+      escapeCSVField(est.error ?? ''),
+      est.complexity ?? '',
       est.estimatedCost,
+      est.hours ?? '',
+      escapeCSVField(
+        Object.entries(est.roleHours ?? {})
+          .map(([role, hours]) => `${role}: ${hours}`)
+          .join('; ')
+      ),
+      est.costP10,
+      est.costP90,
+      est.agreement ?? '',
+      est.confidence ?? '',
+      est.needsReview,
+      est.sampleCount,
       escapeCSVField(est.labels.join('; ')),
       escapeCSVField(est.reasoning),
-      est.url,
+      escapeCSVField(est.url),
+      escapeCSVField(est.assignees.join('; ')),
+      escapeCSVField(est.milestone ?? ''),
+      est.reactionCount,
+      est.locked,
+      escapeCSVField(est.linkedPullRequests.map(formatLinkedPullRequest).join('; ')),
+      escapeCSVField(est.referencedIssues.map(formatReferencedIssue).join('; ')),
+      escapeCSVField(
+        hasOmissions(est.omittedContent)
+          ? formatCommentOmissions(est.omittedContent)
+          : ''
+      ),
+      escapeCSVField(est.possibleDuplicates.map((n) => `#${n}`).join('; ')),
+      escapeCSVField(est.relatedIssues.map((n) => `#${n}`).join('; ')),
+      est.duplicateDiscount,
+      escapeCSVField(formatCorrections(est.corrections)),
+      est.usage.promptTokens,
+      est.usage.completionTokens,
+      Number(est.usage.cost.toFixed(6)),
     ].join(',');
   });
 
@@ -0,0 +1,505 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import { EnrichedIssue } from './github';
+import {
+  DEFAULT_GITHUB_HOST,
+  GitHubClientOptions,
+  createGitHubClient,
+} from './githubClient';
+
+// A closed issue of the same repository and the merged PR that closed it
+export interface CalibrationExample {
+  number: number;
+  title: string;
+  url: string;
+  labels: string[];
+  closedAt: string;
+  pullRequest: {
+    number: number;
+    url: string;
+    additions: number;
+    deletions: number;
+    changedFiles: number;
+    reviewRounds: number; // 1 per review, plus 1 per changes-requested review after it
+    hoursToMerge: number; // PR opened to merged
+  };
+}
+
+export interface CalibrationStats {
+  linesChanged: number;
+  changedFiles: number;
+  reviewRounds: number;
+  hoursToMerge: number;
+}
+
+export interface CalibrationProfile {
+  host: string;
+  repository: string; // owner/repo
+  generatedAt: string;
+  sampledIssues: number; // closed issues looked at
+  examples: CalibrationExample[]; // the ones closed by a merged PR
+  medians: CalibrationStats | null; // null without examples
+}
+
+// What one issue's prompt gets out of the profile
+export interface IssueCalibration {
+  examples: CalibrationExample[];
+  medians: CalibrationStats;
+  sampleSize: number;
+}
+
+interface GraphQLClosedIssue {
+  number: number;
+  title: string;
+  url: string;
+  closedAt: string | null;
+  labels: { nodes: Array<{ name: string }> } | null;
+  timelineItems: {
+    nodes: Array<{
+      closer?: {
+        __typename: string;
+        number?: number;
+        url?: string;
+        merged?: boolean;
+        createdAt?: string;
+        mergedAt?: string | null;
+        additions?: number;
+        deletions?: number;
+        changedFiles?: number;
+        reviews?: { nodes: Array<{ state: string }> };
+      } | null;
+    } | null>;
+  };
+}
+
+interface GraphQLClosedIssuesResponse {
+  repository: {
+    issues: { nodes: GraphQLClosedIssue[] };
+  } | null;
+}
+
+const CLOSED_ISSUES_QUERY = `
+  query ($owner: String!, $repo: String!, $count: Int!) {
+    repository(owner: $owner, name: $repo) {
+      issues(
+        first: $count
+        states: CLOSED
+        orderBy: { field: UPDATED_AT, direction: DESC }
+      ) {
+        nodes {
+          number
+          title
+          url
+          closedAt
+          labels(first: 20) {
+            nodes {
+              name
+            }
+          }
+          timelineItems(last: 1, itemTypes: [CLOSED_EVENT]) {
+            nodes {
+              ... on ClosedEvent {
+                closer {
+                  __typename
+                  ... on PullRequest {
+                    number
+                    url
+                    merged
+                    createdAt
+                    mergedAt
+                    additions
+                    deletions
+                    changedFiles
+                    reviews(first: 50) {
+                      nodes {
+                        state
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Words too common in issue titles to say anything about similarity
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'can',
+  'do',
+  'does',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'not',
+  'of',
+  'on',
+  'or',
+  'should',
+  'the',
+  'to',
+  'when',
+  'with',
+  'add',
+  'fix',
+  'issue',
+  'support',
+  'use',
+  'bug',
+  'feature',
+]);
+
+function countReviewRounds(reviews: Array<{ state: string }>): number {
+  const submitted = reviews.filter((review) => review.state !== 'PENDING');
+  if (submitted.length === 0) {
+    return 0;
+  }
+  // Every changes-requested review means another round after it
+  return (
+    1 +
+    submitted.filter((review) => review.state === 'CHANGES_REQUESTED').length
+  );
+}
+
+function toExample(issue: GraphQLClosedIssue): CalibrationExample | null {
+  const closer = issue.timelineItems.nodes[0]?.closer;
+  if (
+    !closer ||
+    closer.__typename !== 'PullRequest' ||
+    !closer.merged ||
+    !closer.mergedAt ||
+    !closer.createdAt ||
+    !issue.closedAt
+  ) {
+    return null;
+  }
+
+  return {
+    number: issue.number,
+    title: issue.title,
+    url: issue.url,
+    labels: (issue.labels?.nodes ?? []).map((label) => label.name),
+    closedAt: issue.closedAt,
+    pullRequest: {
+      number: closer.number ?? 0,
+      url: closer.url ?? '',
+      additions: closer.additions ?? 0,
+      deletions: closer.deletions ?? 0,
+      changedFiles: closer.changedFiles ?? 0,
+      reviewRounds: countReviewRounds(closer.reviews?.nodes ?? []),
+      hoursToMerge:
+        Math.round(
+          ((new Date(closer.mergedAt).getTime() -
+            new Date(closer.createdAt).getTime()) /
+            3_600_000) *
+            10
+        ) / 10,
+    },
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+}
+
+function computeMedians(
+  examples: CalibrationExample[]
+): CalibrationStats | null {
+  if (examples.length === 0) {
+    return null;
+  }
+  const prs = examples.map((example) => example.pullRequest);
+  return {
+    linesChanged: median(prs.map((pr) => pr.additions + pr.deletions)),
+    changedFiles: median(prs.map((pr) => pr.changedFiles)),
+    reviewRounds: median(prs.map((pr) => pr.reviewRounds)),
+    hoursToMerge: median(prs.map((pr) => pr.hoursToMerge)),
+  };
+}
+
+/**
+ * Sample recently closed issues and keep those closed by a merged pull
+ * request, with that PR's size, review rounds and time to merge. Issues
+ * closed by hand or by a commit carry no effort signal and are dropped.
+ */
+export async function buildCalibrationProfile(
+  owner: string,
+  repo: string,
+  clientOptions: GitHubClientOptions = {}
+): Promise<CalibrationProfile> {
+  const octokit = createGitHubClient(clientOptions);
+  const count = Math.min(Math.max(config.calibration.sampleSize, 1), 100);
+
+  logger.info({ owner, repo, count }, 'Building calibration profile');
+
+  const response: GraphQLClosedIssuesResponse = await octokit.graphql(
+    CLOSED_ISSUES_QUERY,
+    { owner, repo, count }
+  );
+  if (!response.repository) {
+    throw new Error(`Repository ${owner}/${repo} not found`);
+  }
+
+  const issues = response.repository.issues.nodes;
+  const examples = issues
+    .map(toExample)
+    .filter((example): example is CalibrationExample => example !== null);
+
+  const profile: CalibrationProfile = {
+    host: clientOptions.host || DEFAULT_GITHUB_HOST,
+    repository: `${owner}/${repo}`,
+    generatedAt: new Date().toISOString(),
+    sampledIssues: issues.length,
+    examples,
+    medians: computeMedians(examples),
+  };
+
+  logger.info(
+    {
+      owner,
+      repo,
+      sampledIssues: profile.sampledIssues,
+      examples: examples.length,
+      medians: profile.medians,
+    },
+    'Calibration profile built'
+  );
+
+  return profile;
+}
+
+const profiles = new Map<string, CalibrationProfile>();
+
+function profileKey(host: string, owner: string, repo: string): string {
+  return `${host}_${owner}_${repo}`
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, '-');
+}
+
+function isFresh(profile: CalibrationProfile): boolean {
+  const ageMs = Date.now() - new Date(profile.generatedAt).getTime();
+  return ageMs < config.calibration.ttlHours * 3_600_000;
+}
+
+function readCachedProfile(key: string): CalibrationProfile | undefined {
+  const cached = profiles.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const path = join(config.calibration.dir, `${key}.json`);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    const profile = JSON.parse(
+      readFileSync(path, 'utf-8')
+    ) as CalibrationProfile;
+    profiles.set(key, profile);
+    return profile;
+  } catch {
+    // Corrupt or partially written profile, rebuild it
+    return undefined;
+  }
+}
+
+function writeCachedProfile(key: string, profile: CalibrationProfile): void {
+  profiles.set(key, profile);
+  try {
+    mkdirSync(config.calibration.dir, { recursive: true });
+    writeFileSync(
+      join(config.calibration.dir, `${key}.json`),
+      JSON.stringify(profile, null, 2)
+    );
+  } catch (error) {
+    // Read-only filesystems still get the in-memory copy
+    logger.warn({ error, key }, 'Failed to persist calibration profile');
+  }
+}
+
+/**
+ * The repository's calibration profile, built at most once per TTL. Kept in
+ * memory and on disk, so restarts and other routes reuse it.
+ */
+export async function getCalibrationProfile(
+  owner: string,
+  repo: string,
+  clientOptions: GitHubClientOptions = {}
+): Promise<CalibrationProfile> {
+  const key = profileKey(
+    clientOptions.host || DEFAULT_GITHUB_HOST,
+    owner,
+    repo
+  );
+
+  const cached = readCachedProfile(key);
+  if (cached && isFresh(cached)) {
+    logger.debug(
+      { owner, repo, generatedAt: cached.generatedAt },
+      'Calibration cache hit'
+    );
+    return cached;
+  }
+
+  const profile = await buildCalibrationProfile(owner, repo, clientOptions);
+  writeCachedProfile(key, profile);
+  return profile;
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter((word) => word.length > 2 && !STOP_WORDS.has(word))
+  );
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) {
+      shared++;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Rank historical examples by how much they share with the issue: title
+ * words (Jaccard) plus a smaller weight for shared labels. Examples with
+ * nothing in common are left out.
+ */
+export function findSimilarExamples(
+  issue: EnrichedIssue,
+  examples: CalibrationExample[],
+  limit: number
+): CalibrationExample[] {
+  const titleWords = tokenize(
+    `${issue.title} ${issue.body?.slice(0, 500) ?? ''}`
+  );
+  const labels = new Set(issue.labels.map((label) => label.toLowerCase()));
+
+  return examples
+    .filter((example) => example.number !== issue.number)
+    .map((example) => ({
+      example,
+      score:
+        overlap(titleWords, tokenize(example.title)) +
+        0.5 *
+          overlap(
+            labels,
+            new Set(example.labels.map((label) => label.toLowerCase()))
+          ),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ example }) => example);
+}
+
+/**
+ * Attach the repository's typical PR size and the closest historical
+ * examples to each issue. A profile that can't be built (GraphQL needs a
+ * token) leaves the issues uncalibrated rather than failing the run.
+ */
+export async function attachCalibration(
+  owner: string,
+  repo: string,
+  issues: EnrichedIssue[],
+  clientOptions: GitHubClientOptions = {}
+): Promise<EnrichedIssue[]> {
+  if (!config.calibration.enabled || issues.length === 0) {
+    return issues;
+  }
+
+  let profile: CalibrationProfile;
+  try {
+    profile = await getCalibrationProfile(owner, repo, clientOptions);
+  } catch (error) {
+    logger.warn(
+      { error, owner, repo },
+      'Skipping calibration, profile unavailable'
+    );
+    return issues;
+  }
+
+  const { medians } = profile;
+  if (!medians) {
+    return issues;
+  }
+
+  return issues.map((issue) => ({
+    ...issue,
+    calibration: {
+      examples: findSimilarExamples(
+        issue,
+        profile.examples,
+        config.calibration.examplesPerIssue
+      ),
+      medians,
+      sampleSize: profile.examples.length,
+    },
+  }));
+}
+
+function formatHours(hours: number): string {
+  return hours < 48 ? `${Math.round(hours)}h` : `${Math.round(hours / 24)}d`;
+}
+
+function formatRounds(rounds: number): string {
+  return `${rounds} review round${rounds === 1 ? '' : 's'}`;
+}
+
+export function formatCalibration(calibration: IssueCalibration): string {
+  const { medians } = calibration;
+  const typical = `Typical resolved issue here (median of ${calibration.sampleSize}): ${Math.round(
+    medians.linesChanged
+  )} lines changed across ${medians.changedFiles} files, ${formatRounds(
+    medians.reviewRounds
+  )}, merged ${formatHours(medians.hoursToMerge)} after the PR was opened`;
+
+  if (calibration.examples.length === 0) {
+    return typical;
+  }
+
+  const examples = calibration.examples
+    .map((example) => {
+      const pr = example.pullRequest;
+      const labels =
+        example.labels.length > 0 ? ` [${example.labels.join(', ')}]` : '';
+      return `- #${example.number} "${example.title}"${labels}: PR #${pr.number} changed ${
+        pr.additions + pr.deletions
+      } lines (+${pr.additions}/-${pr.deletions}) in ${pr.changedFiles} files, ${formatRounds(
+        pr.reviewRounds
+      )}, merged in ${formatHours(pr.hoursToMerge)}`;
+    })
+    .join('\n');
+
+  return `${typical}
+
+Most similar closed issues:
+${examples}`;
+}
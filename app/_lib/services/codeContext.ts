@@ -0,0 +1,448 @@
+import type { Octokit } from 'octokit';
+import logger from '@/app/_lib/utils/logger';
+import { estimateTokens } from '@/app/_lib/utils/tokens';
+import { config } from '@/config';
+import { EnrichedIssue, RepoContext } from './github';
+import { GitHubClientOptions, createGitHubClient } from './githubClient';
+import { fetchRepoTree } from './repoProfiler';
+
+export interface CodeReference {
+  kind: 'stack-frame' | 'file' | 'symbol';
+  path?: string; // as written in the issue, not yet resolved against the tree
+  line?: number;
+  symbol?: string;
+}
+
+export interface CodeExcerpt {
+  path: string;
+  startLine: number;
+  endLine: number;
+  content: string;
+  fileSize: number; // bytes
+  recentCommits: number; // commits touching the file in the churn window
+  reason: string; // what in the issue pointed at this file
+  truncated: boolean; // cut short to fit the token budget
+}
+
+const CODE_EXTENSIONS =
+  'ts|tsx|mts|cts|js|jsx|mjs|cjs|py|go|rs|java|kt|kts|scala|rb|php|cs|fs|c|h|cc|cpp|cxx|hpp|swift|m|mm|dart|ex|exs|erl|hs|clj|lua|sol|vue|svelte|sh|sql|yml|yaml|toml|json';
+
+// Ordered by how precisely they point at code: stack frames first
+const STACK_FRAME_PATTERNS: RegExp[] = [
+  // JavaScript / TypeScript: "at fn (src/file.ts:210:15)" or "at src/file.ts:210"
+  new RegExp(
+    `at (?:[\\w$.<>\\[\\] ]+ )?\\(?((?:webpack:\\/\\/\\/?|[A-Za-z]:)?[^\\s():'"]+\\.(?:${CODE_EXTENSIONS})):(\\d+)(?::\\d+)?\\)?`,
+    'g'
+  ),
+  // Python: 'File "app/models.py", line 42'
+  /File "([^"]+\.py)", line (\d+)/g,
+  // Java / Kotlin / Scala: "at com.example.Parser(Parser.java:42)"
+  /at [\w$.]+\(([\w$]+\.(?:java|kt|scala)):(\d+)\)/g,
+  // Go: "\t/src/app/handler.go:88 +0x1d"
+  /^\s*((?:\/|\w)[^\s:]*\.go):(\d+)/gm,
+];
+
+const GITHUB_BLOB_PATTERN =
+  /https?:\/\/[^\s/]+\/[^\s/]+\/[^\s/]+\/blob\/[^\s/]+\/([^\s#?)]+)(?:#L(\d+))?/g;
+
+const FILE_PATH_PATTERN = new RegExp(
+  `(?:^|[\\s\`'"(\\[])((?:\\.{0,2}\\/)?(?:[\\w.@-]+\\/)*[\\w.@-]+\\.(?:${CODE_EXTENSIONS}))\\b[\`'"]?(?::(\\d+)|#L(\\d+)|,? (?:at |on )?line (\\d+))?`,
+  'g'
+);
+
+// `Lexer`, `Parser.tokenize`, `parse_header()`
+const SYMBOL_PATTERN = /`([A-Za-z_][\w]*(?:\.[A-Za-z_]\w*)?)(?:\(\))?`/g;
+
+function isLikelySymbol(symbol: string): boolean {
+  // Skip short or generic words; keep CamelCase, snake_case and dotted names
+  return (
+    symbol.length >= 4 &&
+    (/[a-z][A-Z]|^[A-Z][a-z]+[A-Z]/.test(symbol) ||
+      symbol.includes('_') ||
+      symbol.includes('.') ||
+      /^[A-Z][a-z]{3,}$/.test(symbol))
+  );
+}
+
+/**
+ * Find file paths, stack frames and symbol names mentioned in the issue body
+ * and comments
+ */
+export function extractCodeReferences(issue: EnrichedIssue): CodeReference[] {
+  const texts = [issue.body || '', ...issue.comments.map((c) => c.body)];
+  const references: CodeReference[] = [];
+  const seen = new Set<string>();
+
+  const add = (reference: CodeReference) => {
+    const key = `${reference.kind}:${reference.path ?? reference.symbol}:${reference.line ?? ''}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      references.push(reference);
+    }
+  };
+
+  for (const text of texts) {
+    for (const pattern of STACK_FRAME_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        add({
+          kind: 'stack-frame',
+          path: match[1],
+          line: parseInt(match[2], 10),
+        });
+      }
+    }
+
+    for (const match of text.matchAll(GITHUB_BLOB_PATTERN)) {
+      add({
+        kind: 'file',
+        path: decodeURIComponent(match[1]),
+        line: match[2] ? parseInt(match[2], 10) : undefined,
+      });
+    }
+
+    // Other URLs would otherwise be picked up as relative paths
+    const withoutUrls = text.replace(/https?:\/\/\S+/g, ' ');
+
+    for (const match of withoutUrls.matchAll(FILE_PATH_PATTERN)) {
+      const line = match[2] || match[3] || match[4];
+      add({
+        kind: 'file',
+        path: match[1],
+        line: line ? parseInt(line, 10) : undefined,
+      });
+    }
+
+    for (const match of withoutUrls.matchAll(SYMBOL_PATTERN)) {
+      if (isLikelySymbol(match[1])) {
+        add({ kind: 'symbol', symbol: match[1] });
+      }
+    }
+  }
+
+  // Stack frames also match the plain path pattern; keep only the frame
+  return references.filter(
+    (ref) =>
+      ref.kind !== 'file' ||
+      !references.some(
+        (other) => other.kind === 'stack-frame' && other.path === ref.path
+      )
+  );
+}
+
+/**
+ * Match a path as written in an issue (possibly absolute, or relative to a
+ * package) against the repository tree. Prefers the shortest matching path.
+ */
+export function resolvePath(
+  reference: string,
+  treePaths: string[]
+): string | null {
+  let segments = reference
+    .replace(/^webpack:\/\/\/?/, '')
+    .replace(/^[A-Za-z]:/, '')
+    .replace(/\\/g, '/')
+    .split('/')
+    .filter((segment) => segment && segment !== '.' && segment !== '..');
+
+  while (segments.length > 0) {
+    const suffix = segments.join('/');
+    const matches = treePaths.filter(
+      (path) => path === suffix || path.endsWith(`/${suffix}`)
+    );
+    if (matches.length > 0) {
+      return matches.sort((a, b) => a.length - b.length)[0];
+    }
+    // Absolute paths from someone's machine: drop leading directories
+    segments = segments.slice(1);
+    if (segments.length === 1 && treePaths.length > 0) {
+      // Bare file names are too ambiguous unless unique in the tree
+      const byName = treePaths.filter(
+        (path) => path.endsWith(`/${segments[0]}`) || path === segments[0]
+      );
+      return byName.length === 1 ? byName[0] : null;
+    }
+  }
+
+  return null;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]/g, '');
+}
+
+function resolveSymbolFile(symbol: string, treePaths: string[]): string | null {
+  const target = normalizeName(symbol.split('.')[0]);
+  const codePattern = new RegExp(`\\.(?:${CODE_EXTENSIONS})$`);
+
+  const matches = treePaths.filter((path) => {
+    const fileName = path.slice(path.lastIndexOf('/') + 1);
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+    return codePattern.test(fileName) && normalizeName(baseName) === target;
+  });
+
+  return matches.length > 0
+    ? matches.sort((a, b) => a.length - b.length)[0]
+    : null;
+}
+
+function findSymbolLine(content: string, symbol: string): number | undefined {
+  const name = symbol.split('.').pop() as string;
+  const definition = new RegExp(
+    `\\b(?:class|function|def|func|fn|interface|type|struct|enum|const|let|var|module)\\s+${name}\\b|\\b${name}\\s*(?:=|:)\\s*(?:async\\s*)?(?:function|\\()`
+  );
+  const index = content.split('\n').findIndex((line) => definition.test(line));
+  return index >= 0 ? index + 1 : undefined;
+}
+
+async function fetchFile(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string
+): Promise<{ content: string | null; size: number } | null> {
+  try {
+    const { data } = await octokit.rest.repos.getContent({
+      owner,
+      repo,
+      path,
+      ref,
+    });
+    if (Array.isArray(data) || data.type !== 'file') {
+      return null;
+    }
+    // Files over 1 MB come back without inline content
+    const content =
+      'content' in data && data.content
+        ? Buffer.from(data.content, 'base64').toString('utf-8')
+        : null;
+    if (content?.includes('\u0000')) {
+      return { content: null, size: data.size }; // binary
+    }
+    return { content, size: data.size };
+  } catch (error) {
+    logger.debug({ error, path }, 'Could not fetch referenced file');
+    return null;
+  }
+}
+
+async function countRecentCommits(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  path: string,
+  ref: string
+): Promise<number> {
+  const since = new Date(
+    Date.now() - config.codeContext.churnDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+  try {
+    const { data } = await octokit.rest.repos.listCommits({
+      owner,
+      repo,
+      path,
+      sha: ref,
+      since,
+      per_page: 100,
+    });
+    return data.length;
+  } catch {
+    return 0;
+  }
+}
+
+function buildExcerpt(
+  content: string,
+  line: number | undefined
+): { startLine: number; endLine: number; text: string } {
+  const lines = content.split('\n');
+  const window = config.codeContext.contextLines;
+
+  const startLine = line ? Math.max(1, line - window) : 1;
+  const endLine = line
+    ? Math.min(lines.length, line + window)
+    : Math.min(lines.length, window * 3);
+
+  const text = lines
+    .slice(startLine - 1, endLine)
+    .map((text, index) => {
+      const number = startLine + index;
+      const marker = number === line ? '>' : ' ';
+      return `${marker}${String(number).padStart(5)} | ${text}`;
+    })
+    .join('\n');
+
+  return { startLine, endLine, text };
+}
+
+function describeReference(reference: CodeReference): string {
+  if (reference.kind === 'symbol') {
+    return `symbol \`${reference.symbol}\``;
+  }
+  const location = `${reference.path}${reference.line ? `:${reference.line}` : ''}`;
+  return reference.kind === 'stack-frame'
+    ? `stack frame ${location}`
+    : `mentioned ${location}`;
+}
+
+/**
+ * Fetch bounded excerpts of the code an issue points at. Excerpts are taken
+ * from the default branch in reference order (stack frames, then explicit
+ * paths, then symbols) until the token budget or file limit is reached.
+ */
+export async function collectCodeExcerpts(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  treePaths: string[],
+  issue: EnrichedIssue
+): Promise<CodeExcerpt[]> {
+  const references = extractCodeReferences(issue);
+  if (references.length === 0) {
+    return [];
+  }
+
+  const kindOrder = { 'stack-frame': 0, file: 1, symbol: 2 };
+  references.sort((a, b) => kindOrder[a.kind] - kindOrder[b.kind]);
+
+  const excerpts: CodeExcerpt[] = [];
+  const usedFiles = new Set<string>();
+  let remainingTokens = config.codeContext.tokenBudget;
+
+  for (const reference of references) {
+    if (
+      excerpts.length >= config.codeContext.maxFiles ||
+      remainingTokens <= 50
+    ) {
+      break;
+    }
+
+    const path =
+      reference.kind === 'symbol'
+        ? resolveSymbolFile(reference.symbol as string, treePaths)
+        : resolvePath(reference.path as string, treePaths);
+    if (!path || usedFiles.has(path)) {
+      continue;
+    }
+
+    const file = await fetchFile(octokit, owner, repo, path, ref);
+    if (!file || file.content === null) {
+      continue;
+    }
+    usedFiles.add(path);
+
+    const line =
+      reference.kind === 'symbol'
+        ? findSymbolLine(file.content, reference.symbol as string)
+        : reference.line;
+    const excerpt = buildExcerpt(file.content, line);
+
+    let text = excerpt.text;
+    let endLine = excerpt.endLine;
+    let truncated = false;
+    if (estimateTokens(text) > remainingTokens) {
+      const keptLines = text
+        .split('\n')
+        .slice(0, Math.max(1, Math.floor((remainingTokens * 4) / 80)));
+      text = keptLines.join('\n');
+      endLine = excerpt.startLine + keptLines.length - 1;
+      truncated = true;
+    }
+
+    excerpts.push({
+      path,
+      startLine: excerpt.startLine,
+      endLine,
+      content: text,
+      fileSize: file.size,
+      recentCommits: await countRecentCommits(octokit, owner, repo, path, ref),
+      reason: describeReference(reference),
+      truncated,
+    });
+    remainingTokens -= estimateTokens(text);
+  }
+
+  return excerpts;
+}
+
+/**
+ * Attach code excerpts to every issue that references code. The repository
+ * tree is listed once and shared across all issues.
+ */
+export async function attachCodeContext(
+  owner: string,
+  repo: string,
+  repoContext: RepoContext,
+  issues: EnrichedIssue[],
+  clientOptions: GitHubClientOptions = {}
+): Promise<EnrichedIssue[]> {
+  if (!config.codeContext.enabled || issues.length === 0) {
+    return issues;
+  }
+
+  const octokit = createGitHubClient(clientOptions);
+  const ref = repoContext.defaultBranch;
+
+  let treePaths: string[];
+  try {
+    treePaths = (await fetchRepoTree(octokit, owner, repo, ref)).paths;
+  } catch (error) {
+    logger.warn(
+      { error, owner, repo },
+      'Skipping code context, tree unavailable'
+    );
+    return issues;
+  }
+
+  const results: EnrichedIssue[] = [];
+  const concurrency = 5;
+
+  for (let i = 0; i < issues.length; i += concurrency) {
+    const chunk = issues.slice(i, i + concurrency);
+    results.push(
+      ...(await Promise.all(
+        chunk.map(async (issue) => {
+          const codeExcerpts = await collectCodeExcerpts(
+            octokit,
+            owner,
+            repo,
+            ref,
+            treePaths,
+            issue
+          );
+          if (codeExcerpts.length > 0) {
+            logger.debug(
+              {
+                issueNumber: issue.number,
+                files: codeExcerpts.map((excerpt) => excerpt.path),
+              },
+              'Attached code excerpts'
+            );
+          }
+          return codeExcerpts.length > 0 ? { ...issue, codeExcerpts } : issue;
+        })
+      ))
+    );
+  }
+
+  return results;
+}
+
+export function formatCodeExcerpts(excerpts: CodeExcerpt[]): string {
+  return excerpts
+    .map(
+      (excerpt) =>
+        `File: ${excerpt.path} (lines ${excerpt.startLine}-${excerpt.endLine}${
+          excerpt.truncated ? ', truncated' : ''
+        })
+Size: ${(excerpt.fileSize / 1024).toFixed(1)} KB | Commits in last ${config.codeContext.churnDays} days: ${excerpt.recentCommits}${
+          excerpt.recentCommits >= 100 ? '+' : ''
+        }
+Referenced by: ${excerpt.reason}
+\`\`\`
+${excerpt.content}
+\`\`\``
+    )
+    .join('\n\n');
+}
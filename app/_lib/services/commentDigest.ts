@@ -0,0 +1,325 @@
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import { estimateTokens } from '@/app/_lib/utils/tokens';
+import { EnrichedIssue, IssueComment } from './github';
+
+// What was left out of an issue's prompt, recorded with its estimation
+export interface CommentOmissions {
+  botComments: number;
+  reactionComments: number; // "+1", "same here", emoji-only
+  quotedReplies: number; // quoted blocks collapsed
+  collapsedBlocks: number; // long code or log blocks shortened
+  trimmedComments: number; // dropped to fit the token budget
+  trimmedAuthors: string[];
+  bodyTruncated: boolean;
+  tokenBudget: number;
+  tokensBefore: number;
+  tokensAfter: number;
+}
+
+// Prompt tokens for the body and comments when COMMENT_TOKEN_BUDGET is unset
+const MODEL_TOKEN_BUDGETS: Record<string, number> = {
+  'gpt-5': 16000,
+  'gpt-5-mini': 12000,
+  'gpt-5-nano': 6000,
+  'gpt-4.1': 16000,
+  'claude-sonnet-4-5': 16000,
+  'claude-haiku-4-5': 12000,
+};
+const DEFAULT_TOKEN_BUDGET = 8000;
+
+const MAINTAINER_ASSOCIATIONS = new Set(['OWNER', 'MEMBER', 'COLLABORATOR']);
+
+// Accounts that post CI results, dependency bumps and reminders
+const BOT_LOGIN =
+  /\[bot\]$|[-_]bot$|^(dependabot|renovate|codecov|coveralls|github-actions|netlify|vercel|sonarcloud|stale|allcontributors|changeset-bot|linear|sentry-io)$/i;
+
+const REACTION_PHRASES = new Set([
+  'same',
+  'same here',
+  'same issue',
+  'me too',
+  'bump',
+  'any update',
+  'any updates',
+  'any news',
+  'any progress',
+  'thanks',
+  'thank you',
+  'ty',
+]);
+
+// Lines kept from each end of a collapsed code or log block
+const BLOCK_HEAD_LINES = 10;
+const BLOCK_TAIL_LINES = 5;
+
+export function getCommentTokenBudget(model: string): number {
+  if (config.comments.tokenBudget > 0) {
+    return config.comments.tokenBudget;
+  }
+  return MODEL_TOKEN_BUDGETS[model] ?? DEFAULT_TOKEN_BUDGET;
+}
+
+export function isMaintainerComment(comment: IssueComment): boolean {
+  return MAINTAINER_ASSOCIATIONS.has(comment.authorAssociation ?? '');
+}
+
+export function isBotComment(comment: IssueComment): boolean {
+  return Boolean(comment.authorIsBot) || BOT_LOGIN.test(comment.author);
+}
+
+/**
+ * True for comments that only react: "+1", "-1", emoji, "same here",
+ * "any update?". Anything with more words is kept.
+ */
+export function isReactionComment(body: string): boolean {
+  const text = body
+    .trim()
+    .toLowerCase()
+    .replace(/[.!?,\s]+$/, '');
+  if (REACTION_PHRASES.has(text)) {
+    return true;
+  }
+  // Nothing left but emoji, punctuation and +1 / -1 style votes; letters
+  // and digits of any script make it a real comment
+  return !/[\p{L}\p{N}]/u.test(text.replace(/[+-]\d+/g, ''));
+}
+
+/**
+ * Replace each block of quoted lines ("> ...") with a one-line marker, along
+ * with the "On <date>, <name> wrote:" line email replies put before it.
+ */
+function collapseQuotedReplies(text: string): { text: string; count: number } {
+  const lines = text.split('\n');
+  const output: string[] = [];
+  let count = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!/^\s*>/.test(lines[i])) {
+      output.push(lines[i]);
+      continue;
+    }
+    while (i + 1 < lines.length && /^\s*>/.test(lines[i + 1])) {
+      i++;
+    }
+    if (
+      output.length > 0 &&
+      /^On .+ wrote:\s*$/.test(output[output.length - 1])
+    ) {
+      output.pop();
+    }
+    output.push('> [quoted reply omitted]');
+    count++;
+  }
+
+  return { text: output.join('\n'), count };
+}
+
+/**
+ * Shorten fenced blocks longer than maxLines to their first and last few
+ * lines. Stack traces keep the top frames and the final error this way.
+ */
+function collapseLongBlocks(
+  text: string,
+  maxLines: number
+): { text: string; count: number } {
+  let count = 0;
+  const collapsed = text.replace(
+    /^(\s*)(```|~~~)([^\n]*)\n([\s\S]*?)\n\s*\2\s*$/gm,
+    (block, indent: string, fence: string, info: string, content: string) => {
+      const lines = content.split('\n');
+      if (lines.length <= maxLines) {
+        return block;
+      }
+      count++;
+      const omitted = lines.length - BLOCK_HEAD_LINES - BLOCK_TAIL_LINES;
+      return [
+        `${indent}${fence}${info}`,
+        ...lines.slice(0, BLOCK_HEAD_LINES),
+        `[... ${omitted} lines omitted ...]`,
+        ...lines.slice(-BLOCK_TAIL_LINES),
+        `${indent}${fence}`,
+      ].join('\n');
+    }
+  );
+  return { text: collapsed, count };
+}
+
+function truncateToTokens(text: string, tokens: number): string {
+  const maxChars = tokens * 4;
+  if (text.length <= maxChars) {
+    return text;
+  }
+  return `${text.slice(0, maxChars)}\n[... truncated to fit the prompt budget]`;
+}
+
+function commentTokens(comment: IssueComment): number {
+  // Author and date prefix included
+  return estimateTokens(comment.body) + 10;
+}
+
+/**
+ * Prepare an issue's body and comments for the prompt: drop bot and
+ * reaction-only comments, collapse quoted replies and long code or log
+ * blocks, then fit what is left into the model's token budget.
+ *
+ * Trimming keeps maintainer comments first, then the most recent ones, and
+ * restores chronological order afterwards. The returned issue carries the
+ * omissions so the prompt can say what it is missing.
+ */
+export function digestIssue(
+  issue: EnrichedIssue,
+  model: string
+): { issue: EnrichedIssue; omissions: CommentOmissions } {
+  const tokenBudget = getCommentTokenBudget(model);
+  const { maxBlockLines } = config.comments;
+  const tokensBefore =
+    estimateTokens(issue.body ?? '') +
+    issue.comments.reduce((sum, comment) => sum + commentTokens(comment), 0);
+
+  const omissions: CommentOmissions = {
+    botComments: 0,
+    reactionComments: 0,
+    quotedReplies: 0,
+    collapsedBlocks: 0,
+    trimmedComments: 0,
+    trimmedAuthors: [],
+    bodyTruncated: false,
+    tokenBudget,
+    tokensBefore,
+    tokensAfter: tokensBefore,
+  };
+
+  const clean = (text: string): string => {
+    const quoted = collapseQuotedReplies(text);
+    const blocks = collapseLongBlocks(quoted.text, maxBlockLines);
+    omissions.quotedReplies += quoted.count;
+    omissions.collapsedBlocks += blocks.count;
+    return blocks.text;
+  };
+
+  const collapsedBody = issue.body
+    ? collapseLongBlocks(issue.body, maxBlockLines)
+    : null;
+  omissions.collapsedBlocks += collapsedBody?.count ?? 0;
+
+  const comments: IssueComment[] = [];
+  for (const comment of issue.comments) {
+    if (isBotComment(comment)) {
+      omissions.botComments++;
+    } else if (isReactionComment(comment.body)) {
+      omissions.reactionComments++;
+    } else {
+      comments.push({ ...comment, body: clean(comment.body) });
+    }
+  }
+
+  // The description gets up to half the budget, comments the rest
+  let bodyText = collapsedBody?.text ?? null;
+  if (bodyText && estimateTokens(bodyText) > tokenBudget / 2) {
+    bodyText = truncateToTokens(bodyText, Math.floor(tokenBudget / 2));
+    omissions.bodyTruncated = true;
+  }
+
+  let remaining = tokenBudget - estimateTokens(bodyText ?? '');
+  const byPriority = comments
+    .map((comment, index) => ({ comment, index }))
+    .sort(
+      (a, b) =>
+        Number(isMaintainerComment(b.comment)) -
+          Number(isMaintainerComment(a.comment)) || b.index - a.index
+    );
+
+  const kept = new Set<number>();
+  const trimmedAuthors = new Set<string>();
+  for (const { comment, index } of byPriority) {
+    const tokens = commentTokens(comment);
+    if (tokens <= remaining) {
+      kept.add(index);
+      remaining -= tokens;
+    } else if (remaining > 200 && isMaintainerComment(comment)) {
+      // A long maintainer comment is worth a truncated copy
+      comments[index] = {
+        ...comment,
+        body: truncateToTokens(comment.body, remaining - 20),
+      };
+      kept.add(index);
+      remaining = 0;
+    } else {
+      omissions.trimmedComments++;
+      trimmedAuthors.add(comment.author);
+    }
+  }
+  omissions.trimmedAuthors = [...trimmedAuthors];
+
+  const keptComments = comments.filter((_, index) => kept.has(index));
+  omissions.tokensAfter =
+    estimateTokens(bodyText ?? '') +
+    keptComments.reduce((sum, comment) => sum + commentTokens(comment), 0);
+
+  if (omissions.tokensAfter < tokensBefore) {
+    logger.debug(
+      { issueNumber: issue.number, ...omissions },
+      'Issue comments digested'
+    );
+  }
+
+  return {
+    issue: {
+      ...issue,
+      body: bodyText,
+      comments: keptComments,
+      commentOmissions: omissions,
+    },
+    omissions,
+  };
+}
+
+export function hasOmissions(omissions: CommentOmissions): boolean {
+  return (
+    omissions.botComments +
+      omissions.reactionComments +
+      omissions.quotedReplies +
+      omissions.collapsedBlocks +
+      omissions.trimmedComments >
+      0 || omissions.bodyTruncated
+  );
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * One line describing what was left out, for the prompt and the CSV
+ */
+export function formatCommentOmissions(omissions: CommentOmissions): string {
+  const parts: string[] = [];
+  if (omissions.botComments > 0) {
+    parts.push(plural(omissions.botComments, 'bot comment'));
+  }
+  if (omissions.reactionComments > 0) {
+    parts.push(plural(omissions.reactionComments, 'reaction-only comment'));
+  }
+  if (omissions.trimmedComments > 0) {
+    parts.push(
+      `${plural(omissions.trimmedComments, 'comment')} over the token budget (${omissions.trimmedAuthors.join(', ')})`
+    );
+  }
+  if (omissions.quotedReplies > 0) {
+    parts.push(
+      omissions.quotedReplies === 1
+        ? '1 quoted reply'
+        : `${omissions.quotedReplies} quoted replies`
+    );
+  }
+  if (omissions.collapsedBlocks > 0) {
+    parts.push(
+      `${plural(omissions.collapsedBlocks, 'long code/log block')} shortened`
+    );
+  }
+  if (omissions.bodyTruncated) {
+    parts.push('description truncated');
+  }
+  return parts.join('; ');
+}
@@ -0,0 +1,140 @@
+import { config } from '@/config';
+
+// Roles a rate card may price; more than this is almost certainly a mistake
+const MAX_ROLES = 12;
+
+// Hourly rate in USD per role, e.g. { backend: 90, qa: 60 }
+export type RateCard = Record<string, number>;
+
+export interface EffortOptions {
+  rateCard: RateCard;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Read a rate card from an object ({ "backend": 90 }) or a comma-separated
+ * list ("backend:90,qa:60"). Role names are lowercased.
+ */
+export function parseRateCard(
+  input: unknown
+): { rateCard: RateCard } | { error: string } {
+  let entries: Array<[string, unknown]>;
+  if (typeof input === 'string') {
+    entries = input
+      .split(',')
+      .map((entry) => entry.trim())
+      .filter(Boolean)
+      .map((entry) => {
+        const separator = entry.lastIndexOf(':');
+        return separator === -1
+          ? [entry, undefined]
+          : [entry.slice(0, separator), entry.slice(separator + 1)];
+      });
+  } else if (input && typeof input === 'object' && !Array.isArray(input)) {
+    entries = Object.entries(input);
+  } else {
+    return { error: 'rateCard must be an object of role: hourly rate' };
+  }
+
+  if (entries.length === 0) {
+    return { error: 'rateCard must price at least one role' };
+  }
+  if (entries.length > MAX_ROLES) {
+    return { error: `rateCard can price at most ${MAX_ROLES} roles` };
+  }
+
+  const rateCard: RateCard = {};
+  for (const [rawRole, rawRate] of entries) {
+    const role = rawRole.trim().toLowerCase();
+    if (!/^[a-z][a-z0-9_-]*$/.test(role)) {
+      return { error: `"${rawRole}" is not a valid role name` };
+    }
+    const rate =
+      typeof rawRate === 'string' && rawRate.trim() ? Number(rawRate) : rawRate;
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0) {
+      return { error: `rate for "${role}" must be a positive number` };
+    }
+    rateCard[role] = rate;
+  }
+  return { rateCard };
+}
+
+/**
+ * Validate the `effort` option of a request. `true` uses EFFORT_RATE_CARD,
+ * `{ rateCard }` brings its own rates and `false` forces the budget mode.
+ * Unset follows ESTIMATION_MODE.
+ */
+export function parseEffortOptions(
+  input: unknown
+): { options: EffortOptions | null | undefined } | { error: string } {
+  if (input === undefined || input === null) {
+    return { options: undefined };
+  }
+  if (input === false) {
+    return { options: null };
+  }
+  if (input === true) {
+    const parsed = parseRateCard(config.effort.rateCard);
+    return 'error' in parsed
+      ? { error: `EFFORT_RATE_CARD: ${parsed.error}` }
+      : { options: parsed };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'effort must be a boolean or an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const parsed = parseRateCard(raw.rateCard ?? config.effort.rateCard);
+  if ('error' in parsed) {
+    return { error: parsed.error };
+  }
+  return { options: parsed };
+}
+
+/**
+ * The effort options an estimate runs with, null for the budget mode.
+ * Unset options fall back to ESTIMATION_MODE and EFFORT_RATE_CARD.
+ */
+export function resolveEffortOptions(
+  options: EffortOptions | null | undefined
+): EffortOptions | null {
+  if (options !== undefined) {
+    return options;
+  }
+  if (config.effort.mode !== 'effort') {
+    return null;
+  }
+  const parsed = parseRateCard(config.effort.rateCard);
+  if ('error' in parsed) {
+    throw new Error(`Invalid EFFORT_RATE_CARD: ${parsed.error}`);
+  }
+  return parsed;
+}
+
+export function totalHours(hours: Record<string, number>): number {
+  return round(Object.values(hours).reduce((sum, value) => sum + value, 0));
+}
+
+// Cost is never asked of the model in the effort mode: hours times rate
+export function costOfHours(
+  hours: Record<string, number>,
+  rateCard: RateCard
+): number {
+  return round(
+    Object.entries(hours).reduce(
+      (sum, [role, value]) => sum + value * (rateCard[role] ?? 0),
+      0
+    )
+  );
+}
+
+/**
+ * "backend 6h, qa 2h"; roles with no hours are left out
+ */
+export function formatRoleHours(hours: Record<string, number>): string {
+  return Object.entries(hours)
+    .filter(([, value]) => value > 0)
+    .map(([role, value]) => `${role} ${value}h`)
+    .join(', ');
+}
@@ -0,0 +1,177 @@
+import { config } from '@/config';
+import {
+  COMPLEXITY_LEVELS,
+  Complexity,
+  ValidEstimation,
+} from './estimationSchema';
+import { splitList } from './llm/openai';
+
+// Samples per model a request may ask for
+const MAX_SAMPLES = 10;
+
+export interface EnsembleOptions {
+  samples: number; // replies per model
+  models: string[]; // model ids asked besides the request's own model
+}
+
+// One member's answer, its cost already held to its complexity's range
+export interface EnsembleSample extends ValidEstimation {
+  model: string;
+}
+
+export interface EnsembleResult {
+  complexity: Complexity;
+  estimatedCost: number; // median of the samples
+  reasoning: string;
+  // Hours per role of the median sample in the effort mode, null otherwise
+  hours: Record<string, number> | null;
+  costP10: number;
+  costP90: number;
+  // Share of samples that chose the winning complexity; null for one sample
+  agreement: number | null;
+  // Agreement discounted by the relative width of the p10-p90 range
+  confidence: number | null;
+  needsReview: boolean;
+}
+
+/**
+ * Validate the `ensemble` option of a request: { samples, models }.
+ * Unset means the ENSEMBLE_* defaults.
+ */
+export function parseEnsembleOptions(
+  input: unknown
+): { options: EnsembleOptions | undefined } | { error: string } {
+  if (input === undefined || input === null) {
+    return { options: undefined };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'ensemble must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const samples = raw.samples === undefined ? 1 : Number(raw.samples);
+  if (!Number.isInteger(samples) || samples < 1 || samples > MAX_SAMPLES) {
+    return { error: `ensemble.samples must be between 1 and ${MAX_SAMPLES}` };
+  }
+
+  let models: string[] = [];
+  if (typeof raw.models === 'string') {
+    models = splitList(raw.models);
+  } else if (Array.isArray(raw.models)) {
+    if (!raw.models.every((model) => typeof model === 'string')) {
+      return { error: 'ensemble.models must be model ids' };
+    }
+    models = raw.models.map((model: string) => model.trim()).filter(Boolean);
+  } else if (raw.models !== undefined) {
+    return { error: 'ensemble.models must be a list of model ids' };
+  }
+
+  return { options: { samples, models } };
+}
+
+/**
+ * The models an issue is sent to and how often: the request's model first,
+ * then any extra ensemble models
+ */
+export function getEnsembleMembers(
+  model: string,
+  options?: EnsembleOptions
+): Array<{ model: string; sample: number }> {
+  const { samples, models } = options ?? {
+    samples: Math.max(config.ensemble.samples, 1),
+    models: splitList(config.ensemble.models),
+  };
+
+  return [...new Set([model, ...models])].flatMap((member) =>
+    Array.from({ length: samples }, (_, sample) => ({ model: member, sample }))
+  );
+}
+
+// Linear interpolation between the closest ranks
+function percentile(sorted: number[], fraction: number): number {
+  const rank = (sorted.length - 1) * fraction;
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Combine ensemble samples: the most common complexity (ties go to the
+ * higher level, the safer budget), the median cost and its p10-p90 range.
+ * The reasoning is taken from the sample of the winning complexity closest
+ * to the median. In the effort mode the cost and role hours are those of the
+ * median sample (the higher of the two middle ones), so the hours price to
+ * exactly the cost. Few samples agreeing, or a wide range, flags the issue
+ * for review.
+ */
+export function aggregateSamples(samples: EnsembleSample[]): EnsembleResult {
+  const counts = new Map<Complexity, number>();
+  samples.forEach((sample) =>
+    counts.set(sample.complexity, (counts.get(sample.complexity) ?? 0) + 1)
+  );
+  const complexity = [...COMPLEXITY_LEVELS]
+    .reverse()
+    .reduce((best, level) =>
+      (counts.get(level) ?? 0) > (counts.get(best) ?? 0) ? level : best
+    );
+
+  const costs = samples
+    .map((sample) => sample.estimatedCost)
+    .sort((a, b) => a - b);
+  const medianSample = samples[0].hours
+    ? [...samples].sort((a, b) => a.estimatedCost - b.estimatedCost)[
+        Math.ceil((samples.length - 1) / 2)
+      ]
+    : null;
+  const estimatedCost =
+    medianSample?.estimatedCost ?? round(percentile(costs, 0.5));
+  // A median sample of two can sit past the interpolated range
+  const costP10 = Math.min(round(percentile(costs, 0.1)), estimatedCost);
+  const costP90 = Math.max(round(percentile(costs, 0.9)), estimatedCost);
+
+  const reasoning = samples
+    .filter((sample) => sample.complexity === complexity)
+    .reduce((closest, sample) =>
+      Math.abs(sample.estimatedCost - estimatedCost) <
+      Math.abs(closest.estimatedCost - estimatedCost)
+        ? sample
+        : closest
+    ).reasoning;
+
+  const hours = medianSample?.hours ?? null;
+
+  if (samples.length === 1) {
+    return {
+      complexity,
+      estimatedCost,
+      reasoning,
+      hours,
+      costP10,
+      costP90,
+      agreement: null,
+      confidence: null,
+      needsReview: false,
+    };
+  }
+
+  const agreement = round((counts.get(complexity) ?? 0) / samples.length);
+  const spread =
+    estimatedCost > 0 ? Math.min((costP90 - costP10) / estimatedCost, 1) : 0;
+  const confidence = round(agreement * (1 - spread));
+
+  return {
+    complexity,
+    estimatedCost,
+    reasoning,
+    hours,
+    costP10,
+    costP90,
+    agreement,
+    confidence,
+    needsReview:
+      agreement < config.ensemble.minAgreement ||
+      confidence < config.ensemble.minConfidence,
+  };
+}
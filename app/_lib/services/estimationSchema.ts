@@ -0,0 +1,297 @@
+import { ComplexityBudgetRange } from './ai';
+import { RateCard, costOfHours, totalHours } from './effort';
+import { extractJsonObject } from './llm';
+
+export const COMPLEXITY_LEVELS = ['low', 'medium', 'high', 'critical'] as const;
+
+export type Complexity = (typeof COMPLEXITY_LEVELS)[number];
+
+// A change made to the model's answer, kept on the estimate for auditing
+export interface EstimationCorrection {
+  field:
+    | 'response'
+    | 'complexity'
+    | 'estimatedCost'
+    | 'costRange'
+    | 'hours'
+    | 'reasoning';
+  action: 'repaired' | 'normalized' | 'clamped' | 'flagged' | 'widened';
+  from?: unknown;
+  to?: unknown;
+  message: string;
+}
+
+export interface ValidEstimation {
+  complexity: Complexity;
+  estimatedCost: number;
+  reasoning: string;
+  hours?: Record<string, number>; // per role, in the effort mode
+}
+
+export type EstimationValidation =
+  | { estimation: ValidEstimation; corrections: EstimationCorrection[] }
+  // modelError: the model answered with the { "error": ... } shape
+  | { errors: string[]; modelError?: string };
+
+// Hours as a number, or a string like "6" or "6h"
+function readHours(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const numeric = Number(value.replace(/\s*(hours?|hrs?|h)\s*$/i, ''));
+    return Number.isFinite(numeric) ? numeric : undefined;
+  }
+  return undefined;
+}
+
+function readCost(
+  value: unknown,
+  errors: string[],
+  corrections: EstimationCorrection[]
+): number | undefined {
+  let estimatedCost: number | undefined;
+  if (typeof value === 'number') {
+    estimatedCost = value;
+  } else if (typeof value === 'string') {
+    const numeric = Number(value.replace(/[$,\s]|USD/gi, ''));
+    if (value.trim() && Number.isFinite(numeric)) {
+      estimatedCost = numeric;
+      corrections.push({
+        field: 'estimatedCost',
+        action: 'normalized',
+        from: value,
+        to: numeric,
+        message: `estimatedCost "${value}" read as ${numeric}`,
+      });
+    }
+  }
+  if (estimatedCost === undefined) {
+    errors.push('"estimatedCost" is required and must be a single number');
+  } else if (!Number.isFinite(estimatedCost) || estimatedCost < 0) {
+    errors.push('"estimatedCost" must be a non-negative number');
+  }
+  return estimatedCost;
+}
+
+/**
+ * Check the "hours" of an effort reply against the rate card's roles. Roles
+ * left out count as 0 hours; roles the card doesn't price are errors.
+ */
+function validateHours(
+  value: unknown,
+  rateCard: RateCard,
+  errors: string[],
+  corrections: EstimationCorrection[]
+): Record<string, number> | undefined {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push('"hours" is required and must be an object of role: hours');
+    return undefined;
+  }
+
+  const reply = Object.fromEntries(
+    Object.entries(value).map(([role, hours]) => [
+      role.trim().toLowerCase(),
+      hours,
+    ])
+  );
+  const unknown = Object.keys(reply).filter((role) => !(role in rateCard));
+  if (unknown.length > 0) {
+    errors.push(
+      `"hours" may only use the roles ${Object.keys(rateCard).join(', ')}, got ${unknown.join(', ')}`
+    );
+    return undefined;
+  }
+
+  const hours: Record<string, number> = {};
+  for (const role of Object.keys(rateCard)) {
+    if (reply[role] === undefined) {
+      hours[role] = 0;
+      corrections.push({
+        field: 'hours',
+        action: 'normalized',
+        to: 0,
+        message: `no hours for ${role}, read as 0`,
+      });
+      continue;
+    }
+    const numeric = readHours(reply[role]);
+    if (numeric === undefined || numeric < 0) {
+      errors.push(`"hours.${role}" must be a non-negative number`);
+      return undefined;
+    }
+    if (numeric !== reply[role]) {
+      corrections.push({
+        field: 'hours',
+        action: 'normalized',
+        from: reply[role],
+        to: numeric,
+        message: `hours for ${role} "${reply[role]}" read as ${numeric}`,
+      });
+    }
+    hours[role] = numeric;
+  }
+
+  if (totalHours(hours) <= 0) {
+    errors.push('"hours" must add up to more than 0');
+    return undefined;
+  }
+  return hours;
+}
+
+/**
+ * Check a reply against the output format of the system prompt. Harmless
+ * deviations are normalized and recorded: "Medium" for "medium", a cost
+ * sent as "$1,200". Anything else is reported as errors for a repair round.
+ * With a rate card the reply gives hours per role instead of a cost, and
+ * the cost is worked out from the rates.
+ */
+export function validateEstimationResponse(
+  content: string,
+  rateCard?: RateCard
+): EstimationValidation {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJsonObject(content));
+  } catch {
+    return { errors: ['The reply is not valid JSON'] };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { errors: ['The reply must be a JSON object'] };
+  }
+
+  const reply = parsed as Record<string, unknown>;
+  if (reply.error !== undefined && reply.complexity === undefined) {
+    return {
+      errors: ['The model returned an error instead of an estimate'],
+      modelError: String(reply.error),
+    };
+  }
+
+  const errors: string[] = [];
+  const corrections: EstimationCorrection[] = [];
+
+  let complexity: Complexity | undefined;
+  if (typeof reply.complexity !== 'string') {
+    errors.push('"complexity" is required and must be a string');
+  } else {
+    const normalized = reply.complexity.trim().toLowerCase();
+    if ((COMPLEXITY_LEVELS as readonly string[]).includes(normalized)) {
+      complexity = normalized as Complexity;
+      if (normalized !== reply.complexity) {
+        corrections.push({
+          field: 'complexity',
+          action: 'normalized',
+          from: reply.complexity,
+          to: normalized,
+          message: `complexity "${reply.complexity}" read as "${normalized}"`,
+        });
+      }
+    } else {
+      errors.push(
+        `"complexity" must be one of ${COMPLEXITY_LEVELS.join(', ')}, got "${reply.complexity}"`
+      );
+    }
+  }
+
+  let estimatedCost: number | undefined;
+  let hours: Record<string, number> | undefined;
+  if (rateCard) {
+    hours = validateHours(reply.hours, rateCard, errors, corrections);
+    estimatedCost = hours && costOfHours(hours, rateCard);
+  } else {
+    estimatedCost = readCost(reply.estimatedCost, errors, corrections);
+  }
+
+  if (typeof reply.reasoning !== 'string' || !reply.reasoning.trim()) {
+    errors.push('"reasoning" is required and must be a non-empty string');
+  }
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  return {
+    estimation: {
+      complexity: complexity as Complexity,
+      estimatedCost: estimatedCost as number,
+      reasoning: (reply.reasoning as string).trim(),
+      ...(hours ? { hours } : {}),
+    },
+    corrections,
+  };
+}
+
+/**
+ * The follow-up message for a repair round: what was wrong with the reply
+ * and the reply itself, so the model can fix rather than start over
+ */
+export function buildRepairPrompt(
+  userPrompt: string,
+  reply: string,
+  errors: string[],
+  rateCard?: RateCard
+): string {
+  const levels = '"low" | "medium" | "high" | "critical"';
+  const roles = Object.keys(rateCard ?? {})
+    .map((role) => `"${role}": number`)
+    .join(', ');
+  const shape = rateCard
+    ? `{"complexity": ${levels}, "hours": {${roles}}, "reasoning": string}`
+    : `{"complexity": ${levels}, "estimatedCost": number, "reasoning": string}`;
+
+  return `${userPrompt}
+
+---
+
+Your previous reply could not be used:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Previous reply:
+${reply.slice(0, 2000)}
+
+Reply again with only a JSON object of the form ${shape}. If data is missing, estimate from what is available and say so in the reasoning.`;
+}
+
+/**
+ * Hold a cost to the budget range of its complexity. 'clamp' moves it to the
+ * nearest bound; 'flag' keeps it and only records the deviation.
+ */
+export function enforceBudgetRange(
+  estimation: Pick<ValidEstimation, 'complexity' | 'estimatedCost'>,
+  range: ComplexityBudgetRange,
+  mode: 'clamp' | 'flag'
+): { estimatedCost: number; correction?: EstimationCorrection } {
+  const { estimatedCost, complexity } = estimation;
+  if (estimatedCost >= range.min && estimatedCost <= range.max) {
+    return { estimatedCost };
+  }
+
+  const bound = estimatedCost < range.min ? range.min : range.max;
+  const rangeText = `$${range.min}-$${range.max}`;
+  if (mode === 'flag') {
+    return {
+      estimatedCost,
+      correction: {
+        field: 'estimatedCost',
+        action: 'flagged',
+        from: estimatedCost,
+        message: `$${estimatedCost} is outside the ${complexity} range ${rangeText}`,
+      },
+    };
+  }
+  return {
+    estimatedCost: bound,
+    correction: {
+      field: 'estimatedCost',
+      action: 'clamped',
+      from: estimatedCost,
+      to: bound,
+      message: `$${estimatedCost} clamped to $${bound}, the ${complexity} range is ${rangeText}`,
+    },
+  };
+}
+
+export function formatCorrections(corrections: EstimationCorrection[]): string {
+  return corrections.map((correction) => correction.message).join('; ');
+}
@@ -1,85 +1,229 @@
-import { Octokit } from 'octokit';
+import { RequestError, type Octokit } from 'octokit';
 import { writeFileSync, mkdirSync } from 'fs';
 import { join } from 'path';
 import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import {
+  GitHubClientOptions,
+  createGitHubClient,
+  findGitHubHost,
+} from './githubClient';
+import {
+  IssueFilters,
+  applyIssueFilters,
+  getMilestoneNumber,
+  matchesIssueFilters,
+} from './issueFilters';
+import {
+  formatCommentOmissions,
+  hasOmissions,
+  isMaintainerComment,
+} from './commentDigest';
+import { RepoProfile, profileRepository } from './repoProfiler';
+import { splitProviderUrl } from './providers/hosts';
+import type {
+  EnrichedIssue,
+  IssueComment,
+  IssueInfo,
+  IssueReactions,
+  IssueTimeline,
+  LinkedPullRequest,
+  ReferencedIssue,
+  RepoContext,
+  RepoInfo,
+} from './providers/types';
 
-interface RepoInfo {
+// The issue data model is shared by every provider; re-exported here for the
+// many modules that import it from github.ts
+export type {
+  EnrichedIssue,
+  IssueComment,
+  IssueInfo,
+  IssueReactions,
+  IssueTimeline,
+  LinkedPullRequest,
+  ReferencedIssue,
+  RepoContext,
+  RepoInfo,
+} from './providers/types';
+
+export interface OwnerInfo {
+  host: string;
+  owner: string; // organization or user login
+}
+
+export interface ProjectInfo {
+  host: string;
+  ownerType: 'organization' | 'user';
   owner: string;
-  repo: string;
+  number: number;
 }
 
-export interface RepoContext {
+export interface OwnerRepository {
   name: string;
-  fullName: string;
-  description: string | null;
-  languages: Record<string, number>;
-  primaryLanguage: string | null;
-  stars: number;
-  forks: number;
-  openIssuesCount: number;
-  size: number; // in KB
-  createdAt: string;
-  updatedAt: string;
-  hasTests: boolean;
   topics: string[];
-  license: string | null;
+  archived: boolean;
+  fork: boolean;
 }
 
-export interface IssueComment {
-  id: number;
-  body: string;
-  createdAt: string;
-  author: string;
+/**
+ * Split a repository or issue link into its host and path segments. Returns
+ * null unless the host is github.com or a configured GitHub Enterprise Server
+ * host.
+ */
+function splitGitHubUrl(
+  link: string
+): { host: string; segments: string[] } | null {
+  return splitProviderUrl(link, findGitHubHost);
 }
 
-export interface EnrichedIssue {
-  number: number;
-  title: string;
-  body: string | null;
-  labels: string[];
-  state: string;
-  createdAt: string;
-  updatedAt: string;
-  comments: IssueComment[];
-  commentCount: number;
-  url: string;
-  author: string;
+export function parseGitHubRepoUrl(repoLink: string): RepoInfo | null {
+  const parts = splitGitHubUrl(repoLink);
+  if (!parts || parts.segments.length < 2) {
+    return null;
+  }
+
+  const [owner, repo] = parts.segments;
+  return { host: parts.host, owner, repo: repo.replace(/\.git$/, '') };
 }
 
-export function parseGitHubRepoUrl(repoLink: string): RepoInfo | null {
-  // Normalize the input: trim whitespace
-  let normalized = repoLink.trim();
+export function parseGitHubIssueUrl(issueLink: string): IssueInfo | null {
+  const parts = splitGitHubUrl(issueLink);
+  if (
+    !parts ||
+    parts.segments.length < 4 ||
+    parts.segments[2] !== 'issues' ||
+    !/^\d+$/.test(parts.segments[3])
+  ) {
+    return null;
+  }
+
+  const [owner, repo, , issueNumber] = parts.segments;
+  return {
+    host: parts.host,
+    owner,
+    repo,
+    issueNumber: parseInt(issueNumber, 10),
+  };
+}
+
+/**
+ * Parse an organization or user link such as github.com/acme or
+ * github.com/orgs/acme
+ */
+export function parseGitHubOwnerUrl(ownerLink: string): OwnerInfo | null {
+  const parts = splitGitHubUrl(ownerLink);
+  if (!parts) {
+    return null;
+  }
+
+  const { segments } = parts;
+  if (segments.length === 1) {
+    return { host: parts.host, owner: segments[0] };
+  }
+  if (segments.length === 2 && segments[0] === 'orgs') {
+    return { host: parts.host, owner: segments[1] };
+  }
+  return null;
+}
+
+/**
+ * List every repository owned by an organization, falling back to the user
+ * listing when the owner is a personal account
+ */
+export async function fetchOwnerRepositories(
+  owner: string,
+  clientOptions: GitHubClientOptions = {}
+): Promise<OwnerRepository[]> {
+  const octokit = createGitHubClient(clientOptions);
+
+  logger.info({ owner }, 'Listing owner repositories');
 
-  // Add https:// if no protocol is specified
-  if (!normalized.match(/^https?:\/\//)) {
-    normalized = `https://${normalized}`;
+  let repos;
+  try {
+    repos = await octokit.paginate(octokit.rest.repos.listForOrg, {
+      org: owner,
+      type: 'all',
+      per_page: 100,
+    });
+  } catch (error) {
+    if (!(error instanceof RequestError) || error.status !== 404) {
+      throw error;
+    }
+    repos = await octokit.paginate(octokit.rest.repos.listForUser, {
+      username: owner,
+      type: 'owner',
+      per_page: 100,
+    });
   }
 
-  // Remove www. if present
-  normalized = normalized.replace(/^(https?:\/\/)www\./, '$1');
+  logger.info({ owner, count: repos.length }, 'Owner repositories listed');
 
-  // Remove trailing slashes
-  normalized = normalized.replace(/\/+$/, '');
+  return repos.map((repo) => ({
+    name: repo.name,
+    topics: repo.topics ?? [],
+    archived: repo.archived ?? false,
+    fork: repo.fork,
+  }));
+}
 
-  // Remove .git suffix if present
-  normalized = normalized.replace(/\.git$/, '');
+/**
+ * Parse a GitHub Projects (v2) link such as github.com/orgs/acme/projects/5
+ * or github.com/users/octocat/projects/1 (any view suffix is ignored)
+ */
+export function parseGitHubProjectUrl(projectLink: string): ProjectInfo | null {
+  const parts = splitGitHubUrl(projectLink);
+  if (!parts) {
+    return null;
+  }
 
-  // Match github.com/owner/repo pattern
-  const match = normalized.match(/github\.com\/([^\/]+)\/([^\/]+)/);
-  if (!match) {
+  const [scope, owner, kind, number] = parts.segments;
+  if (
+    (scope !== 'orgs' && scope !== 'users') ||
+    !owner ||
+    kind !== 'projects' ||
+    !/^\d+$/.test(number ?? '')
+  ) {
     return null;
   }
 
-  const [, owner, repo] = match;
-  return { owner, repo };
+  return {
+    host: parts.host,
+    ownerType: scope === 'orgs' ? 'organization' : 'user',
+    owner,
+    number: parseInt(number, 10),
+  };
 }
 
-export async function fetchAllOpenIssues(owner: string, repo: string) {
-  const octokit = new Octokit({
-    auth: process.env.GITHUB_TOKEN,
-  });
+/**
+ * Milestone filters can be pushed down to GitHub as a '#12' number, '*' or
+ * 'none'. Titles, and bare digits that may be a title, are matched locally.
+ */
+function pushableMilestone(filters: IssueFilters): string | undefined {
+  const { milestone } = filters;
+  if (milestone === '*' || milestone === 'none') {
+    return milestone;
+  }
+  const number = milestone ? getMilestoneNumber(milestone) : undefined;
+  return number !== undefined ? String(number) : undefined;
+}
 
-  logger.info({ owner, repo }, 'Fetching all open issues');
+/**
+ * `since` on the GitHub APIs filters by update time only
+ */
+function pushableSince(filters: IssueFilters): string | undefined {
+  return filters.dateField === 'updated' ? filters.since : undefined;
+}
+
+export async function fetchAllOpenIssues(
+  owner: string,
+  repo: string,
+  filters: IssueFilters = {},
+  clientOptions: GitHubClientOptions = {}
+) {
+  const octokit = createGitHubClient(clientOptions);
+
+  logger.info({ owner, repo, filters }, 'Fetching all open issues');
 
   const allIssues = [];
   let page = 1;
@@ -92,6 +236,11 @@ export async function fetchAllOpenIssues(owner: string, repo: string) {
       owner,
       repo,
       state: 'open',
+      labels: filters.includeLabels?.join(','),
+      milestone: pushableMilestone(filters),
+      assignee: filters.assignee,
+      creator: filters.author,
+      since: pushableSince(filters),
       per_page: perPage,
       page,
     });
@@ -121,11 +270,10 @@ export async function fetchAllOpenIssues(owner: string, repo: string) {
 
 export async function fetchRepoContext(
   owner: string,
-  repo: string
+  repo: string,
+  clientOptions: GitHubClientOptions = {}
 ): Promise<RepoContext> {
-  const octokit = new Octokit({
-    auth: process.env.GITHUB_TOKEN,
-  });
+  const octokit = createGitHubClient(clientOptions);
 
   logger.info({ owner, repo }, 'Fetching repository context');
 
@@ -153,8 +301,16 @@ export async function fetchRepoContext(
     )[0][0];
   }
 
-  // Check for test indicators in repo
-  const hasTests = await checkForTests(octokit, owner, repo);
+  // Profile the repository layout from the git tree of the default branch
+  const profile = await profileRepository(
+    octokit,
+    owner,
+    repo,
+    repoData.default_branch
+  );
+  const hasTests =
+    !!profile &&
+    (profile.testFileCount > 0 || profile.testFrameworks.length > 0);
 
   const context: RepoContext = {
     name: repoData.name,
@@ -168,66 +324,24 @@ export async function fetchRepoContext(
     size: repoData.size,
     createdAt: repoData.created_at,
     updatedAt: repoData.updated_at,
+    defaultBranch: repoData.default_branch,
     hasTests,
     topics: repoData.topics || [],
     license: repoData.license?.name || null,
+    profile,
   };
 
   logger.info({ context }, 'Repository context fetched successfully');
   return context;
 }
 
-async function checkForTests(
-  octokit: Octokit,
-  owner: string,
-  repo: string
-): Promise<boolean> {
-  try {
-    // Check for common test directories and files
-    const testIndicators = [
-      'test',
-      'tests',
-      '__tests__',
-      'spec',
-      'specs',
-      'test.js',
-      'test.ts',
-      '.spec.js',
-      '.spec.ts',
-      'jest.config.js',
-      'vitest.config.js',
-      'pytest.ini',
-    ];
-
-    // Search for test-related files
-    for (const indicator of testIndicators.slice(0, 5)) {
-      // Check first 5 to avoid rate limits
-      try {
-        await octokit.rest.repos.getContent({
-          owner,
-          repo,
-          path: indicator,
-        });
-        return true; // Found a test directory/file
-      } catch {
-        // Continue checking
-      }
-    }
-
-    return false;
-  } catch {
-    return false;
-  }
-}
-
 export async function fetchIssueComments(
   owner: string,
   repo: string,
-  issueNumber: number
+  issueNumber: number,
+  clientOptions: GitHubClientOptions = {}
 ): Promise<IssueComment[]> {
-  const octokit = new Octokit({
-    auth: process.env.GITHUB_TOKEN,
-  });
+  const octokit = createGitHubClient(clientOptions);
 
   const allComments: IssueComment[] = [];
   let page = 1;
@@ -247,6 +361,8 @@ export async function fetchIssueComments(
       body: comment.body || '',
       createdAt: comment.created_at,
       author: comment.user?.login || 'unknown',
+      authorAssociation: comment.author_association,
+      authorIsBot: comment.user?.type === 'Bot',
     }));
 
     allComments.push(...comments);
@@ -273,15 +389,41 @@ interface GitHubIssue {
   comments: number;
   html_url: string;
   user?: { login: string } | null;
+  assignees?: Array<{ login: string }> | null;
+  milestone?: { number: number; title: string; due_on?: string | null } | null;
+  locked?: boolean;
+  reactions?: Record<string, number | string>;
 }
 
-export async function enrichIssueWithComments(
-  owner: string,
-  repo: string,
-  issue: GitHubIssue
-): Promise<EnrichedIssue> {
-  const comments = await fetchIssueComments(owner, repo, issue.number);
+const REST_REACTION_TYPES = [
+  '+1',
+  '-1',
+  'laugh',
+  'hooray',
+  'confused',
+  'heart',
+  'rocket',
+  'eyes',
+];
+
+function mapRestReactions(
+  reactions: GitHubIssue['reactions']
+): IssueReactions {
+  const byType: Record<string, number> = {};
+  for (const type of REST_REACTION_TYPES) {
+    const count = Number(reactions?.[type] ?? 0);
+    if (count > 0) {
+      byType[type] = count;
+    }
+  }
+  return { total: Number(reactions?.total_count ?? 0), byType };
+}
 
+function mapRestIssue(
+  issue: GitHubIssue,
+  comments: IssueComment[],
+  timeline: IssueTimeline = { linkedPullRequests: [], referencedIssues: [] }
+): EnrichedIssue {
   return {
     number: issue.number,
     title: issue.title,
@@ -296,9 +438,686 @@ export async function enrichIssueWithComments(
     commentCount: issue.comments,
     url: issue.html_url,
     author: issue.user?.login || 'unknown',
+    assignees: (issue.assignees ?? []).map((assignee) => assignee.login),
+    milestone: issue.milestone
+      ? {
+          number: issue.milestone.number,
+          title: issue.milestone.title,
+          dueOn: issue.milestone.due_on ?? null,
+        }
+      : null,
+    reactions: mapRestReactions(issue.reactions),
+    locked: issue.locked ?? false,
+    linkedPullRequests: timeline.linkedPullRequests,
+    referencedIssues: timeline.referencedIssues,
+  };
+}
+
+interface RestTimelineSource {
+  number: number;
+  title: string;
+  html_url: string;
+  state: string;
+  draft?: boolean;
+  pull_request?: { merged_at?: string | null } | null;
+  repository?: { full_name: string } | null;
+}
+
+// Linked pull requests per issue whose diff size is looked up over REST
+const MAX_PULL_SIZE_LOOKUPS = 5;
+
+/**
+ * Fetch the cross-references on an issue's timeline over REST. State, merge
+ * and draft status come with the timeline; it has no diff sizes, so those
+ * are looked up together for the first MAX_PULL_SIZE_LOOKUPS linked pull
+ * requests and left null for the rest.
+ */
+export async function fetchIssueTimeline(
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  clientOptions: GitHubClientOptions = {}
+): Promise<IssueTimeline> {
+  const octokit = createGitHubClient(clientOptions);
+
+  const events = await octokit.paginate(
+    octokit.rest.issues.listEventsForTimeline,
+    { owner, repo, issue_number: issueNumber, per_page: 100 }
+  );
+
+  const linkedPullRequests: LinkedPullRequest[] = [];
+  const referencedIssues: ReferencedIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const event of events) {
+    if (event.event !== 'cross-referenced' || !('source' in event)) {
+      continue;
+    }
+
+    const source = (event.source as { issue?: RestTimelineSource }).issue;
+    if (!source) {
+      continue;
+    }
+
+    const repository = source.repository?.full_name || `${owner}/${repo}`;
+    const key = `${repository}#${source.number}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    if (!source.pull_request) {
+      referencedIssues.push({
+        number: source.number,
+        title: source.title,
+        url: source.html_url,
+        repository,
+        state: source.state,
+      });
+      continue;
+    }
+
+    const linked: LinkedPullRequest = {
+      number: source.number,
+      title: source.title,
+      url: source.html_url,
+      repository,
+      state: source.pull_request.merged_at
+        ? 'merged'
+        : source.state === 'open'
+          ? 'open'
+          : 'closed',
+      isDraft: source.draft ?? false,
+      additions: null,
+      deletions: null,
+      changedFiles: null,
+      relation: 'cross-referenced',
+    };
+    linkedPullRequests.push(linked);
+  }
+
+  await Promise.all(
+    linkedPullRequests.slice(0, MAX_PULL_SIZE_LOOKUPS).map(async (linked) => {
+      try {
+        const [prOwner, prRepo] = linked.repository.split('/');
+        const { data: pull } = await octokit.rest.pulls.get({
+          owner: prOwner,
+          repo: prRepo,
+          pull_number: linked.number,
+        });
+        linked.additions = pull.additions;
+        linked.deletions = pull.deletions;
+        linked.changedFiles = pull.changed_files;
+      } catch (error) {
+        logger.debug(
+          { error, repository: linked.repository, pullNumber: linked.number },
+          'Could not fetch linked pull request size'
+        );
+      }
+    })
+  );
+
+  return { linkedPullRequests, referencedIssues };
+}
+
+export async function enrichIssueWithComments(
+  owner: string,
+  repo: string,
+  issue: GitHubIssue,
+  clientOptions: GitHubClientOptions = {}
+): Promise<EnrichedIssue> {
+  const [comments, timeline] = await Promise.all([
+    fetchIssueComments(owner, repo, issue.number, clientOptions),
+    fetchIssueTimeline(owner, repo, issue.number, clientOptions),
+  ]);
+  return mapRestIssue(issue, comments, timeline);
+}
+
+interface GraphQLComment {
+  databaseId: number | null;
+  body: string;
+  createdAt: string;
+  authorAssociation: string;
+  author: { __typename: string; login: string } | null;
+}
+
+interface GraphQLPageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface GraphQLIssue {
+  number: number;
+  title: string;
+  body: string;
+  state: string;
+  createdAt: string;
+  updatedAt: string;
+  url: string;
+  author: { login: string } | null;
+  labels: { nodes: Array<{ name: string }> } | null;
+  assignees: { nodes: Array<{ login: string }> };
+  milestone: { number: number; title: string; dueOn: string | null } | null;
+  locked: boolean;
+  reactionGroups: Array<{ content: string; reactors: { totalCount: number } }> | null;
+  timelineItems: { nodes: Array<GraphQLTimelineItem | null> };
+  comments: {
+    totalCount: number;
+    nodes: GraphQLComment[];
+    pageInfo: GraphQLPageInfo;
+  };
+}
+
+interface GraphQLReferencedSubject {
+  __typename: 'Issue' | 'PullRequest';
+  number: number;
+  title: string;
+  url: string;
+  state: string;
+  isDraft?: boolean;
+  additions?: number;
+  deletions?: number;
+  changedFiles?: number;
+  repository: { nameWithOwner: string };
+}
+
+interface GraphQLTimelineItem {
+  __typename: 'ConnectedEvent' | 'CrossReferencedEvent';
+  subject?: GraphQLReferencedSubject;
+  source?: GraphQLReferencedSubject;
+}
+
+interface GraphQLIssuesResponse {
+  repository: {
+    issues: {
+      nodes: GraphQLIssue[];
+      pageInfo: GraphQLPageInfo;
+    };
+  } | null;
+}
+
+interface GraphQLIssueCommentsResponse {
+  repository: {
+    issue: {
+      comments: {
+        nodes: GraphQLComment[];
+        pageInfo: GraphQLPageInfo;
+      };
+    } | null;
+  } | null;
+}
+
+const OPEN_ISSUES_QUERY = `
+  query (
+    $owner: String!
+    $repo: String!
+    $cursor: String
+    $filterBy: IssueFilters
+  ) {
+    repository(owner: $owner, name: $repo) {
+      issues(
+        first: 50
+        after: $cursor
+        states: OPEN
+        filterBy: $filterBy
+        orderBy: { field: CREATED_AT, direction: DESC }
+      ) {
+        nodes {
+          number
+          title
+          body
+          state
+          createdAt
+          updatedAt
+          url
+          author {
+            login
+          }
+          labels(first: 50) {
+            nodes {
+              name
+            }
+          }
+          assignees(first: 10) {
+            nodes {
+              login
+            }
+          }
+          milestone {
+            number
+            title
+            dueOn
+          }
+          locked
+          reactionGroups {
+            content
+            reactors {
+              totalCount
+            }
+          }
+          timelineItems(
+            first: 50
+            itemTypes: [CONNECTED_EVENT, CROSS_REFERENCED_EVENT]
+          ) {
+            nodes {
+              __typename
+              ... on ConnectedEvent {
+                subject {
+                  ...ReferencedSubjectFields
+                }
+              }
+              ... on CrossReferencedEvent {
+                source {
+                  ...ReferencedSubjectFields
+                }
+              }
+            }
+          }
+          comments(first: 100) {
+            totalCount
+            nodes {
+              databaseId
+              body
+              createdAt
+              authorAssociation
+              author {
+                __typename
+                login
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }
+  }
+
+  fragment ReferencedSubjectFields on ReferencedSubject {
+    __typename
+    ... on Issue {
+      number
+      title
+      url
+      state
+      repository {
+        nameWithOwner
+      }
+    }
+    ... on PullRequest {
+      number
+      title
+      url
+      state
+      isDraft
+      additions
+      deletions
+      changedFiles
+      repository {
+        nameWithOwner
+      }
+    }
+  }
+`;
+
+const ISSUE_COMMENTS_QUERY = `
+  query ($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      issue(number: $number) {
+        comments(first: 100, after: $cursor) {
+          nodes {
+            databaseId
+            body
+            createdAt
+            authorAssociation
+            author {
+              __typename
+              login
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  }
+`;
+
+// GraphQL ReactionContent values mapped to the REST reaction keys
+const GRAPHQL_REACTION_TYPES: Record<string, string> = {
+  THUMBS_UP: '+1',
+  THUMBS_DOWN: '-1',
+  LAUGH: 'laugh',
+  HOORAY: 'hooray',
+  CONFUSED: 'confused',
+  HEART: 'heart',
+  ROCKET: 'rocket',
+  EYES: 'eyes',
+};
+
+function mapGraphQLReactions(
+  groups: GraphQLIssue['reactionGroups']
+): IssueReactions {
+  const byType: Record<string, number> = {};
+  let total = 0;
+  for (const group of groups ?? []) {
+    if (group.reactors.totalCount > 0) {
+      byType[GRAPHQL_REACTION_TYPES[group.content] ?? group.content.toLowerCase()] =
+        group.reactors.totalCount;
+      total += group.reactors.totalCount;
+    }
+  }
+  return { total, byType };
+}
+
+function mapGraphQLTimeline(
+  items: GraphQLIssue['timelineItems']
+): IssueTimeline {
+  const linkedPullRequests: LinkedPullRequest[] = [];
+  const referencedIssues: ReferencedIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const item of items.nodes) {
+    const subject = item?.subject ?? item?.source;
+    if (!item || !subject || !subject.repository) {
+      continue;
+    }
+
+    const key = `${subject.repository.nameWithOwner}#${subject.number}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    if (subject.__typename === 'PullRequest') {
+      linkedPullRequests.push({
+        number: subject.number,
+        title: subject.title,
+        url: subject.url,
+        repository: subject.repository.nameWithOwner,
+        state: subject.state.toLowerCase() as LinkedPullRequest['state'],
+        isDraft: subject.isDraft ?? false,
+        additions: subject.additions ?? null,
+        deletions: subject.deletions ?? null,
+        changedFiles: subject.changedFiles ?? null,
+        relation:
+          item.__typename === 'ConnectedEvent' ? 'connected' : 'cross-referenced',
+      });
+    } else {
+      referencedIssues.push({
+        number: subject.number,
+        title: subject.title,
+        url: subject.url,
+        repository: subject.repository.nameWithOwner,
+        state: subject.state.toLowerCase(),
+      });
+    }
+  }
+
+  return { linkedPullRequests, referencedIssues };
+}
+
+function mapGraphQLComment(comment: GraphQLComment): IssueComment {
+  return {
+    id: comment.databaseId ?? 0,
+    body: comment.body || '',
+    createdAt: comment.createdAt,
+    author: comment.author?.login || 'unknown',
+    authorAssociation: comment.authorAssociation,
+    authorIsBot: comment.author?.__typename === 'Bot',
   };
 }
 
+async function fetchRemainingCommentsGraphQL(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  cursor: string | null
+): Promise<IssueComment[]> {
+  const comments: IssueComment[] = [];
+
+  while (cursor) {
+    const response: GraphQLIssueCommentsResponse = await octokit.graphql(
+      ISSUE_COMMENTS_QUERY,
+      { owner, repo, number: issueNumber, cursor }
+    );
+
+    const connection = response.repository?.issue?.comments;
+    if (!connection) {
+      break;
+    }
+
+    comments.push(...connection.nodes.map(mapGraphQLComment));
+    cursor = connection.pageInfo.hasNextPage
+      ? connection.pageInfo.endCursor
+      : null;
+  }
+
+  return comments;
+}
+
+/**
+ * Build the GraphQL `filterBy` argument. Its `labels` filter matches ANY of
+ * the given labels, so it is only pushed down for a single label.
+ */
+function buildGraphQLFilterBy(filters: IssueFilters) {
+  const milestone = pushableMilestone(filters);
+  const filterBy = {
+    labels:
+      filters.includeLabels?.length === 1 ? filters.includeLabels : undefined,
+    milestoneNumber: milestone === 'none' ? undefined : milestone,
+    assignee:
+      filters.assignee && filters.assignee !== 'none'
+        ? filters.assignee
+        : undefined,
+    createdBy: filters.author,
+    since: pushableSince(filters),
+  };
+
+  return Object.values(filterBy).some((value) => value !== undefined)
+    ? filterBy
+    : null;
+}
+
+/**
+ * Fetch all open issues together with their labels and comments using the
+ * GraphQL API. Issues are paged 50 at a time; only issues with more than 100
+ * comments need a follow-up query for the rest of their thread. Filters are
+ * applied page by page so paging stops once maxIssues matches are found.
+ */
+export async function fetchEnrichedOpenIssuesGraphQL(
+  owner: string,
+  repo: string,
+  filters: IssueFilters = {},
+  clientOptions: GitHubClientOptions = {}
+): Promise<EnrichedIssue[]> {
+  const octokit = createGitHubClient(clientOptions);
+
+  logger.info(
+    { owner, repo, filters },
+    'Fetching open issues with comments via GraphQL'
+  );
+
+  const filterBy = buildGraphQLFilterBy(filters);
+
+  const enrichedIssues: EnrichedIssue[] = [];
+  let cursor: string | null = null;
+  let page = 1;
+
+  do {
+    logger.debug({ page }, 'Fetching GraphQL issues page');
+
+    const response: GraphQLIssuesResponse = await octokit.graphql(
+      OPEN_ISSUES_QUERY,
+      { owner, repo, cursor, filterBy }
+    );
+
+    if (!response.repository) {
+      throw new Error(`Repository ${owner}/${repo} not found`);
+    }
+
+    const { nodes, pageInfo } = response.repository.issues;
+
+    for (const issue of nodes) {
+      const enrichedIssue: EnrichedIssue = {
+        number: issue.number,
+        title: issue.title,
+        body: issue.body || null,
+        labels: (issue.labels?.nodes ?? []).map((label) => label.name),
+        state: issue.state.toLowerCase(),
+        createdAt: issue.createdAt,
+        updatedAt: issue.updatedAt,
+        comments: issue.comments.nodes.map(mapGraphQLComment),
+        commentCount: issue.comments.totalCount,
+        url: issue.url,
+        author: issue.author?.login || 'unknown',
+        assignees: issue.assignees.nodes.map((assignee) => assignee.login),
+        milestone: issue.milestone,
+        reactions: mapGraphQLReactions(issue.reactionGroups),
+        locked: issue.locked,
+        ...mapGraphQLTimeline(issue.timelineItems),
+      };
+
+      if (!matchesIssueFilters(enrichedIssue, filters)) {
+        continue;
+      }
+
+      if (issue.comments.pageInfo.hasNextPage) {
+        enrichedIssue.comments.push(
+          ...(await fetchRemainingCommentsGraphQL(
+            octokit,
+            owner,
+            repo,
+            issue.number,
+            issue.comments.pageInfo.endCursor
+          ))
+        );
+      }
+
+      enrichedIssues.push(enrichedIssue);
+
+      if (filters.maxIssues && enrichedIssues.length >= filters.maxIssues) {
+        break;
+      }
+    }
+
+    logger.debug({ page, issuesFound: nodes.length }, 'GraphQL issues page fetched');
+
+    const reachedMax =
+      !!filters.maxIssues && enrichedIssues.length >= filters.maxIssues;
+    cursor = pageInfo.hasNextPage && !reachedMax ? pageInfo.endCursor : null;
+    page++;
+  } while (cursor);
+
+  logger.info(
+    { totalIssues: enrichedIssues.length },
+    'Total open issues fetched via GraphQL'
+  );
+
+  return enrichedIssues;
+}
+
+/**
+ * Open issues passing the filters, from the listForRepo pages alone: no
+ * comments or timeline yet. Enough to pick a batch and compare issues.
+ */
+export async function listOpenIssues(
+  owner: string,
+  repo: string,
+  filters: IssueFilters = {},
+  clientOptions: GitHubClientOptions = {}
+): Promise<EnrichedIssue[]> {
+  const issues = await fetchAllOpenIssues(owner, repo, filters, clientOptions);
+  return applyIssueFilters(
+    issues.map((issue) => mapRestIssue(issue, [])),
+    filters
+  );
+}
+
+/**
+ * Add the comments and timeline to listed issues: listComments and timeline
+ * calls per issue, run a few issues at a time
+ */
+export async function enrichListedIssues(
+  owner: string,
+  repo: string,
+  issues: EnrichedIssue[],
+  clientOptions: GitHubClientOptions = {}
+): Promise<EnrichedIssue[]> {
+  const enrichedIssues: EnrichedIssue[] = [];
+  const concurrency = 5;
+
+  for (let i = 0; i < issues.length; i += concurrency) {
+    const chunk = issues.slice(i, i + concurrency);
+    enrichedIssues.push(
+      ...(await Promise.all(
+        chunk.map(async (issue) => {
+          const [comments, timeline] = await Promise.all([
+            fetchIssueComments(owner, repo, issue.number, clientOptions),
+            fetchIssueTimeline(owner, repo, issue.number, clientOptions),
+          ]);
+          return { ...issue, comments, ...timeline };
+        })
+      ))
+    );
+  }
+
+  return enrichedIssues;
+}
+
+/**
+ * Fetch all open issues and their comments over REST. Filters are applied
+ * before comments are fetched so excluded issues cost nothing.
+ */
+export async function fetchEnrichedOpenIssuesREST(
+  owner: string,
+  repo: string,
+  filters: IssueFilters = {},
+  clientOptions: GitHubClientOptions = {}
+): Promise<EnrichedIssue[]> {
+  const selected = await listOpenIssues(owner, repo, filters, clientOptions);
+  return enrichListedIssues(owner, repo, selected, clientOptions);
+}
+
+/**
+ * Fetch all open issues with their comments. Uses GraphQL by default and falls
+ * back to the REST path when GraphQL is disabled or the query fails (for
+ * example when no token is configured, since GraphQL requires authentication).
+ */
+export async function fetchEnrichedOpenIssues(
+  owner: string,
+  repo: string,
+  filters: IssueFilters = {},
+  clientOptions: GitHubClientOptions = {}
+): Promise<EnrichedIssue[]> {
+  if (config.github.fetchStrategy === 'graphql') {
+    try {
+      return await fetchEnrichedOpenIssuesGraphQL(
+        owner,
+        repo,
+        filters,
+        clientOptions
+      );
+    } catch (error) {
+      logger.warn(
+        { error, owner, repo },
+        'GraphQL issue fetch failed, falling back to REST'
+      );
+    }
+  }
+
+  return fetchEnrichedOpenIssuesREST(owner, repo, filters, clientOptions);
+}
+
 export interface LLMEstimationInput {
   repoContext: RepoContext;
   issue: EnrichedIssue;
@@ -338,31 +1157,145 @@ Has Test Suite: ${context.hasTests ? 'Yes' : 'No'}
 Topics: ${context.topics.length > 0 ? context.topics.join(', ') : 'None'}
 License: ${context.license || 'None'}
 Created: ${new Date(context.createdAt).toLocaleDateString()}
-Last Updated: ${new Date(context.updatedAt).toLocaleDateString()}`;
+Last Updated: ${new Date(context.updatedAt).toLocaleDateString()}${
+    context.profile ? `\n${formatRepoProfileSummary(context.profile)}` : ''
+  }`;
+}
+
+function formatList(items: string[]): string {
+  return items.length > 0 ? items.join(', ') : 'None detected';
+}
+
+export function formatRepoProfileSummary(profile: RepoProfile): string {
+  const filesByLanguage = Object.entries(profile.fileCountsByLanguage)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 6)
+    .map(([lang, count]) => `${lang} ${count}`)
+    .join(', ');
+
+  const workspaces =
+    profile.workspaces.length > 0
+      ? ` (${profile.workspaces.length} packages: ${profile.workspaces.slice(0, 8).join(', ')}${
+          profile.workspaces.length > 8 ? ', ...' : ''
+        })`
+      : '';
+
+  return `Files: ${profile.totalFiles}${profile.truncated ? '+ (partial listing)' : ''}${
+    filesByLanguage ? ` (${filesByLanguage})` : ''
+  }
+Test Frameworks: ${formatList(profile.testFrameworks)} (${profile.testFileCount} test files)
+CI: ${formatList(profile.ciSystems)}
+Package Managers: ${formatList(profile.packageManagers)}
+Build Tools: ${formatList(profile.buildTools)}
+Monorepo: ${profile.isMonorepo ? 'Yes' : 'No'}${workspaces}
+Contributing Guide: ${profile.hasContributing ? 'Yes' : 'No'}
+CODEOWNERS: ${profile.hasCodeowners ? 'Yes' : 'No'}
+Documentation: ${profile.hasDocs ? 'Yes' : 'No'}`;
+}
+
+export function formatReactions(reactions: IssueReactions): string {
+  if (reactions.total === 0) {
+    return 'None';
+  }
+  const breakdown = Object.entries(reactions.byType)
+    .sort(([, a], [, b]) => b - a)
+    .map(([type, count]) => `${type} ${count}`)
+    .join(', ');
+  return `${reactions.total} (${breakdown})`;
+}
+
+export function formatLinkedPullRequest(pr: LinkedPullRequest): string {
+  const status = [pr.state, pr.isDraft ? 'draft' : null]
+    .filter(Boolean)
+    .join(', ');
+  const size =
+    pr.additions !== null && pr.deletions !== null
+      ? `, +${pr.additions}/-${pr.deletions} in ${pr.changedFiles ?? '?'} files`
+      : '';
+  return `${pr.repository}#${pr.number} (${status}${size})`;
+}
+
+export function formatReferencedIssue(issue: ReferencedIssue): string {
+  return `${issue.repository}#${issue.number} (${issue.state})`;
+}
+
+function formatIssueTimelineSummary(issue: EnrichedIssue): string {
+  const milestone = issue.milestone
+    ? `${issue.milestone.title}${
+        issue.milestone.dueOn
+          ? ` (due ${new Date(issue.milestone.dueOn).toLocaleDateString()})`
+          : ''
+      }`
+    : 'None';
+
+  const pullRequests =
+    issue.linkedPullRequests.length > 0
+      ? `\n${issue.linkedPullRequests
+          .map(
+            (pr) =>
+              `- ${formatLinkedPullRequest(pr)} [${pr.relation}]: ${pr.title}`
+          )
+          .join('\n')}`
+      : ' None';
+
+  const referencedIssues =
+    issue.referencedIssues.length > 0
+      ? `\n${issue.referencedIssues
+          .map((ref) => `- ${formatReferencedIssue(ref)}: ${ref.title}`)
+          .join('\n')}`
+      : ' None';
+
+  return `Assignees: ${issue.assignees.length > 0 ? issue.assignees.join(', ') : 'None'}
+Milestone: ${milestone}
+Reactions: ${formatReactions(issue.reactions)}
+Locked: ${issue.locked ? 'Yes' : 'No'}
+Linked Pull Requests:${pullRequests}
+Referenced Issues:${referencedIssues}`;
+}
+
+// Left on issues by issuePublisher. They are kept out of the prompt so a
+// previous estimate doesn't anchor the next one.
+export const ESTIMATE_COMMENT_MARKER = '<!-- ns-issue-est:estimate -->';
+export const ESTIMATE_LABEL_PREFIXES = ['cost:', 'complexity:'];
+
+export function isEstimateLabel(label: string): boolean {
+  return ESTIMATE_LABEL_PREFIXES.some((prefix) => label.startsWith(prefix));
 }
 
 export function formatIssueSummary(issue: EnrichedIssue): string {
-  return `Issue #${issue.number}: ${issue.title}
+  const labels = issue.labels.filter((label) => !isEstimateLabel(label));
+  const comments = issue.comments.filter(
+    (comment) => !comment.body.includes(ESTIMATE_COMMENT_MARKER)
+  );
+
+  return `Issue ${issue.key ?? `#${issue.number}`}: ${issue.title}
 URL: ${issue.url}
 Author: ${issue.author}
 Created: ${new Date(issue.createdAt).toLocaleDateString()}
-Labels: ${issue.labels.length > 0 ? issue.labels.join(', ') : 'None'}
+Labels: ${labels.length > 0 ? labels.join(', ') : 'None'}
 Comments: ${issue.commentCount}
+${formatIssueTimelineSummary(issue)}
 
 Description:
 ${issue.body || 'No description provided'}
 
 ${
-  issue.comments.length > 0
+  comments.length > 0
     ? `
-All Comments (${issue.comments.length}):
-${issue.comments
+All Comments (${comments.length}):
+${comments
   .map(
     (c) =>
-      `- ${c.author} (${new Date(c.createdAt).toLocaleDateString()}): ${c.body}`
+      `- ${c.author}${isMaintainerComment(c) ? ' [maintainer]' : ''} (${new Date(c.createdAt).toLocaleDateString()}): ${c.body}`
   )
   .join('\n')}`
     : 'No comments'
+}${
+  issue.commentOmissions && hasOmissions(issue.commentOmissions)
+    ? `
+
+Omitted from this prompt: ${formatCommentOmissions(issue.commentOmissions)}`
+    : ''
 }`;
 }
 
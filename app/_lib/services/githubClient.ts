@@ -0,0 +1,477 @@
+import { Octokit, RequestError } from 'octokit';
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+
+export const DEFAULT_GITHUB_HOST = 'github.com';
+
+export interface GitHubClientOptions {
+  host?: string; // web host of the repository (default: github.com)
+  // Signed-in user's token for this host. Falls back to the host's configured
+  // token, then to anonymous access (public repositories only).
+  token?: string;
+  // Skip cache lookups for every request from this client; responses are
+  // still stored. For callers reacting to a change that just happened.
+  fresh?: boolean;
+  // Called before sleeping on a GitHub rate limit, e.g. to report progress
+  onRateLimitWait?: (seconds: number) => void;
+}
+
+export interface GitHubHostConfig {
+  host: string;
+  apiUrl: string;
+  token?: string;
+}
+
+let hostConfigs: GitHubHostConfig[] | undefined;
+
+/**
+ * All hosts repositories may be fetched from: github.com plus any GitHub
+ * Enterprise Server instances configured in GITHUB_ENTERPRISE_HOSTS.
+ */
+export function getGitHubHosts(): GitHubHostConfig[] {
+  if (hostConfigs) {
+    return hostConfigs;
+  }
+
+  const hosts: GitHubHostConfig[] = [
+    {
+      host: DEFAULT_GITHUB_HOST,
+      apiUrl: 'https://api.github.com',
+      token: config.github.token || undefined,
+    },
+  ];
+
+  if (config.github.enterpriseHosts) {
+    try {
+      const parsed = JSON.parse(config.github.enterpriseHosts) as Array<
+        Partial<GitHubHostConfig>
+      >;
+      for (const entry of parsed) {
+        if (!entry.host) {
+          logger.warn({ entry }, 'Skipping GitHub Enterprise host without a host name');
+          continue;
+        }
+        const host = entry.host.toLowerCase();
+        hosts.push({
+          host,
+          apiUrl: (entry.apiUrl || `https://${host}/api/v3`).replace(/\/+$/, ''),
+          token: entry.token || undefined,
+        });
+      }
+    } catch (error) {
+      logger.error({ error }, 'Invalid GITHUB_ENTERPRISE_HOSTS, ignoring it');
+    }
+  }
+
+  hostConfigs = hosts;
+  return hosts;
+}
+
+export function findGitHubHost(host: string): GitHubHostConfig | undefined {
+  const normalized = host.toLowerCase().replace(/^www\./, '');
+  return getGitHubHosts().find((entry) => entry.host === normalized);
+}
+
+export interface CachedResponse {
+  url: string;
+  status: number;
+  headers: Record<string, string | number | undefined>;
+  data: unknown;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number; // epoch ms when the response was last fetched or revalidated
+}
+
+/**
+ * Storage backend for cached GitHub responses. Implement this to plug in a
+ * shared store (e.g. SQLite or Redis) via setGitHubCacheStore().
+ */
+export interface GitHubCacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, value: CachedResponse): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export function createMemoryCacheStore(maxEntries = 1000): GitHubCacheStore {
+  const entries = new Map<string, CachedResponse>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        // Re-insert so the least recently used entry is evicted first
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    async set(key, value) {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey !== undefined) {
+          entries.delete(oldestKey);
+        }
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
+
+export function createFileCacheStore(dir: string): GitHubCacheStore {
+  mkdirSync(dir, { recursive: true });
+  const pathFor = (key: string) => join(dir, `${key}.json`);
+
+  return {
+    async get(key) {
+      const path = pathFor(key);
+      if (!existsSync(path)) {
+        return undefined;
+      }
+      try {
+        return JSON.parse(readFileSync(path, 'utf-8')) as CachedResponse;
+      } catch {
+        // Corrupt or partially written entry, treat as a miss
+        return undefined;
+      }
+    },
+    async set(key, value) {
+      writeFileSync(pathFor(key), JSON.stringify(value));
+    },
+    async delete(key) {
+      rmSync(pathFor(key), { force: true });
+    },
+  };
+}
+
+function createConfiguredStore(): GitHubCacheStore | null {
+  switch (config.github.cache.store) {
+    case 'none':
+      return null;
+    case 'file':
+      return createFileCacheStore(config.github.cache.dir);
+    default:
+      return createMemoryCacheStore();
+  }
+}
+
+let cacheStore: GitHubCacheStore | null | undefined;
+
+function getCacheStore(): GitHubCacheStore | null {
+  if (cacheStore === undefined) {
+    cacheStore = createConfiguredStore();
+  }
+  return cacheStore;
+}
+
+/**
+ * Replace the cache backend for all GitHub clients. Pass null to disable
+ * caching entirely.
+ */
+export function setGitHubCacheStore(store: GitHubCacheStore | null): void {
+  cacheStore = store;
+}
+
+function hashKey(...parts: Array<string | undefined>): string {
+  return createHash('sha256')
+    .update(parts.map((part) => part ?? '').join('\n'))
+    .digest('hex');
+}
+
+function toCachedOctokitResponse(cached: CachedResponse) {
+  return {
+    url: cached.url,
+    status: cached.status,
+    headers: cached.headers,
+    data: cached.data,
+  };
+}
+
+interface Semaphore {
+  acquire(): Promise<void>;
+  release(): void;
+}
+
+function createSemaphore(max: number): Semaphore {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  return {
+    async acquire() {
+      if (active < max) {
+        active++;
+        return;
+      }
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    },
+    release() {
+      // Hand the slot straight to the next waiter, if any
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    },
+  };
+}
+
+const hostSemaphores = new Map<string, Semaphore>();
+
+function getHostSemaphore(host: string): Semaphore {
+  let semaphore = hostSemaphores.get(host);
+  if (!semaphore) {
+    semaphore = createSemaphore(
+      Math.max(config.github.rateLimit.maxConcurrent, 1)
+    );
+    hostSemaphores.set(host, semaphore);
+  }
+  return semaphore;
+}
+
+const TRANSIENT_STATUSES = [500, 502, 503, 504];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type ResponseHeaders = Record<string, string | number | undefined>;
+
+// Seconds until the primary rate limit resets, from X-RateLimit-Reset
+function secondsUntilReset(headers: ResponseHeaders): number | null {
+  const reset = Number(headers['x-ratelimit-reset']);
+  if (!reset) {
+    return null;
+  }
+  return Math.max(Math.ceil(reset - Date.now() / 1000), 0) + 1;
+}
+
+/**
+ * How long GitHub asks us to wait before retrying, or null when the error is
+ * not a rate limit. Retry-After wins, then X-RateLimit-Reset once the quota
+ * is used up; secondary limits without either get GitHub's advised minute.
+ */
+function getRateLimitWait(error: RequestError): number | null {
+  if (error.status !== 403 && error.status !== 429) {
+    return null;
+  }
+
+  const headers = (error.response?.headers ?? {}) as ResponseHeaders;
+  const retryAfter = Number(headers['retry-after']);
+  if (retryAfter > 0) {
+    return retryAfter;
+  }
+  if (String(headers['x-ratelimit-remaining']) === '0') {
+    return secondsUntilReset(headers);
+  }
+  if (/secondary rate limit/i.test(error.message)) {
+    return 60;
+  }
+  return null;
+}
+
+// GraphQL reports an exhausted quota as a 200 with a RATE_LIMITED error
+function isGraphQLRateLimited(data: unknown): boolean {
+  const errors = (data as { errors?: Array<{ type?: string }> } | null)
+    ?.errors;
+  return Boolean(errors?.some((error) => error.type === 'RATE_LIMITED'));
+}
+
+/**
+ * Run a request under the shared policy: at most maxConcurrent requests in
+ * flight per host, rate limits waited out, and transient 5xx errors retried
+ * with exponential backoff and jitter. Writes are only retried on rate
+ * limits, which GitHub rejects before doing anything.
+ */
+async function requestWithPolicy<
+  T extends { headers: ResponseHeaders; data: unknown },
+>(
+  host: string,
+  idempotent: boolean,
+  send: () => Promise<T>,
+  onRateLimitWait?: (seconds: number) => void
+): Promise<T> {
+  const { maxRetries, maxWaitSeconds } = config.github.rateLimit;
+  const semaphore = getHostSemaphore(host);
+
+  for (let attempt = 0; ; attempt++) {
+    let waitSeconds: number | null = null;
+    let lastError: unknown;
+
+    await semaphore.acquire();
+    try {
+      const response = await send();
+      if (!isGraphQLRateLimited(response.data)) {
+        return response;
+      }
+      waitSeconds = secondsUntilReset(response.headers) ?? 60;
+      lastError = new Error('GitHub GraphQL rate limit exceeded');
+    } catch (error) {
+      if (!(error instanceof RequestError)) {
+        throw error;
+      }
+      lastError = error;
+      waitSeconds = getRateLimitWait(error);
+      if (
+        waitSeconds === null &&
+        !(idempotent && TRANSIENT_STATUSES.includes(error.status))
+      ) {
+        throw error;
+      }
+    } finally {
+      semaphore.release();
+    }
+
+    if (attempt >= maxRetries) {
+      throw lastError;
+    }
+
+    if (waitSeconds !== null) {
+      if (waitSeconds > maxWaitSeconds) {
+        logger.error(
+          { host, waitSeconds, maxWaitSeconds },
+          'GitHub rate limit wait too long, giving up'
+        );
+        throw lastError;
+      }
+      logger.warn(
+        { host, waitSeconds, attempt },
+        'Waiting for GitHub rate limit'
+      );
+      onRateLimitWait?.(waitSeconds);
+      // Jitter keeps parallel requests from retrying in lockstep
+      await sleep(waitSeconds * 1000 + Math.random() * 1000);
+    } else {
+      const backoffMs = Math.min(2 ** attempt * 1000, 30_000);
+      logger.warn(
+        { host, status: (lastError as RequestError).status, attempt },
+        'Transient GitHub error, retrying'
+      );
+      await sleep(backoffMs / 2 + Math.random() * (backoffMs / 2));
+    }
+  }
+}
+
+/**
+ * Create an Octokit client for the given host whose requests go through the
+ * response cache. Every GitHub client in the app must come from here so the
+ * host-to-API-URL mapping and per-host tokens are respected.
+ *
+ * GET requests are served straight from the cache while younger than the
+ * configured TTL. Older entries are revalidated with If-None-Match /
+ * If-Modified-Since, and a 304 (which does not count against the rate limit)
+ * refreshes the entry. GraphQL queries have no validators, so they are only
+ * reused within the TTL. Everything else bypasses the cache. Pass
+ * `request: { skipCache: true }` to skip the lookup but still store the
+ * fresh response, or set `fresh` on the client options to do that for every
+ * request.
+ *
+ * Requests that miss the cache go through requestWithPolicy, which replaces
+ * Octokit's built-in throttling and retry plugins.
+ */
+export function createGitHubClient(
+  clientOptions: GitHubClientOptions = {}
+): Octokit {
+  const hostName = clientOptions.host || DEFAULT_GITHUB_HOST;
+  const hostConfig = findGitHubHost(hostName);
+  if (!hostConfig) {
+    throw new Error(`GitHub host ${hostName} is not configured`);
+  }
+
+  const token = clientOptions.token || hostConfig.token;
+  const octokit = new Octokit({
+    auth: token,
+    baseUrl: hostConfig.apiUrl,
+    throttle: { enabled: false },
+    retry: { enabled: false },
+  });
+  const ttlMs = config.github.cache.ttlSeconds * 1000;
+
+  // Registered first so it sits inside the cache: cache hits skip it
+  octokit.hook.wrap('request', (request, options) => {
+    const endpoint = octokit.request.endpoint(options);
+    // GraphQL queries are reads even though they are POSTs
+    const query = String((endpoint.body as { query?: string })?.query);
+    const idempotent =
+      endpoint.method === 'GET' ||
+      (/\/graphql$/.test(endpoint.url) && !/^\s*mutation\b/.test(query));
+
+    return requestWithPolicy(
+      hostConfig.host,
+      idempotent,
+      async () => request(options),
+      clientOptions.onRateLimitWait
+    );
+  });
+
+  octokit.hook.wrap('request', async (request, options) => {
+    const store = getCacheStore();
+    const endpoint = octokit.request.endpoint(options);
+    // Mutations must always reach GitHub, only read queries are cacheable
+    const isGraphQL =
+      endpoint.method === 'POST' &&
+      /\/graphql$/.test(endpoint.url) &&
+      !/^\s*mutation\b/.test(String((endpoint.body as { query?: string })?.query));
+
+    if (!store || (endpoint.method !== 'GET' && !isGraphQL)) {
+      return request(options);
+    }
+
+    // Responses depend on who is asking, so the token is part of the key
+    const key = hashKey(
+      endpoint.method,
+      endpoint.url,
+      isGraphQL ? JSON.stringify(endpoint.body) : undefined,
+      token ? hashKey(token) : undefined
+    );
+    // Callers that just wrote to GitHub can force a fresh read
+    const cached =
+      clientOptions.fresh || options.request?.skipCache === true
+        ? undefined
+        : await store.get(key);
+
+    if (cached && Date.now() - cached.storedAt < ttlMs) {
+      logger.trace({ url: endpoint.url }, 'GitHub cache hit');
+      return toCachedOctokitResponse(cached);
+    }
+
+    if (cached && !isGraphQL) {
+      options.headers = { ...options.headers };
+      if (cached.etag) {
+        options.headers['if-none-match'] = cached.etag;
+      }
+      if (cached.lastModified) {
+        options.headers['if-modified-since'] = cached.lastModified;
+      }
+    }
+
+    try {
+      const response = await request(options);
+
+      await store.set(key, {
+        url: response.url,
+        status: response.status,
+        headers: response.headers,
+        data: response.data,
+        etag: response.headers.etag,
+        lastModified: response.headers['last-modified'],
+        storedAt: Date.now(),
+      });
+
+      return response;
+    } catch (error) {
+      if (cached && error instanceof RequestError && error.status === 304) {
+        logger.trace({ url: endpoint.url }, 'GitHub cache revalidated (304)');
+        await store.set(key, { ...cached, storedAt: Date.now() });
+        return toCachedOctokitResponse(cached);
+      }
+      throw error;
+    }
+  });
+
+  return octokit;
+}
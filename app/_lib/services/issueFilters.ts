@@ -0,0 +1,243 @@
+import { EnrichedIssue } from './github';
+
+export type IssueDateField = 'created' | 'updated';
+
+export interface IssueFilters {
+  includeLabels?: string[]; // issue must carry every one of these labels
+  excludeLabels?: string[]; // issue must carry none of these labels
+  milestone?: string; // title, '#12' for a number, '*' for any, 'none' for no milestone
+  assignee?: string; // login, '*' for any assignee, 'none' for unassigned
+  author?: string;
+  dateField?: IssueDateField; // which timestamp since/until apply to (default: created)
+  since?: string; // ISO 8601 date, inclusive
+  until?: string; // ISO 8601 date, inclusive
+  maxIssues?: number;
+  issueNumbers?: number[]; // only estimate these issues
+  excludeIssueNumbers?: number[];
+}
+
+function parseStringList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  const list = items.map((item) => String(item).trim()).filter(Boolean);
+  return list.length > 0 ? list : undefined;
+}
+
+function parseNumberList(value: unknown): number[] | undefined {
+  const list = parseStringList(value);
+  if (!list) {
+    return undefined;
+  }
+  return list.map((item) => {
+    const number = parseInt(item.replace(/^#/, ''), 10);
+    if (isNaN(number) || number <= 0) {
+      throw new Error(`Invalid issue number: ${item}`);
+    }
+    return number;
+  });
+}
+
+function parseDate(
+  value: unknown,
+  name: string,
+  endOfDay = false
+): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  // A bare YYYY-MM-DD `until` should include the whole day
+  const text = String(value).trim();
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(text);
+  const date = new Date(
+    isDateOnly && endOfDay ? `${text}T23:59:59.999Z` : text
+  );
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date: ${value}`);
+  }
+  return date.toISOString();
+}
+
+function parseOptionalString(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const trimmed = String(value).trim();
+  return trimmed || undefined;
+}
+
+/**
+ * Validate a filter spec from a request body. Accepts comma-separated strings
+ * or arrays for the list fields so the UI can pass raw input values.
+ */
+export function parseIssueFilters(
+  input: unknown
+): { filters: IssueFilters } | { error: string } {
+  if (input === undefined || input === null) {
+    return { filters: {} };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'filters must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  try {
+    const dateField = parseOptionalString(raw.dateField);
+    if (dateField && dateField !== 'created' && dateField !== 'updated') {
+      throw new Error(`Invalid dateField: ${dateField}`);
+    }
+
+    let maxIssues: number | undefined;
+    if (raw.maxIssues !== undefined && raw.maxIssues !== null && raw.maxIssues !== '') {
+      maxIssues = Number(raw.maxIssues);
+      if (!Number.isInteger(maxIssues) || maxIssues <= 0) {
+        throw new Error(`Invalid maxIssues: ${raw.maxIssues}`);
+      }
+    }
+
+    const filters: IssueFilters = {
+      includeLabels: parseStringList(raw.includeLabels),
+      excludeLabels: parseStringList(raw.excludeLabels),
+      milestone: parseOptionalString(raw.milestone),
+      assignee: parseOptionalString(raw.assignee),
+      author: parseOptionalString(raw.author),
+      dateField: dateField as IssueDateField | undefined,
+      since: parseDate(raw.since, 'since'),
+      until: parseDate(raw.until, 'until', true),
+      maxIssues,
+      issueNumbers: parseNumberList(raw.issueNumbers),
+      excludeIssueNumbers: parseNumberList(raw.excludeIssueNumbers),
+    };
+
+    if (filters.since && filters.until && filters.since > filters.until) {
+      throw new Error('since must be before until');
+    }
+
+    // Drop unset keys so the spec logs cleanly
+    Object.keys(filters).forEach((key) => {
+      if (filters[key as keyof IssueFilters] === undefined) {
+        delete filters[key as keyof IssueFilters];
+      }
+    });
+
+    return { filters };
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : 'Invalid filters',
+    };
+  }
+}
+
+function equalsIgnoreCase(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * The milestone number of a '#12' filter. A bare '12' could just as well be
+ * a milestone titled "12", so it matches either and is never a number alone.
+ */
+export function getMilestoneNumber(milestone: string): number | undefined {
+  const match = milestone.match(/^#(\d+)$/);
+  return match ? parseInt(match[1], 10) : undefined;
+}
+
+/**
+ * Check a single issue against every filter except maxIssues. Safe to run on
+ * issues that were already narrowed down by the GitHub query.
+ */
+export function matchesIssueFilters(
+  issue: EnrichedIssue,
+  filters: IssueFilters
+): boolean {
+  if (filters.issueNumbers && !filters.issueNumbers.includes(issue.number)) {
+    return false;
+  }
+
+  if (filters.excludeIssueNumbers?.includes(issue.number)) {
+    return false;
+  }
+
+  if (
+    filters.includeLabels &&
+    !filters.includeLabels.every((wanted) =>
+      issue.labels.some((label) => equalsIgnoreCase(label, wanted))
+    )
+  ) {
+    return false;
+  }
+
+  if (
+    filters.excludeLabels &&
+    filters.excludeLabels.some((unwanted) =>
+      issue.labels.some((label) => equalsIgnoreCase(label, unwanted))
+    )
+  ) {
+    return false;
+  }
+
+  if (filters.milestone) {
+    if (filters.milestone === 'none') {
+      if (issue.milestone) return false;
+    } else if (filters.milestone === '*') {
+      if (!issue.milestone) return false;
+    } else {
+      const number = getMilestoneNumber(filters.milestone);
+      if (
+        !issue.milestone ||
+        (number !== undefined
+          ? issue.milestone.number !== number
+          : String(issue.milestone.number) !== filters.milestone &&
+            !equalsIgnoreCase(issue.milestone.title, filters.milestone))
+      ) {
+        return false;
+      }
+    }
+  }
+
+  if (filters.assignee) {
+    if (filters.assignee === 'none') {
+      if (issue.assignees.length > 0) return false;
+    } else if (filters.assignee === '*') {
+      if (issue.assignees.length === 0) return false;
+    } else if (
+      !issue.assignees.some((login) => equalsIgnoreCase(login, filters.assignee!))
+    ) {
+      return false;
+    }
+  }
+
+  if (filters.author && !equalsIgnoreCase(issue.author, filters.author)) {
+    return false;
+  }
+
+  const timestamp =
+    filters.dateField === 'updated' ? issue.updatedAt : issue.createdAt;
+  const time = new Date(timestamp).getTime();
+
+  if (filters.since && time < new Date(filters.since).getTime()) {
+    return false;
+  }
+
+  if (filters.until && time > new Date(filters.until).getTime()) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Apply the filter spec locally, including the maxIssues cap
+ */
+export function applyIssueFilters(
+  issues: EnrichedIssue[],
+  filters: IssueFilters
+): EnrichedIssue[] {
+  const matching = issues.filter((issue) => matchesIssueFilters(issue, filters));
+  return filters.maxIssues ? matching.slice(0, filters.maxIssues) : matching;
+}
+
+export function hasIssueFilters(filters: IssueFilters): boolean {
+  return Object.keys(filters).length > 0;
+}
@@ -0,0 +1,657 @@
+import { createHash } from 'crypto';
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import { EnrichedIssue, IssueComment, RepoContext } from './github';
+
+export type ImportFormat = 'json' | 'csv';
+
+// Where each issue field is read from: a CSV column header or a JSON key.
+// Keys match case-insensitively and dot paths reach nested JSON values, e.g.
+// fields.summary for a Jira export.
+export interface ImportMapping {
+  number?: string; // numeric id, or a key like PROJ-123 kept as the row's key
+  title: string;
+  body?: string;
+  labels?: string;
+  state?: string;
+  createdAt?: string;
+  updatedAt?: string;
+  url?: string;
+  author?: string;
+  assignees?: string;
+  milestone?: string;
+  comments?: string;
+  issuesPath?: string; // JSON only: the array of issues, e.g. data.issues
+}
+
+export interface SavedImportMapping {
+  source: string;
+  mapping: ImportMapping;
+  updatedAt: string;
+}
+
+export interface ImportedIssues {
+  issues: EnrichedIssue[];
+  repoContext: RepoContext;
+}
+
+export const DEFAULT_IMPORT_MAPPING: ImportMapping = {
+  number: 'number',
+  title: 'title',
+  body: 'body',
+  labels: 'labels',
+  state: 'state',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  url: 'url',
+  author: 'author',
+  assignees: 'assignees',
+  milestone: 'milestone',
+  comments: 'comments',
+};
+
+const MAPPING_KEYS = [
+  ...Object.keys(DEFAULT_IMPORT_MAPPING),
+  'issuesPath',
+] as (keyof ImportMapping)[];
+
+// Shown in full in the error response; the rest are only counted
+const MAX_REPORTED_PROBLEMS = 10;
+
+type ImportRecord = Record<string, unknown>;
+
+/**
+ * Validate a source name. It names the estimated "repository" and the file
+ * its column mapping is saved under.
+ */
+export function parseImportSource(
+  input: unknown
+): { source: string } | { error: string } {
+  const source = typeof input === 'string' ? input.trim() : '';
+  if (!source) {
+    return { error: 'Import source name is required' };
+  }
+  // It also ends up in output file names, so nothing that reads as a path
+  if (source.length > 100 || !/^\w[\w .-]*$/.test(source)) {
+    return {
+      error:
+        'Import source name must start with a letter or digit and may only use letters, digits, spaces, dots, dashes and underscores (100 characters at most)',
+    };
+  }
+  return { source };
+}
+
+/**
+ * Validate a partial column mapping from a request body. Missing fields keep
+ * their default column names.
+ */
+export function parseImportMapping(
+  input: unknown
+): { mapping: Partial<ImportMapping> } | { error: string } {
+  if (input === undefined || input === null) {
+    return { mapping: {} };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'mapping must be an object of field: column' };
+  }
+
+  const mapping: Partial<ImportMapping> = {};
+  for (const [key, value] of Object.entries(input)) {
+    if (!MAPPING_KEYS.includes(key as keyof ImportMapping)) {
+      return { error: `Unknown mapping field: ${key}` };
+    }
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+    if (typeof value !== 'string') {
+      return { error: `Mapping for ${key} must be a column name` };
+    }
+    mapping[key as keyof ImportMapping] = value.trim();
+  }
+  return { mapping };
+}
+
+export function detectImportFormat(
+  content: string,
+  fileName?: string
+): ImportFormat {
+  if (fileName?.toLowerCase().endsWith('.csv')) {
+    return 'csv';
+  }
+  if (fileName?.toLowerCase().endsWith('.json')) {
+    return 'json';
+  }
+  return /^\s*[[{]/.test(content) ? 'json' : 'csv';
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields may hold
+ * commas, doubled quotes and line breaks)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const content = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Blank lines carry no record
+  return rows.filter((fields) => fields.some((value) => value.trim()));
+}
+
+// Columns repeated under one header, like Jira's Comment columns, become lists
+function csvToRecords(text: string): ImportRecord[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return [];
+  }
+
+  return rows.map((fields) => {
+    const record: ImportRecord = {};
+    header.forEach((name, index) => {
+      const key = name.trim();
+      const value = fields[index] ?? '';
+      const existing = record[key];
+      if (existing === undefined) {
+        record[key] = value;
+      } else {
+        record[key] = [
+          ...(Array.isArray(existing) ? existing : [existing]),
+          value,
+        ];
+      }
+    });
+    return record;
+  });
+}
+
+function getValue(record: unknown, path: string): unknown {
+  let current = record;
+  for (const part of path.split('.')) {
+    if (!current || typeof current !== 'object' || Array.isArray(current)) {
+      return undefined;
+    }
+    const entries = current as ImportRecord;
+    const key = Object.hasOwn(entries, part)
+      ? part
+      : Object.keys(entries).find(
+          (name) => name.toLowerCase() === part.toLowerCase()
+        );
+    current = key === undefined ? undefined : entries[key];
+  }
+  return current;
+}
+
+// Objects from JSON exports usually carry their text under one of these keys
+function toText(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (Array.isArray(value)) {
+    const parts = value.map(toText).filter((part): part is string => !!part);
+    return parts.length > 0 ? parts.join('\n') : null;
+  }
+  if (typeof value === 'object') {
+    const entries = value as ImportRecord;
+    for (const key of [
+      'name',
+      'title',
+      'login',
+      'username',
+      'displayName',
+      'body',
+      'value',
+    ]) {
+      if (
+        typeof entries[key] === 'string' ||
+        typeof entries[key] === 'number'
+      ) {
+        return String(entries[key]);
+      }
+    }
+    return JSON.stringify(value);
+  }
+  const text = String(value).trim();
+  return text || null;
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap(toList);
+  }
+  const text = toText(value);
+  if (!text) {
+    return [];
+  }
+  return text
+    .split(/[;,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function toComments(value: unknown, fallbackDate: string): IssueComment[] {
+  const items = Array.isArray(value)
+    ? value
+    : value === undefined
+      ? []
+      : [value];
+
+  return items.flatMap((item, index) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      const comment = item as ImportRecord;
+      const body = toText(comment.body ?? comment.text ?? comment.content);
+      if (!body) {
+        return [];
+      }
+      return [
+        {
+          id: index + 1,
+          body,
+          createdAt:
+            toText(
+              comment.createdAt ?? comment.created_at ?? comment.created
+            ) ?? fallbackDate,
+          author: toText(comment.author ?? comment.user) ?? 'unknown',
+        },
+      ];
+    }
+
+    const body = toText(item);
+    return body
+      ? [{ id: index + 1, body, createdAt: fallbackDate, author: 'unknown' }]
+      : [];
+  });
+}
+
+// A plain id is the issue number. A tracker key such as PROJ-123 is kept as
+// the key, and its trailing number is only the preferred internal number.
+function toIssueId(
+  value: unknown
+): { number: number; key?: string } | undefined {
+  if (typeof value === 'number' && Number.isInteger(value) && value > 0) {
+    return { number: value };
+  }
+  const text = toText(value);
+  const match = text?.match(/(\d+)\s*$/);
+  if (!text || !match) {
+    return undefined;
+  }
+  const number = parseInt(match[1], 10);
+  return /^\d+$/.test(text) ? { number } : { number, key: text };
+}
+
+function toDate(value: unknown): string | null | undefined {
+  const text = toText(value);
+  if (!text) {
+    return undefined;
+  }
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function readRecords(
+  content: string,
+  format: ImportFormat,
+  issuesPath?: string
+): { records: ImportRecord[]; repoContext?: unknown } | { error: string } {
+  if (format === 'csv') {
+    return { records: csvToRecords(content) };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    return {
+      error: `Invalid JSON: ${error instanceof Error ? error.message : 'parse error'}`,
+    };
+  }
+
+  // A bare array, or an object holding the issues (and optionally repoContext)
+  const issues = issuesPath
+    ? getValue(parsed, issuesPath)
+    : Array.isArray(parsed)
+      ? parsed
+      : getValue(parsed, 'issues');
+  if (!Array.isArray(issues)) {
+    return {
+      error: issuesPath
+        ? `No array of issues at ${issuesPath}`
+        : 'JSON must be an array of issues or an object with an issues array',
+    };
+  }
+  if (
+    issues.some(
+      (item) => !item || typeof item !== 'object' || Array.isArray(item)
+    )
+  ) {
+    return { error: 'Every issue in the JSON must be an object' };
+  }
+
+  return {
+    records: issues as ImportRecord[],
+    repoContext: Array.isArray(parsed)
+      ? undefined
+      : getValue(parsed, 'repoContext'),
+  };
+}
+
+/**
+ * Repository context for imported issues. Exports rarely describe the code
+ * base, so everything beyond the name is optional and unknowns stay empty.
+ */
+export function buildImportRepoContext(
+  source: string,
+  input: unknown
+): { repoContext: RepoContext } | { error: string } {
+  if (
+    input !== undefined &&
+    input !== null &&
+    (typeof input !== 'object' || Array.isArray(input))
+  ) {
+    return { error: 'repoContext must be an object' };
+  }
+  const raw = (input ?? {}) as ImportRecord;
+
+  let languages: Record<string, number> = {};
+  if (Array.isArray(raw.languages)) {
+    // A plain list means no known breakdown; weigh the languages equally
+    languages = Object.fromEntries(
+      toList(raw.languages).map((language) => [language, 1])
+    );
+  } else if (raw.languages && typeof raw.languages === 'object') {
+    for (const [language, share] of Object.entries(raw.languages)) {
+      if (typeof share !== 'number' || share < 0) {
+        return { error: `repoContext.languages.${language} must be a number` };
+      }
+      languages[language] = share;
+    }
+  } else if (raw.languages !== undefined) {
+    return { error: 'repoContext.languages must be a list or an object' };
+  }
+
+  const now = new Date().toISOString();
+  const name = toText(raw.name) ?? source;
+
+  return {
+    repoContext: {
+      name,
+      fullName: toText(raw.fullName) ?? name,
+      description: toText(raw.description),
+      languages,
+      primaryLanguage:
+        toText(raw.primaryLanguage) ??
+        Object.entries(languages).sort(([, a], [, b]) => b - a)[0]?.[0] ??
+        null,
+      stars: 0,
+      forks: 0,
+      openIssuesCount: 0,
+      size: 0,
+      createdAt: toDate(raw.createdAt) || now,
+      updatedAt: toDate(raw.updatedAt) || now,
+      defaultBranch: toText(raw.defaultBranch) ?? 'main',
+      hasTests: raw.hasTests === true,
+      topics: toList(raw.topics),
+      license: toText(raw.license),
+      profile: null,
+    },
+  };
+}
+
+/**
+ * Turn an exported backlog into issues ready for estimation. Every row is
+ * checked and all problems are reported together, so a bad mapping can be
+ * fixed in one go.
+ */
+export function importIssues(
+  content: string,
+  format: ImportFormat,
+  mapping: ImportMapping,
+  source: string,
+  repoContextInput?: unknown
+): ImportedIssues | { error: string } {
+  const read = readRecords(content, format, mapping.issuesPath);
+  if ('error' in read) {
+    return read;
+  }
+  if (read.records.length === 0) {
+    return { error: 'The file contains no issues' };
+  }
+
+  const context = buildImportRepoContext(
+    source,
+    repoContextInput ?? read.repoContext
+  );
+  if ('error' in context) {
+    return context;
+  }
+
+  const field = (record: ImportRecord, key: keyof ImportMapping) => {
+    const column = mapping[key];
+    return column ? getValue(record, column) : undefined;
+  };
+
+  const problems: string[] = [];
+  const seenIds = new Set<string>();
+  const importedAt = new Date().toISOString();
+
+  const issues = read.records.map((record, index): EnrichedIssue => {
+    // Row numbers as a spreadsheet shows them: the CSV header is row 1
+    const row = format === 'csv' ? `Row ${index + 2}` : `Issue ${index + 1}`;
+
+    const title = toText(field(record, 'title'));
+    if (!title) {
+      problems.push(`${row}: no title in "${mapping.title}"`);
+    }
+
+    const rawNumber = field(record, 'number');
+    const id = toIssueId(rawNumber);
+    if (rawNumber !== undefined && toText(rawNumber) && id === undefined) {
+      problems.push(`${row}: "${toText(rawNumber)}" is not an issue number`);
+    }
+    const idText = id ? (id.key ?? String(id.number)) : undefined;
+    if (idText !== undefined) {
+      if (seenIds.has(idText.toLowerCase())) {
+        problems.push(
+          `${row}: duplicate issue ${id?.key ?? `number ${idText}`}`
+        );
+      }
+      seenIds.add(idText.toLowerCase());
+    }
+
+    const dates: Record<'createdAt' | 'updatedAt', string> = {
+      createdAt: importedAt,
+      updatedAt: importedAt,
+    };
+    for (const key of ['createdAt', 'updatedAt'] as const) {
+      const date = toDate(field(record, key));
+      if (date === null) {
+        problems.push(`${row}: "${toText(field(record, key))}" is not a date`);
+      } else if (date) {
+        dates[key] = date;
+      }
+    }
+
+    const milestone = toText(field(record, 'milestone'));
+    const comments = toComments(field(record, 'comments'), dates.createdAt);
+
+    return {
+      number: id?.number ?? 0, // made unique below
+      ...(id?.key ? { key: id.key } : {}),
+      title: title ?? '',
+      body: toText(field(record, 'body')),
+      labels: toList(field(record, 'labels')),
+      state: toText(field(record, 'state'))?.toLowerCase() ?? 'open',
+      createdAt: dates.createdAt,
+      updatedAt: dates.updatedAt,
+      comments,
+      commentCount: comments.length,
+      url: toText(field(record, 'url')) ?? '',
+      author: toText(field(record, 'author')) ?? 'unknown',
+      assignees: toList(field(record, 'assignees')),
+      milestone: milestone
+        ? { number: 0, title: milestone, dueOn: null }
+        : null,
+      reactions: { total: 0, byType: {} },
+      locked: false,
+      linkedPullRequests: [],
+      referencedIssues: [],
+    };
+  });
+
+  assignIssueNumbers(issues);
+
+  if (problems.length > 0) {
+    const shown = problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ');
+    const more = problems.length - MAX_REPORTED_PROBLEMS;
+    return {
+      error: `Invalid import: ${shown}${more > 0 ? ` (and ${more} more)` : ''}`,
+    };
+  }
+
+  logger.info({ source, format, count: issues.length }, 'Issues imported');
+  return { issues, repoContext: context.repoContext };
+}
+
+/**
+ * Give every imported issue its own number, since similarity and retries
+ * tell issues apart by number. An issue keeps its own number when no earlier
+ * row took it; keys from different projects (ABC-12, XYZ-12) and rows
+ * without an id get the lowest free numbers instead, and keep their key.
+ */
+function assignIssueNumbers(issues: EnrichedIssue[]): void {
+  const taken = new Set<number>();
+  const renumbered: EnrichedIssue[] = [];
+  for (const issue of issues) {
+    if (issue.number > 0 && !taken.has(issue.number)) {
+      taken.add(issue.number);
+    } else {
+      renumbered.push(issue);
+    }
+  }
+
+  let next = 1;
+  for (const issue of renumbered) {
+    while (taken.has(next)) {
+      next++;
+    }
+    issue.number = next;
+    taken.add(next);
+  }
+}
+
+// One file per exact source name: the readable part alone would give
+// "Acme Jira" and "acme-jira" the same file, so a hash of the name follows it
+function mappingPath(source: string): string {
+  const key = source.toLowerCase().replace(/[^a-z0-9._-]+/g, '-');
+  const hash = createHash('sha256').update(source).digest('hex').slice(0, 12);
+  return join(config.import.mappingsDir, `${key}-${hash}.json`);
+}
+
+export function loadImportMapping(
+  source: string
+): SavedImportMapping | undefined {
+  const path = mappingPath(source);
+  if (!existsSync(path)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as SavedImportMapping;
+  } catch (error) {
+    logger.warn({ error, source }, 'Ignoring unreadable import mapping');
+    return undefined;
+  }
+}
+
+export function saveImportMapping(
+  source: string,
+  mapping: ImportMapping
+): SavedImportMapping {
+  const saved: SavedImportMapping = {
+    source,
+    mapping,
+    updatedAt: new Date().toISOString(),
+  };
+  mkdirSync(config.import.mappingsDir, { recursive: true });
+  writeFileSync(mappingPath(source), JSON.stringify(saved, null, 2));
+  logger.info({ source }, 'Import mapping saved');
+  return saved;
+}
+
+export function listImportMappings(): SavedImportMapping[] {
+  if (!existsSync(config.import.mappingsDir)) {
+    return [];
+  }
+  return readdirSync(config.import.mappingsDir)
+    .filter((file) => file.endsWith('.json'))
+    .flatMap((file) => {
+      try {
+        return [
+          JSON.parse(
+            readFileSync(join(config.import.mappingsDir, file), 'utf-8')
+          ) as SavedImportMapping,
+        ];
+      } catch {
+        return [];
+      }
+    })
+    .sort((a, b) => a.source.localeCompare(b.source));
+}
+
+/**
+ * The mapping a run uses: the request's fields over the source's saved
+ * mapping over the defaults
+ */
+export function resolveImportMapping(
+  source: string,
+  overrides: Partial<ImportMapping>
+): ImportMapping {
+  return {
+    ...DEFAULT_IMPORT_MAPPING,
+    ...loadImportMapping(source)?.mapping,
+    ...overrides,
+  };
+}
@@ -0,0 +1,346 @@
+import { RequestError, type Octokit } from 'octokit';
+import logger from '@/app/_lib/utils/logger';
+import { IssueEstimation, isEstimated } from './ai';
+import { formatRoleHours } from './effort';
+import {
+  ESTIMATE_COMMENT_MARKER,
+  isEstimateLabel,
+  parseGitHubIssueUrl,
+} from './github';
+import { GitHubClientOptions, createGitHubClient } from './githubClient';
+import { parseIssueUrl } from './providers';
+
+export interface PublishOptions {
+  labels: boolean; // cost:$NNN and complexity:<level>
+  comment: boolean; // a single marker comment with the estimate and reasoning
+}
+
+export interface PublishedIssue {
+  repository: string;
+  issueNumber: number;
+  issueUrl: string;
+  labelsAdded: string[];
+  labelsRemoved: string[];
+  comment: 'created' | 'updated' | 'unchanged' | 'skipped';
+  commentUrl?: string;
+  status: 'published' | 'failed';
+  error?: string;
+}
+
+export interface PublishResult {
+  items: PublishedIssue[];
+  summary: {
+    published: number;
+    failed: number;
+    labelsChanged: number;
+    commentsCreated: number;
+    commentsUpdated: number;
+  };
+}
+
+/**
+ * Validate a publish spec from a request body. `publish: true` turns on both
+ * labels and the comment; null options mean publishing wasn't requested.
+ */
+export function parsePublishOptions(
+  input: unknown
+): { options: PublishOptions | null } | { error: string } {
+  if (input === undefined || input === null || input === false) {
+    return { options: null };
+  }
+  if (input === true) {
+    return { options: { labels: true, comment: true } };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'publish must be a boolean or an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const options: PublishOptions = {
+    labels: raw.labels === true,
+    comment: raw.comment === true,
+  };
+
+  if (!options.labels && !options.comment) {
+    return { options: null };
+  }
+  return { options };
+}
+
+export function estimateLabels(estimation: IssueEstimation): string[] {
+  return [
+    `cost:$${Math.round(estimation.estimatedCost)}`,
+    `complexity:${estimation.complexity}`,
+  ];
+}
+
+export function formatEstimateComment(estimation: IssueEstimation): string {
+  const effort = estimation.roleHours
+    ? `\n\nEffort: ${estimation.hours}h (${formatRoleHours(estimation.roleHours)}), priced with the rate card.`
+    : '';
+  // Ensemble estimates also show their spread and how sure they are
+  const ensemble =
+    estimation.sampleCount > 1
+      ? `\n\nRange (p10-p90): $${Math.round(estimation.costP10)}-$${Math.round(estimation.costP90)} over ${estimation.sampleCount} samples, ${Math.round((estimation.agreement ?? 0) * 100)}% agreeing on the complexity.${estimation.needsReview ? ' **Needs review:** the samples disagree or spread widely.' : ''}`
+      : '';
+
+  return `${ESTIMATE_COMMENT_MARKER}
+### Estimate
+
+| Complexity | Estimated cost |
+| --- | --- |
+| ${estimation.complexity} | $${Math.round(estimation.estimatedCost)} |${effort}${ensemble}
+
+**Reasoning:** ${estimation.reasoning}
+
+<sub>Posted by ns-issue-est. Re-running the estimate updates this comment.</sub>`;
+}
+
+function describeError(error: unknown, action: string): string {
+  if (error instanceof RequestError && [401, 403, 404].includes(error.status)) {
+    return `Not permitted to ${action} (HTTP ${error.status}); the token needs write access to issues`;
+  }
+  return `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`;
+}
+
+// Swap stale cost:/complexity: labels for the current ones. Labels are read
+// fresh since the cached copy may predate an earlier publish.
+async function syncLabels(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  estimation: IssueEstimation,
+  item: PublishedIssue
+): Promise<void> {
+  // An issue holds at most 100 labels, so one page is enough
+  const { data: labels } = await octokit.rest.issues.listLabelsOnIssue({
+    owner,
+    repo,
+    issue_number: issueNumber,
+    per_page: 100,
+    request: { skipCache: true },
+  });
+  const current = labels.map((label) => label.name);
+
+  const desired = estimateLabels(estimation);
+  const stale = current.filter(
+    (label) => isEstimateLabel(label) && !desired.includes(label)
+  );
+  const missing = desired.filter((label) => !current.includes(label));
+
+  for (const name of stale) {
+    await octokit.rest.issues.removeLabel({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      name,
+    });
+    item.labelsRemoved.push(name);
+  }
+
+  if (missing.length > 0) {
+    // Labels that don't exist in the repository yet are created by GitHub
+    await octokit.rest.issues.addLabels({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      labels: missing,
+    });
+    item.labelsAdded.push(...missing);
+  }
+}
+
+// Paged by hand: octokit.paginate drops the per-request skipCache option.
+// Only comments by `login` count, since anyone can paste the marker
+async function findEstimateComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  login: string
+) {
+  for (let page = 1; ; page++) {
+    const { data: comments } = await octokit.rest.issues.listComments({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      per_page: 100,
+      page,
+      request: { skipCache: true },
+    });
+
+    const existing = comments.find(
+      (comment) =>
+        comment.user?.login === login &&
+        comment.body?.includes(ESTIMATE_COMMENT_MARKER)
+    );
+    if (existing || comments.length < 100) {
+      return existing;
+    }
+  }
+}
+
+async function upsertComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  issueNumber: number,
+  login: string,
+  estimation: IssueEstimation,
+  item: PublishedIssue
+): Promise<void> {
+  const existing = await findEstimateComment(
+    octokit,
+    owner,
+    repo,
+    issueNumber,
+    login
+  );
+  const body = formatEstimateComment(estimation);
+
+  if (!existing) {
+    const { data } = await octokit.rest.issues.createComment({
+      owner,
+      repo,
+      issue_number: issueNumber,
+      body,
+    });
+    item.comment = 'created';
+    item.commentUrl = data.html_url;
+    return;
+  }
+
+  item.commentUrl = existing.html_url;
+  if (existing.body === body) {
+    item.comment = 'unchanged';
+    return;
+  }
+
+  await octokit.rest.issues.updateComment({
+    owner,
+    repo,
+    comment_id: existing.id,
+    body,
+  });
+  item.comment = 'updated';
+}
+
+/**
+ * Publish estimations back to their issues. Issues are handled one at a time
+ * and a failure, typically a missing permission, is recorded on that issue
+ * without stopping the others.
+ */
+export async function publishEstimations(
+  estimations: IssueEstimation[],
+  options: PublishOptions,
+  getClientOptions: (host: string) => GitHubClientOptions
+): Promise<PublishResult> {
+  const clients = new Map<string, Octokit>();
+  // The login behind each host's token, looked up on the first comment
+  const logins = new Map<string, Promise<string>>();
+  const items: PublishedIssue[] = [];
+
+  logger.info(
+    { count: estimations.length, ...options },
+    'Publishing estimates to issues'
+  );
+
+  // Failed estimates have nothing to publish
+  for (const estimation of estimations.filter(isEstimated)) {
+    const item: PublishedIssue = {
+      repository: estimation.repository,
+      issueNumber: estimation.issueNumber,
+      issueUrl: estimation.url,
+      labelsAdded: [],
+      labelsRemoved: [],
+      comment: 'skipped',
+      status: 'published',
+    };
+    items.push(item);
+
+    const issueInfo = parseGitHubIssueUrl(estimation.url);
+    if (!issueInfo) {
+      // Estimates of GitLab and Gitea issues are read-only for now
+      const provider = parseIssueUrl(estimation.url)?.provider;
+      item.status = 'failed';
+      item.error = provider
+        ? `Publishing to ${provider.name} issues is not supported`
+        : `Unrecognized issue URL: ${estimation.url}`;
+      continue;
+    }
+
+    const { host, owner, repo, issueNumber } = issueInfo;
+    let octokit = clients.get(host);
+    if (!octokit) {
+      octokit = createGitHubClient(getClientOptions(host));
+      clients.set(host, octokit);
+    }
+
+    let action = 'update labels';
+    try {
+      if (options.labels) {
+        await syncLabels(octokit, owner, repo, issueNumber, estimation, item);
+      }
+      if (options.comment) {
+        action = 'comment';
+        let login = logins.get(host);
+        if (!login) {
+          login = octokit.rest.users
+            .getAuthenticated()
+            .then(({ data }) => data.login);
+          logins.set(host, login);
+        }
+        await upsertComment(
+          octokit,
+          owner,
+          repo,
+          issueNumber,
+          await login,
+          estimation,
+          item
+        );
+      }
+    } catch (error) {
+      logger.error(
+        { error, issueUrl: estimation.url },
+        'Failed to publish estimate to issue'
+      );
+      item.status = 'failed';
+      item.error = describeError(error, action);
+    }
+  }
+
+  const result: PublishResult = {
+    items,
+    summary: {
+      published: items.filter((item) => item.status === 'published').length,
+      failed: items.filter((item) => item.status === 'failed').length,
+      labelsChanged: items.filter(
+        (item) => item.labelsAdded.length > 0 || item.labelsRemoved.length > 0
+      ).length,
+      commentsCreated: items.filter((item) => item.comment === 'created')
+        .length,
+      commentsUpdated: items.filter((item) => item.comment === 'updated')
+        .length,
+    },
+  };
+
+  logger.info({ summary: result.summary }, 'Publishing finished');
+  return result;
+}
+
+/**
+ * One line per issue, for logs and the SSE stream
+ */
+export function formatPublishedIssue(item: PublishedIssue): string {
+  if (item.status === 'failed') {
+    return `${item.repository}#${item.issueNumber}: failed: ${item.error}`;
+  }
+  const parts = [
+    ...item.labelsRemoved.map((label) => `-${label}`),
+    ...item.labelsAdded.map((label) => `+${label}`),
+    ...(item.comment === 'skipped' ? [] : [`comment ${item.comment}`]),
+  ];
+  return `${item.repository}#${item.issueNumber}: ${parts.length > 0 ? parts.join(', ') : 'up to date'}`;
+}
@@ -0,0 +1,485 @@
+import { createHash } from 'crypto';
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import { EnrichedIssue } from './github';
+import { LLMProvider, resolveModel } from './llm';
+import { UsageMeter } from './usage';
+
+export type SimilarityMethod = 'embeddings' | 'tfidf';
+
+// Attached to each issue of a run by attachSimilarity
+export interface IssueSimilarity {
+  method: SimilarityMethod;
+  possibleDuplicates: number[]; // other issues in the same cluster
+  relatedIssues: number[]; // similar, but not close enough to be duplicates
+  duplicateOf: number | null; // oldest issue of the cluster, null for that one
+}
+
+export interface SimilarityOptions {
+  pool?: EnrichedIssue[]; // issues to compare against, the issues themselves by default
+  // The run's model; embeddings come from its provider, so issue texts go
+  // nowhere the estimates don't
+  model: string;
+  meter?: UsageMeter; // records the embeddings and charges the run's budget
+}
+
+// Cosine similarity cutoffs. Embedding scores sit much higher than TF-IDF
+// scores for the same pair, so each method has its own defaults.
+const DEFAULT_THRESHOLDS: Record<
+  SimilarityMethod,
+  { duplicate: number; related: number }
+> = {
+  embeddings: { duplicate: 0.9, related: 0.75 },
+  tfidf: { duplicate: 0.6, related: 0.3 },
+};
+
+const MAX_RELATED_ISSUES = 5;
+const EMBEDDING_BATCH_SIZE = 100;
+// About 60 MB of 1536-dimension embeddings
+const MAX_CACHED_EMBEDDINGS = 5000;
+const MAX_CACHED_POOLS = 20;
+// Issues compared between yields to the event loop
+const YIELD_EVERY = 50;
+// Characters of the body used; the title and opening paragraphs carry the topic
+const MAX_TEXT_CHARS = 4000;
+
+const STOP_WORDS = new Set([
+  'the',
+  'and',
+  'for',
+  'are',
+  'but',
+  'not',
+  'you',
+  'all',
+  'any',
+  'can',
+  'has',
+  'have',
+  'was',
+  'were',
+  'this',
+  'that',
+  'with',
+  'from',
+  'when',
+  'what',
+  'which',
+  'would',
+  'should',
+  'could',
+  'there',
+  'their',
+  'then',
+  'than',
+  'into',
+  'also',
+  'only',
+  'some',
+  'does',
+  'doesn',
+  'just',
+  'like',
+  'will',
+  'been',
+  'being',
+  'our',
+  'its',
+  'using',
+  'use',
+  'used',
+  'issue',
+  'expected',
+  'actual',
+  'behavior',
+  'steps',
+  'reproduce',
+]);
+
+// Embeddings of issue texts, keyed by model and content hash, so later
+// batches of the same run don't pay for them again. Least recently used
+// entries make way once it is full.
+const embeddingCache = new Map<string, number[]>();
+
+function cacheEmbedding(key: string, embedding: number[]) {
+  embeddingCache.delete(key);
+  embeddingCache.set(key, embedding);
+  while (embeddingCache.size > MAX_CACHED_EMBEDDINGS) {
+    embeddingCache.delete(embeddingCache.keys().next().value as string);
+  }
+}
+
+function issueText(issue: EnrichedIssue): string {
+  return `${issue.title}\n\n${(issue.body ?? '').slice(0, MAX_TEXT_CHARS)}`;
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(
+    vector.reduce((sum, value) => sum + value * value, 0)
+  );
+  return length > 0 ? vector.map((value) => value / length) : vector;
+}
+
+type EmbeddingProvider = Pick<LLMProvider, 'id'> &
+  Required<Pick<LLMProvider, 'embed'>>;
+
+async function embedTexts(
+  provider: EmbeddingProvider,
+  texts: string[],
+  meter?: UsageMeter
+): Promise<number[][]> {
+  const model = config.similarity.embeddingModel;
+  const key = (text: string) =>
+    `${provider.id}:${model}:${createHash('sha256').update(text).digest('hex')}`;
+
+  const keys = texts.map(key);
+  const embeddings = new Map<string, number[]>();
+  const missing: string[] = [];
+  texts.forEach((text, index) => {
+    const cached = embeddingCache.get(keys[index]);
+    if (cached) {
+      // Refresh its place in the cache
+      cacheEmbedding(keys[index], cached);
+      embeddings.set(keys[index], cached);
+    } else if (!embeddings.has(keys[index])) {
+      embeddings.set(keys[index], []);
+      missing.push(text);
+    }
+  });
+
+  for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = missing.slice(i, i + EMBEDDING_BATCH_SIZE);
+    const response = await provider.embed({
+      model,
+      input: batch,
+      signal: meter?.signal,
+    });
+    meter?.record(`${provider.id}:${model}`, response.usage);
+    response.embeddings.forEach((embedding, index) => {
+      const vector = normalize(embedding);
+      embeddings.set(key(batch[index]), vector);
+      cacheEmbedding(key(batch[index]), vector);
+    });
+  }
+
+  return keys.map((textKey) => embeddings.get(textKey) as number[]);
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter((word) => word.length > 2 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Offline vectors: TF-IDF over the issues being compared, titles counted
+ * twice since they are the densest summary of an issue. Each vector only
+ * holds the issue's own terms.
+ */
+function tfidfVectors(issues: EnrichedIssue[]): Map<string, number>[] {
+  const documents = issues.map((issue) => [
+    ...tokenize(issue.title),
+    ...tokenize(issue.title),
+    ...tokenize((issue.body ?? '').slice(0, MAX_TEXT_CHARS)),
+  ]);
+
+  const documentFrequency = new Map<string, number>();
+  for (const words of documents) {
+    for (const word of new Set(words)) {
+      documentFrequency.set(word, (documentFrequency.get(word) ?? 0) + 1);
+    }
+  }
+
+  return documents.map((words) => {
+    const vector = new Map<string, number>();
+    for (const word of words) {
+      vector.set(word, (vector.get(word) ?? 0) + 1 / words.length);
+    }
+    let length = 0;
+    for (const [word, frequency] of vector) {
+      const weight =
+        frequency *
+        (Math.log(
+          (documents.length + 1) / ((documentFrequency.get(word) as number) + 1)
+        ) +
+          1);
+      vector.set(word, weight);
+      length += weight * weight;
+    }
+    length = Math.sqrt(length);
+    for (const [word, weight] of vector) {
+      vector.set(word, weight / length);
+    }
+    return vector;
+  });
+}
+
+// The run model's provider when it serves embeddings, otherwise null
+function getEmbeddingProvider(modelId: string): EmbeddingProvider | null {
+  if (config.similarity.method !== 'embeddings') {
+    return null;
+  }
+  try {
+    const { provider } = resolveModel(modelId);
+    return provider.embed ? { id: provider.id, embed: provider.embed } : null;
+  } catch {
+    return null;
+  }
+}
+
+type Vectors =
+  | { method: 'embeddings'; vectors: number[][] }
+  | { method: 'tfidf'; vectors: Map<string, number>[] };
+
+async function vectorize(
+  issues: EnrichedIssue[],
+  provider: EmbeddingProvider | null,
+  meter?: UsageMeter
+): Promise<Vectors> {
+  if (provider) {
+    try {
+      return {
+        method: 'embeddings',
+        vectors: await embedTexts(provider, issues.map(issueText), meter),
+      };
+    } catch (error) {
+      logger.warn({ error }, 'Embeddings failed, falling back to TF-IDF');
+    }
+  }
+  return { method: 'tfidf', vectors: tfidfVectors(issues) };
+}
+
+// Let other requests run between chunks of a long comparison
+const yieldToEventLoop = () =>
+  new Promise<void>((resolve) => setImmediate(resolve));
+
+/**
+ * Call onPair for every pair of vectors scoring at least minScore. TF-IDF
+ * pairs are found through an inverted index, so only issues sharing a term
+ * are ever compared.
+ */
+async function scorePairs(
+  { method, vectors }: Vectors,
+  minScore: number,
+  onPair: (i: number, j: number, score: number) => void
+): Promise<void> {
+  if (method === 'embeddings') {
+    for (let i = 0; i < vectors.length; i++) {
+      for (let j = i + 1; j < vectors.length; j++) {
+        let score = 0;
+        for (let k = 0; k < vectors[i].length; k++) {
+          score += vectors[i][k] * vectors[j][k];
+        }
+        if (score >= minScore) {
+          onPair(i, j, score);
+        }
+      }
+      if (i % YIELD_EVERY === YIELD_EVERY - 1) {
+        await yieldToEventLoop();
+      }
+    }
+    return;
+  }
+
+  const postings = new Map<string, Array<{ index: number; weight: number }>>();
+  for (let j = 0; j < vectors.length; j++) {
+    const scores = new Map<number, number>();
+    for (const [word, weight] of vectors[j]) {
+      const posting = postings.get(word) ?? [];
+      for (const entry of posting) {
+        scores.set(
+          entry.index,
+          (scores.get(entry.index) ?? 0) + entry.weight * weight
+        );
+      }
+      posting.push({ index: j, weight });
+      postings.set(word, posting);
+    }
+    for (const [i, score] of scores) {
+      if (score >= minScore) {
+        onPair(i, j, score);
+      }
+    }
+    if (j % YIELD_EVERY === YIELD_EVERY - 1) {
+      await yieldToEventLoop();
+    }
+  }
+}
+
+function getThresholds(method: SimilarityMethod) {
+  return {
+    duplicate:
+      config.similarity.duplicateThreshold ||
+      DEFAULT_THRESHOLDS[method].duplicate,
+    related:
+      config.similarity.relatedThreshold || DEFAULT_THRESHOLDS[method].related,
+  };
+}
+
+interface PoolSimilarity {
+  method: SimilarityMethod;
+  byNumber: Map<number, IssueSimilarity>;
+  clusters: number; // with more than one issue
+}
+
+// Results per pool of issues, keyed by its texts and the embedding source.
+// The batches of a run share one pool, so its clusters are computed once.
+const poolCache = new Map<string, PoolSimilarity>();
+
+function poolKey(
+  candidates: EnrichedIssue[],
+  provider: EmbeddingProvider | null
+): string {
+  const hash = createHash('sha256').update(provider?.id ?? 'tfidf');
+  for (const issue of candidates) {
+    hash.update(`\0${issue.number}\0${issueText(issue)}`);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Pairs above the duplicate threshold are joined into clusters, so A ~ B and
+ * B ~ C puts all three together. The oldest issue of a cluster, the lowest
+ * number, is treated as the original and the rest as its duplicates.
+ */
+async function computePoolSimilarity(
+  candidates: EnrichedIssue[],
+  provider: EmbeddingProvider | null,
+  meter?: UsageMeter
+): Promise<PoolSimilarity> {
+  const vectors = await vectorize(candidates, provider, meter);
+  const { method } = vectors;
+  const thresholds = getThresholds(method);
+
+  // Union-find over duplicate pairs
+  const parent = candidates.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+
+  const related = new Map<number, Array<{ index: number; score: number }>>();
+  const addRelated = (index: number, other: number, score: number) => {
+    const list = related.get(index) ?? [];
+    list.push({ index: other, score });
+    related.set(index, list);
+  };
+  await scorePairs(vectors, thresholds.related, (i, j, score) => {
+    if (score >= thresholds.duplicate) {
+      parent[find(i)] = find(j);
+    } else {
+      addRelated(i, j, score);
+      addRelated(j, i, score);
+    }
+  });
+
+  const clusters = new Map<number, number[]>();
+  candidates.forEach((issue, index) => {
+    const root = find(index);
+    const cluster = clusters.get(root) ?? [];
+    cluster.push(issue.number);
+    clusters.set(root, cluster);
+  });
+
+  const byNumber = new Map<number, IssueSimilarity>();
+  candidates.forEach((issue, index) => {
+    const cluster = clusters.get(find(index)) as number[];
+    const original = Math.min(...cluster);
+    byNumber.set(issue.number, {
+      method,
+      possibleDuplicates: cluster
+        .filter((number) => number !== issue.number)
+        .sort((a, b) => a - b),
+      relatedIssues: (related.get(index) ?? [])
+        .filter(({ index: other }) => find(other) !== find(index))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_RELATED_ISSUES)
+        .map(({ index: other }) => candidates[other].number),
+      duplicateOf: original === issue.number ? null : original,
+    });
+  });
+
+  return {
+    method,
+    byNumber,
+    clusters: [...clusters.values()].filter((cluster) => cluster.length > 1)
+      .length,
+  };
+}
+
+/**
+ * Compare each issue against the pool (by default the issues themselves)
+ * and attach its duplicate cluster and related issues. Embeddings are used
+ * when the run's model is served by a provider that has them, TF-IDF
+ * otherwise. A pool seen before, such as the open issues behind every
+ * batch of a run, reuses its earlier result.
+ */
+export async function attachSimilarity(
+  issues: EnrichedIssue[],
+  options: SimilarityOptions
+): Promise<EnrichedIssue[]> {
+  const pool = options.pool ?? issues;
+  if (!config.similarity.enabled || pool.length < 2) {
+    return issues;
+  }
+
+  // The batch's own issues are compared too when they are missing from the pool
+  const poolNumbers = new Set(pool.map((issue) => issue.number));
+  const candidates = [
+    ...pool,
+    ...issues.filter((issue) => !poolNumbers.has(issue.number)),
+  ];
+  const provider = getEmbeddingProvider(options.model);
+  const key = poolKey(candidates, provider);
+
+  let result = poolCache.get(key);
+  if (!result) {
+    result = await computePoolSimilarity(candidates, provider, options.meter);
+    poolCache.set(key, result);
+    while (poolCache.size > MAX_CACHED_POOLS) {
+      poolCache.delete(poolCache.keys().next().value as string);
+    }
+  }
+  const { method, byNumber } = result;
+
+  const attached = issues.map((issue) => ({
+    ...issue,
+    similarity: byNumber.get(issue.number) as IssueSimilarity,
+  }));
+
+  logger.info(
+    {
+      method,
+      issues: issues.length,
+      pool: candidates.length,
+      clusters: result.clusters,
+      duplicates: attached.filter((issue) => issue.similarity.duplicateOf)
+        .length,
+    },
+    'Issue similarity computed'
+  );
+
+  return attached;
+}
+
+/**
+ * Amount taken off a duplicate's estimate. The original of a cluster is
+ * charged in full, each duplicate SIMILARITY_CLUSTER_DISCOUNT less.
+ */
+export function getDuplicateDiscount(
+  issue: EnrichedIssue,
+  estimatedCost: number
+): number {
+  if (
+    !issue.similarity?.duplicateOf ||
+    config.similarity.clusterDiscount <= 0
+  ) {
+    return 0;
+  }
+  const fraction = Math.min(config.similarity.clusterDiscount, 1);
+  return Math.round(estimatedCost * fraction);
+}
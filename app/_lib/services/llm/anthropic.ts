@@ -0,0 +1,84 @@
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import { splitList } from './openai';
+import { LLMCompletion, LLMProvider, LLMRequestError } from './types';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const REQUEST_TIMEOUT_MS = 120_000;
+
+interface AnthropicMessageResponse {
+  content: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens: number; output_tokens: number };
+}
+
+/**
+ * Claude through the Messages API. There is no JSON mode, so JSON requests
+ * get an extra instruction and the caller extracts the object from the text.
+ */
+export function createAnthropicProvider(): LLMProvider | null {
+  const { apiKey, baseUrl, models, maxTokens } = config.anthropic;
+  if (!apiKey) {
+    return null;
+  }
+
+  return {
+    id: 'anthropic',
+    kind: 'anthropic',
+    name: 'Anthropic',
+    models: splitList(models),
+    complete: async (request): Promise<LLMCompletion> => {
+      const url = `${baseUrl.replace(/\/+$/, '')}/v1/messages`;
+      logger.trace({ url, model: request.model }, 'Anthropic request');
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model: request.model,
+          max_tokens: maxTokens,
+          temperature: request.sample ? 1 : 0,
+          system: request.json
+            ? `${request.system}\n\nRespond with the JSON object only, without any other text.`
+            : request.system,
+          messages: [{ role: 'user', content: request.user }],
+        }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        const text = await response.text().catch(() => '');
+        let message = text;
+        try {
+          const body = JSON.parse(text) as { error?: { message?: string } };
+          message = body.error?.message ?? text;
+        } catch {
+          // Not JSON, keep the raw text
+        }
+        throw new LLMRequestError(
+          `Anthropic API ${response.status}${message ? `: ${message}` : ''}`,
+          response.status,
+          Number(response.headers.get('retry-after')) || undefined
+        );
+      }
+
+      const body = (await response.json()) as AnthropicMessageResponse;
+      return {
+        content: body.content
+          .filter((block) => block.type === 'text')
+          .map((block) => block.text ?? '')
+          .join(''),
+        usage: body.usage
+          ? {
+              promptTokens: body.usage.input_tokens,
+              completionTokens: body.usage.output_tokens,
+              totalTokens: body.usage.input_tokens + body.usage.output_tokens,
+            }
+          : null,
+      };
+    },
+  };
+}
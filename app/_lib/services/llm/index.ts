@@ -0,0 +1,102 @@
+import { config } from '@/config';
+import { createAnthropicProvider } from './anthropic';
+import {
+  createAzureOpenAIProvider,
+  createCompatibleProviders,
+  createOpenAIProvider,
+} from './openai';
+import { withScheduler } from './scheduler';
+import { LLMModelOption, LLMProvider, LLMRequestError } from './types';
+
+export * from './types';
+export * from './pricing';
+
+let providers: LLMProvider[] | undefined;
+
+/**
+ * Providers with credentials or an endpoint configured. OpenAI comes first,
+ * so a bare model name such as 'gpt-5-nano' keeps meaning the OpenAI model.
+ * Their completions go through the per-provider rate-limit scheduler.
+ */
+export function getLLMProviders(): LLMProvider[] {
+  providers ??= [
+    createOpenAIProvider(),
+    createAzureOpenAIProvider(),
+    createAnthropicProvider(),
+    ...createCompatibleProviders(),
+  ]
+    .filter((provider): provider is LLMProvider => provider !== null)
+    .map(withScheduler);
+  return providers;
+}
+
+export function listModels(): LLMModelOption[] {
+  return getLLMProviders().flatMap((provider) =>
+    provider.models.map((model) => ({
+      id: `${provider.id}:${model}`,
+      provider: provider.id,
+      providerName: provider.name,
+      model,
+    }))
+  );
+}
+
+/**
+ * Find the provider for a model id. Ids are '<provider>:<model>'; a bare
+ * name goes to the first provider listing it. Ollama tags contain a colon
+ * too ('llama3.1:8b'), so only a known provider id counts as a prefix.
+ */
+export function resolveModel(modelId: string): {
+  provider: LLMProvider;
+  model: string;
+} {
+  const available = getLLMProviders();
+
+  const separator = modelId.indexOf(':');
+  if (separator > 0) {
+    const provider = available.find(
+      (entry) => entry.id === modelId.slice(0, separator)
+    );
+    if (provider) {
+      return { provider, model: modelId.slice(separator + 1) };
+    }
+  }
+
+  const provider = available.find((entry) => entry.models.includes(modelId));
+  if (provider) {
+    return { provider, model: modelId };
+  }
+
+  throw new LLMRequestError(
+    available.length === 0
+      ? 'No LLM provider is configured. Set OPENAI_API_KEY, AZURE_OPENAI_*, ANTHROPIC_API_KEY or OPENAI_COMPATIBLE_SERVERS'
+      : `Model ${modelId} is not configured`
+  );
+}
+
+/**
+ * The model requests fall back to: LLM_DEFAULT_MODEL when it is configured,
+ * otherwise the first model listed
+ */
+export function getDefaultModel(): string | null {
+  try {
+    const { provider, model } = resolveModel(config.llm.defaultModel);
+    return `${provider.id}:${model}`;
+  } catch {
+    return listModels()[0]?.id ?? null;
+  }
+}
+
+/**
+ * Pull the JSON object out of a reply. Servers without a JSON mode wrap it
+ * in prose or a ```json fence now and then.
+ */
+export function extractJsonObject(content: string): string {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('{')) {
+    return trimmed;
+  }
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+  return start >= 0 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
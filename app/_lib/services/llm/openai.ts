@@ -0,0 +1,220 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMEmbeddingRequest,
+  LLMEmbeddings,
+  LLMProvider,
+  LLMProviderKind,
+} from './types';
+
+// How an OpenAI-compatible server is asked for JSON. Older Ollama and
+// llama.cpp builds reject response_format, so it can be left to the prompt.
+export type JsonMode = 'json_object' | 'prompt';
+
+export interface OpenAICompatibleServer {
+  id: string;
+  name?: string;
+  baseUrl: string;
+  apiKey?: string;
+  models: string[];
+  jsonMode?: JsonMode;
+}
+
+// Provider ids the compatible servers can't take
+const RESERVED_IDS = new Set(['openai', 'azure', 'anthropic']);
+
+export function splitList(raw: string): string[] {
+  return raw
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+async function createChatCompletion(
+  client: OpenAI,
+  request: LLMCompletionRequest,
+  jsonMode: JsonMode
+): Promise<LLMCompletion> {
+  // estimateIssuesBatch retries with its own backoff; SDK retries would
+  // multiply those attempts
+  const completion = await client.chat.completions.create(
+    {
+      seed: 42 + (request.sample ?? 0),
+      model: request.model,
+      messages: [
+        { role: 'system', content: request.system },
+        { role: 'user', content: request.user },
+      ],
+      response_format:
+        request.json && jsonMode === 'json_object'
+          ? { type: 'json_object' }
+          : undefined,
+    },
+    { maxRetries: 0 }
+  );
+
+  return {
+    content: completion.choices[0]?.message.content ?? '',
+    usage: completion.usage
+      ? {
+          promptTokens: completion.usage.prompt_tokens,
+          completionTokens: completion.usage.completion_tokens,
+          totalTokens: completion.usage.total_tokens,
+        }
+      : null,
+  };
+}
+
+async function createEmbeddings(
+  client: OpenAI,
+  request: LLMEmbeddingRequest
+): Promise<LLMEmbeddings> {
+  const response = await client.embeddings.create(
+    { model: request.model, input: request.input },
+    { maxRetries: 0 }
+  );
+
+  const embeddings: number[][] = [];
+  response.data.forEach((item) => {
+    embeddings[item.index] = item.embedding;
+  });
+  return {
+    embeddings,
+    usage: response.usage
+      ? {
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: 0,
+          totalTokens: response.usage.total_tokens,
+        }
+      : null,
+  };
+}
+
+function createProvider(
+  id: string,
+  kind: LLMProviderKind,
+  name: string,
+  models: string[],
+  getClient: () => OpenAI,
+  options: { jsonMode?: JsonMode; embeddings?: boolean } = {}
+): LLMProvider {
+  let client: OpenAI | undefined;
+  const { jsonMode = 'json_object', embeddings = false } = options;
+  return {
+    id,
+    kind,
+    name,
+    models,
+    complete: (request) => {
+      client ??= getClient();
+      return createChatCompletion(client, request, jsonMode);
+    },
+    ...(embeddings
+      ? {
+          embed: (request: LLMEmbeddingRequest) => {
+            client ??= getClient();
+            return createEmbeddings(client, request);
+          },
+        }
+      : {}),
+  };
+}
+
+export function createOpenAIProvider(): LLMProvider | null {
+  if (!config.openai.apiKey) {
+    return null;
+  }
+  return createProvider(
+    'openai',
+    'openai',
+    'OpenAI',
+    splitList(config.openai.models),
+    () => new OpenAI({ apiKey: config.openai.apiKey }),
+    // Azure and compatible servers name their embedding models differently,
+    // so SIMILARITY_EMBEDDING_MODEL is only asked of OpenAI itself
+    { embeddings: true }
+  );
+}
+
+/**
+ * Azure OpenAI addresses models by deployment name, so the deployments are
+ * the model list
+ */
+export function createAzureOpenAIProvider(): LLMProvider | null {
+  const { apiKey, endpoint, apiVersion, deployments } = config.azureOpenai;
+  if (!apiKey || !endpoint) {
+    return null;
+  }
+  return createProvider(
+    'azure',
+    'azure-openai',
+    'Azure OpenAI',
+    splitList(deployments),
+    () => new AzureOpenAI({ apiKey, endpoint, apiVersion })
+  );
+}
+
+/**
+ * Read OPENAI_COMPATIBLE_SERVERS, a JSON array of
+ * {"id","name","baseUrl","apiKey","models","jsonMode"} entries
+ */
+export function parseCompatibleServers(raw: string): OpenAICompatibleServer[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Array<Partial<OpenAICompatibleServer>>;
+    return parsed.flatMap((entry) => {
+      const id = entry.id?.trim().toLowerCase();
+      if (!id || !/^[a-z0-9_-]+$/.test(id) || RESERVED_IDS.has(id)) {
+        logger.warn(
+          { entry },
+          'Skipping OPENAI_COMPATIBLE_SERVERS entry without a usable id'
+        );
+        return [];
+      }
+      if (!entry.baseUrl || !Array.isArray(entry.models)) {
+        logger.warn(
+          { id },
+          'Skipping OPENAI_COMPATIBLE_SERVERS entry without baseUrl or models'
+        );
+        return [];
+      }
+      return [
+        {
+          id,
+          name: entry.name || id,
+          baseUrl: entry.baseUrl.replace(/\/+$/, ''),
+          apiKey: entry.apiKey || undefined,
+          models: entry.models.map(String),
+          jsonMode: entry.jsonMode === 'prompt' ? 'prompt' : 'json_object',
+        },
+      ];
+    });
+  } catch (error) {
+    logger.error({ error }, 'Invalid OPENAI_COMPATIBLE_SERVERS, ignoring it');
+    return [];
+  }
+}
+
+export function createCompatibleProviders(): LLMProvider[] {
+  return parseCompatibleServers(config.openaiCompatible.servers).map((server) =>
+    createProvider(
+      server.id,
+      'openai-compatible',
+      server.name ?? server.id,
+      server.models,
+      () =>
+        new OpenAI({
+          baseURL: server.baseUrl,
+          // Local servers usually ignore it, but the SDK requires one
+          apiKey: server.apiKey ?? 'not-needed',
+        }),
+      { jsonMode: server.jsonMode }
+    )
+  );
+}
@@ -0,0 +1,79 @@
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import { LLMUsage } from './types';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices of the default models; LLM_PRICES adds to or overrides them
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-sonnet-4-5': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+};
+
+let prices: Record<string, ModelPrice> | undefined;
+
+/**
+ * Read LLM_PRICES, a JSON object of {"input","output"} prices keyed by
+ * '<provider>:<model>' or a bare model name
+ */
+export function parsePrices(raw: string): Record<string, ModelPrice> {
+  if (!raw) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Record<string, Partial<ModelPrice>>;
+    return Object.fromEntries(
+      Object.entries(parsed).flatMap(([model, price]) => {
+        if (
+          typeof price?.input !== 'number' ||
+          typeof price?.output !== 'number' ||
+          price.input < 0 ||
+          price.output < 0
+        ) {
+          logger.warn(
+            { model },
+            'Skipping LLM_PRICES entry without input and output prices'
+          );
+          return [];
+        }
+        return [[model, { input: price.input, output: price.output }]];
+      })
+    );
+  } catch (error) {
+    logger.error({ error }, 'Invalid LLM_PRICES, ignoring it');
+    return {};
+  }
+}
+
+/**
+ * The price of a model id ('<provider>:<model>'), matched exactly first and
+ * then by the bare model name. Null for models without a price, such as
+ * local servers and Azure deployments that aren't listed.
+ */
+export function getModelPrice(modelId: string): ModelPrice | null {
+  prices ??= { ...DEFAULT_PRICES, ...parsePrices(config.llm.prices) };
+  const separator = modelId.indexOf(':');
+  return (
+    prices[modelId] ??
+    (separator > 0 ? prices[modelId.slice(separator + 1)] : undefined) ??
+    null
+  );
+}
+
+export function priceUsage(usage: LLMUsage, price: ModelPrice): number {
+  return (
+    (usage.promptTokens * price.input + usage.completionTokens * price.output) /
+    1_000_000
+  );
+}
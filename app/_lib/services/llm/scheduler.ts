@@ -0,0 +1,215 @@
+import { APIError } from 'openai';
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import { estimateTokens } from '@/app/_lib/utils/tokens';
+import {
+  LLMCompletionRequest,
+  LLMProvider,
+  LLMRequestError,
+  LLMUsage,
+} from './types';
+
+const WINDOW_MS = 60_000;
+// Reply tokens counted against the budget until the real usage is known
+const EXPECTED_COMPLETION_TOKENS = 500;
+const MAX_PAUSE_MS = 60_000;
+
+interface WindowEntry {
+  at: number;
+  tokens: number;
+}
+
+interface QueuedRequest {
+  tokens: number;
+  start: (entry: WindowEntry) => void;
+}
+
+interface Scheduler {
+  // tokens: the request's estimated size, replaced by the reported usage
+  schedule<T extends { usage: LLMUsage | null }>(
+    tokens: number,
+    signal: AbortSignal | undefined,
+    send: () => Promise<T>
+  ): Promise<T>;
+}
+
+function estimateRequestTokens(request: LLMCompletionRequest): number {
+  return (
+    estimateTokens(request.system) +
+    estimateTokens(request.user) +
+    EXPECTED_COMPLETION_TOKENS
+  );
+}
+
+function getRateLimit(error: unknown): { retryAfterMs: number | null } | null {
+  if (error instanceof LLMRequestError && error.status === 429) {
+    return {
+      retryAfterMs: error.retryAfterSeconds
+        ? error.retryAfterSeconds * 1000
+        : null,
+    };
+  }
+  if (error instanceof APIError && error.status === 429) {
+    const retryAfter = Number(error.headers?.get('retry-after'));
+    return { retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : null };
+  }
+  return null;
+}
+
+/**
+ * A FIFO work queue for one provider. A request starts once a concurrency
+ * slot is free and it fits the requests- and tokens-per-minute budgets of
+ * the last 60 seconds; its token cost is estimated from the prompt and
+ * corrected with the reported usage afterwards. A 429 pauses the provider
+ * for Retry-After (or an exponential backoff) and halves the concurrency,
+ * which then grows back by one for every `concurrency` successes. Aborted
+ * requests leave the queue without being sent.
+ */
+function createScheduler(providerId: string): Scheduler {
+  const { maxConcurrent, requestsPerMinute, tokensPerMinute } =
+    config.llm.rateLimit;
+  const ceiling = Math.max(maxConcurrent, 1);
+
+  let concurrency = ceiling;
+  let successes = 0;
+  let rateLimited = 0; // 429s in a row
+  let inFlight = 0;
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const recent: WindowEntry[] = [];
+  const queue: QueuedRequest[] = [];
+
+  // Milliseconds until a request of this size fits, 0 when it fits now
+  function delayFor(tokens: number, now: number): number {
+    if (now < pausedUntil) {
+      return pausedUntil - now;
+    }
+    while (recent.length > 0 && recent[0].at <= now - WINDOW_MS) {
+      recent.shift();
+    }
+    if (requestsPerMinute > 0 && recent.length >= requestsPerMinute) {
+      return recent[0].at + WINDOW_MS - now;
+    }
+    if (tokensPerMinute > 0) {
+      // A prompt larger than the whole budget waits for an empty window
+      const needed = Math.min(tokens, tokensPerMinute);
+      let used = recent.reduce((sum, entry) => sum + entry.tokens, 0);
+      let leaving = 0;
+      while (used + needed > tokensPerMinute) {
+        used -= recent[leaving++].tokens;
+      }
+      if (leaving > 0) {
+        return recent[leaving - 1].at + WINDOW_MS - now;
+      }
+    }
+    return 0;
+  }
+
+  function pump() {
+    clearTimeout(timer);
+    timer = undefined;
+
+    while (queue.length > 0 && inFlight < concurrency) {
+      const now = Date.now();
+      const delay = delayFor(queue[0].tokens, now);
+      if (delay > 0) {
+        timer = setTimeout(pump, delay);
+        return;
+      }
+
+      const next = queue.shift() as QueuedRequest;
+      const entry = { at: now, tokens: next.tokens };
+      recent.push(entry);
+      inFlight++;
+      next.start(entry);
+    }
+  }
+
+  return {
+    async schedule(tokens, signal, send) {
+      const entry = await new Promise<WindowEntry>((start, reject) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+          return;
+        }
+        // An abort only reaches requests still in the queue
+        const onAbort = () => {
+          queue.splice(queue.indexOf(queued), 1);
+          reject(signal?.reason);
+          pump();
+        };
+        const queued: QueuedRequest = {
+          tokens,
+          start: (started) => {
+            signal?.removeEventListener('abort', onAbort);
+            start(started);
+          },
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        queue.push(queued);
+        pump();
+      });
+
+      try {
+        const result = await send();
+        if (result.usage) {
+          entry.tokens = result.usage.totalTokens;
+        }
+        rateLimited = 0;
+        if (concurrency < ceiling && ++successes >= concurrency) {
+          concurrency++;
+          successes = 0;
+        }
+        return result;
+      } catch (error) {
+        const rateLimit = getRateLimit(error);
+        if (rateLimit) {
+          const pauseMs =
+            rateLimit.retryAfterMs ??
+            Math.min(2 ** rateLimited * 1000, MAX_PAUSE_MS);
+          rateLimited++;
+          pausedUntil = Math.max(pausedUntil, Date.now() + pauseMs);
+          concurrency = Math.max(Math.floor(concurrency / 2), 1);
+          successes = 0;
+          logger.warn(
+            { provider: providerId, pauseMs, concurrency },
+            'LLM rate limited, slowing down'
+          );
+        }
+        throw error;
+      } finally {
+        inFlight--;
+        pump();
+      }
+    },
+  };
+}
+
+/**
+ * Route a provider's completions and embeddings through its own scheduler,
+ * so every caller in the process shares the provider's limits
+ */
+export function withScheduler(provider: LLMProvider): LLMProvider {
+  const scheduler = createScheduler(provider.id);
+  const { embed } = provider;
+  return {
+    ...provider,
+    complete: (request) =>
+      scheduler.schedule(estimateRequestTokens(request), request.signal, () =>
+        provider.complete(request)
+      ),
+    ...(embed
+      ? {
+          embed: (request) =>
+            scheduler.schedule(
+              request.input.reduce(
+                (sum, text) => sum + estimateTokens(text),
+                0
+              ),
+              request.signal,
+              () => embed(request)
+            ),
+        }
+      : {}),
+  };
+}
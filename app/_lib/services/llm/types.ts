@@ -0,0 +1,75 @@
+export type LLMProviderKind =
+  | 'openai'
+  | 'azure-openai'
+  | 'anthropic'
+  | 'openai-compatible';
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LLMCompletionRequest {
+  model: string; // the provider's own model or deployment name
+  system: string;
+  user: string;
+  // Ask for a single JSON object, natively where the provider supports it
+  json: boolean;
+  // Ensemble sample index; samples after the first vary the seed or
+  // temperature so they don't all return the same answer
+  sample?: number;
+  // Once aborted, requests still waiting for the scheduler are rejected with
+  // the abort reason; requests already sent finish
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+  content: string;
+  usage: LLMUsage | null; // null when the server doesn't report it
+}
+
+export interface LLMEmbeddingRequest {
+  model: string;
+  input: string[];
+  signal?: AbortSignal; // as for completions
+}
+
+export interface LLMEmbeddings {
+  embeddings: number[][]; // in the order of the input
+  usage: LLMUsage | null;
+}
+
+// One entry of the model picker
+export interface LLMModelOption {
+  id: string; // '<provider>:<model>', what requests send as `model`
+  provider: string;
+  providerName: string;
+  model: string;
+}
+
+/**
+ * A chat model vendor or server the estimator can send prompts to. Each is
+ * listed only when its credentials or endpoint are configured.
+ */
+export interface LLMProvider {
+  id: string; // 'openai', 'azure', 'anthropic' or a compatible server's id
+  kind: LLMProviderKind;
+  name: string; // for the model picker, e.g. 'Azure OpenAI'
+  models: string[];
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+  // Only on providers that serve embedding models with the same credentials
+  embed?(request: LLMEmbeddingRequest): Promise<LLMEmbeddings>;
+}
+
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    // From a Retry-After header on a 429
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'LLMRequestError';
+  }
+}
@@ -0,0 +1,551 @@
+import type { Octokit } from 'octokit';
+import logger from '@/app/_lib/utils/logger';
+import { IssueEstimation, isEstimated } from './ai';
+import { ProjectInfo, parseGitHubProjectUrl } from './github';
+import { GitHubClientOptions, createGitHubClient } from './githubClient';
+
+// IssueEstimation properties that can be written to a project field
+export type ProjectMappableField = 'estimatedCost' | 'complexity';
+
+// Project field name per estimation property, e.g. { estimatedCost: 'Budget' }
+export type ProjectFieldMapping = Partial<Record<ProjectMappableField, string>>;
+
+export interface ProjectWriteBackOptions {
+  projectUrl: string;
+  fields: ProjectFieldMapping;
+  dryRun: boolean; // only compute the diff
+}
+
+type ProjectFieldValue =
+  | { number: number }
+  | { text: string }
+  | { singleSelectOptionId: string };
+
+export interface ProjectFieldChange {
+  field: string;
+  fieldId: string;
+  from: string | number | null;
+  to: string | number;
+  value: ProjectFieldValue; // payload for updateProjectV2ItemFieldValue
+}
+
+export interface ProjectItemPlan {
+  repository: string;
+  issueNumber: number;
+  issueUrl: string;
+  itemId: string | null; // null until the issue is added to the project
+  addToProject: boolean;
+  changes: ProjectFieldChange[];
+  warnings: string[];
+  status?: 'updated' | 'unchanged' | 'failed'; // set once applied
+  error?: string;
+}
+
+export interface ProjectWriteBackResult {
+  project: { id: string; title: string; url: string };
+  dryRun: boolean;
+  items: ProjectItemPlan[];
+  summary: {
+    itemsToAdd: number;
+    fieldChanges: number;
+    unchanged: number;
+    failed: number;
+  };
+}
+
+interface ProjectField {
+  id: string;
+  name: string;
+  dataType: string;
+  options?: Array<{ id: string; name: string }>;
+}
+
+interface ProjectItemFieldValue {
+  number?: number | null;
+  text?: string | null;
+  name?: string | null; // single-select option name
+  field?: { id?: string };
+}
+
+interface GraphQLProjectResponse {
+  projectOwner: {
+    projectV2: {
+      id: string;
+      title: string;
+      url: string;
+      fields: { nodes: Array<Partial<ProjectField>> };
+      items: {
+        nodes: Array<{
+          id: string;
+          content: { url?: string } | null;
+          fieldValues: { nodes: ProjectItemFieldValue[] };
+        }>;
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      };
+    } | null;
+  } | null;
+}
+
+// The owner type can't be a variable, so the root field is filled in per call
+const projectQuery = (ownerType: ProjectInfo['ownerType']) => `
+  query ($owner: String!, $number: Int!, $cursor: String) {
+    projectOwner: ${ownerType}(login: $owner) {
+      projectV2(number: $number) {
+        id
+        title
+        url
+        fields(first: 50) {
+          nodes {
+            ... on ProjectV2FieldCommon {
+              id
+              name
+              dataType
+            }
+            ... on ProjectV2SingleSelectField {
+              options {
+                id
+                name
+              }
+            }
+          }
+        }
+        items(first: 100, after: $cursor) {
+          nodes {
+            id
+            content {
+              ... on Issue {
+                url
+              }
+            }
+            fieldValues(first: 50) {
+              nodes {
+                ... on ProjectV2ItemFieldNumberValue {
+                  number
+                  field {
+                    ... on ProjectV2FieldCommon {
+                      id
+                    }
+                  }
+                }
+                ... on ProjectV2ItemFieldTextValue {
+                  text
+                  field {
+                    ... on ProjectV2FieldCommon {
+                      id
+                    }
+                  }
+                }
+                ... on ProjectV2ItemFieldSingleSelectValue {
+                  name
+                  field {
+                    ... on ProjectV2FieldCommon {
+                      id
+                    }
+                  }
+                }
+              }
+            }
+          }
+          pageInfo {
+            hasNextPage
+            endCursor
+          }
+        }
+      }
+    }
+  }
+`;
+
+const ISSUE_NODE_QUERY = `
+  query ($issueUrl: URI!) {
+    resource(url: $issueUrl) {
+      ... on Issue {
+        id
+      }
+    }
+  }
+`;
+
+const ADD_ITEM_MUTATION = `
+  mutation ($projectId: ID!, $contentId: ID!) {
+    addProjectV2ItemById(input: { projectId: $projectId, contentId: $contentId }) {
+      item {
+        id
+      }
+    }
+  }
+`;
+
+const UPDATE_FIELD_MUTATION = `
+  mutation ($projectId: ID!, $itemId: ID!, $fieldId: ID!, $value: ProjectV2FieldValue!) {
+    updateProjectV2ItemFieldValue(
+      input: { projectId: $projectId, itemId: $itemId, fieldId: $fieldId, value: $value }
+    ) {
+      projectV2Item {
+        id
+      }
+    }
+  }
+`;
+
+const MAPPABLE_FIELDS: ProjectMappableField[] = ['estimatedCost', 'complexity'];
+
+/**
+ * Validate a write-back spec from a request body. Returns null options when
+ * write-back wasn't requested. Dry-run is the default so nothing is written
+ * unless the caller explicitly sets dryRun: false.
+ */
+export function parseProjectWriteBack(
+  input: unknown
+): { options: ProjectWriteBackOptions | null } | { error: string } {
+  if (input === undefined || input === null) {
+    return { options: null };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { error: 'projectWriteBack must be an object' };
+  }
+
+  const raw = input as Record<string, unknown>;
+
+  if (
+    typeof raw.projectUrl !== 'string' ||
+    !parseGitHubProjectUrl(raw.projectUrl)
+  ) {
+    return { error: 'Invalid GitHub project URL' };
+  }
+
+  if (
+    !raw.fields ||
+    typeof raw.fields !== 'object' ||
+    Array.isArray(raw.fields)
+  ) {
+    return {
+      error: 'fields must map estimation properties to project field names',
+    };
+  }
+
+  const fields: ProjectFieldMapping = {};
+  for (const [key, value] of Object.entries(
+    raw.fields as Record<string, unknown>
+  )) {
+    if (!MAPPABLE_FIELDS.includes(key as ProjectMappableField)) {
+      return { error: `Unsupported field mapping: ${key}` };
+    }
+    if (typeof value === 'string' && value.trim()) {
+      fields[key as ProjectMappableField] = value.trim();
+    }
+  }
+  if (Object.keys(fields).length === 0) {
+    return { error: 'At least one field mapping is required' };
+  }
+
+  return {
+    options: {
+      projectUrl: raw.projectUrl,
+      fields,
+      dryRun: raw.dryRun !== false,
+    },
+  };
+}
+
+async function fetchProject(octokit: Octokit, projectInfo: ProjectInfo) {
+  const items = new Map<
+    string,
+    { id: string; values: ProjectItemFieldValue[] }
+  >();
+  let project: NonNullable<
+    GraphQLProjectResponse['projectOwner']
+  >['projectV2'] = null;
+  let cursor: string | null = null;
+
+  do {
+    const response: GraphQLProjectResponse = await octokit.graphql(
+      projectQuery(projectInfo.ownerType),
+      {
+        owner: projectInfo.owner,
+        number: projectInfo.number,
+        cursor,
+        // Always read the board as it is now; it may have just been written
+        request: { skipCache: true },
+      }
+    );
+
+    project = response.projectOwner?.projectV2 ?? null;
+    if (!project) {
+      throw new Error(
+        `Project ${projectInfo.owner}/${projectInfo.number} not found or not accessible`
+      );
+    }
+
+    for (const item of project.items.nodes) {
+      if (item.content?.url) {
+        items.set(item.content.url, {
+          id: item.id,
+          values: item.fieldValues.nodes,
+        });
+      }
+    }
+
+    cursor = project.items.pageInfo.hasNextPage
+      ? project.items.pageInfo.endCursor
+      : null;
+  } while (cursor);
+
+  const fields = project.fields.nodes.filter((field): field is ProjectField =>
+    Boolean(field.id && field.name)
+  );
+
+  return {
+    id: project.id,
+    title: project.title,
+    url: project.url,
+    fields,
+    items,
+  };
+}
+
+function currentValue(
+  values: ProjectItemFieldValue[] | undefined,
+  fieldId: string
+): string | number | null {
+  const value = values?.find((entry) => entry.field?.id === fieldId);
+  if (!value) {
+    return null;
+  }
+  return value.number ?? value.text ?? value.name ?? null;
+}
+
+/**
+ * Turn an estimation property into the value a field of this type accepts.
+ * Single-select options are matched by name, case-insensitively.
+ */
+function toFieldValue(
+  field: ProjectField,
+  raw: string | number
+):
+  | { display: string | number; value: ProjectFieldValue }
+  | { warning: string } {
+  switch (field.dataType) {
+    case 'NUMBER': {
+      const number = Number(raw);
+      if (isNaN(number)) {
+        return {
+          warning: `${field.name} is a number field, "${raw}" is not a number`,
+        };
+      }
+      return { display: number, value: { number } };
+    }
+    case 'TEXT':
+      return { display: String(raw), value: { text: String(raw) } };
+    case 'SINGLE_SELECT': {
+      const option = field.options?.find(
+        (candidate) =>
+          candidate.name.toLowerCase() === String(raw).toLowerCase()
+      );
+      if (!option) {
+        return { warning: `${field.name} has no option named "${raw}"` };
+      }
+      return {
+        display: option.name,
+        value: { singleSelectOptionId: option.id },
+      };
+    }
+    default:
+      return {
+        warning: `${field.name} is a ${field.dataType} field, which can't be written`,
+      };
+  }
+}
+
+function summarize(
+  items: ProjectItemPlan[]
+): ProjectWriteBackResult['summary'] {
+  return {
+    itemsToAdd: items.filter((item) => item.addToProject).length,
+    fieldChanges: items.reduce((sum, item) => sum + item.changes.length, 0),
+    unchanged: items.filter(
+      (item) => !item.addToProject && item.changes.length === 0
+    ).length,
+    failed: items.filter((item) => item.status === 'failed').length,
+  };
+}
+
+async function applyItemPlan(
+  octokit: Octokit,
+  projectId: string,
+  item: ProjectItemPlan
+): Promise<void> {
+  let itemId = item.itemId;
+
+  if (!itemId) {
+    const issue: { resource: { id?: string } | null } = await octokit.graphql(
+      ISSUE_NODE_QUERY,
+      { issueUrl: item.issueUrl }
+    );
+    if (!issue.resource?.id) {
+      throw new Error(`Issue ${item.issueUrl} not found`);
+    }
+
+    const added: { addProjectV2ItemById: { item: { id: string } } } =
+      await octokit.graphql(ADD_ITEM_MUTATION, {
+        projectId,
+        contentId: issue.resource.id,
+      });
+    itemId = added.addProjectV2ItemById.item.id;
+    item.itemId = itemId;
+  }
+
+  for (const change of item.changes) {
+    await octokit.graphql(UPDATE_FIELD_MUTATION, {
+      projectId,
+      itemId,
+      fieldId: change.fieldId,
+      value: change.value,
+    });
+  }
+}
+
+// The host a write-back goes to; parseProjectWriteBack checked the URL
+export function getProjectHost(options: ProjectWriteBackOptions): string {
+  return parseGitHubProjectUrl(options.projectUrl)?.host ?? '';
+}
+
+/**
+ * Diff estimations against a GitHub Project (v2) and, unless this is a dry
+ * run, add missing issues to the project and write the mapped fields. Items
+ * are applied one by one so a failure only affects that issue.
+ */
+export async function writeEstimationsToProject(
+  estimations: IssueEstimation[],
+  options: ProjectWriteBackOptions,
+  getClientOptions: (host: string) => GitHubClientOptions
+): Promise<ProjectWriteBackResult> {
+  const projectInfo = parseGitHubProjectUrl(options.projectUrl);
+  if (!projectInfo) {
+    throw new Error('Invalid GitHub project URL');
+  }
+
+  const octokit = createGitHubClient(getClientOptions(projectInfo.host));
+
+  logger.info(
+    {
+      project: options.projectUrl,
+      fields: options.fields,
+      dryRun: options.dryRun,
+    },
+    'Planning project write-back'
+  );
+
+  const project = await fetchProject(octokit, projectInfo);
+
+  const mappedFields: Array<{
+    property: ProjectMappableField;
+    field: ProjectField;
+  }> = [];
+  const missingFields: string[] = [];
+  for (const [property, name] of Object.entries(options.fields)) {
+    const field = project.fields.find(
+      (candidate) => candidate.name.toLowerCase() === name.toLowerCase()
+    );
+    if (field) {
+      mappedFields.push({ property: property as ProjectMappableField, field });
+    } else {
+      missingFields.push(`"${name}"`);
+    }
+  }
+
+  if (missingFields.length > 0) {
+    throw new Error(
+      `Project "${project.title}" has no field named ${missingFields.join(', ')}`
+    );
+  }
+
+  // Failed estimates have no cost or complexity to write
+  const estimated = estimations.filter(isEstimated);
+  const items: ProjectItemPlan[] = estimated.map((estimation) => {
+    const existing = project.items.get(estimation.url);
+    const plan: ProjectItemPlan = {
+      repository: estimation.repository,
+      issueNumber: estimation.issueNumber,
+      issueUrl: estimation.url,
+      itemId: existing?.id ?? null,
+      addToProject: !existing,
+      changes: [],
+      warnings: [],
+    };
+
+    for (const { property, field } of mappedFields) {
+      const target = toFieldValue(field, estimation[property]);
+      if ('warning' in target) {
+        plan.warnings.push(target.warning);
+        continue;
+      }
+
+      const from = currentValue(existing?.values, field.id);
+      if (from !== null && String(from) === String(target.display)) {
+        continue;
+      }
+
+      plan.changes.push({
+        field: field.name,
+        fieldId: field.id,
+        from,
+        to: target.display,
+        value: target.value,
+      });
+    }
+
+    return plan;
+  });
+
+  if (!options.dryRun) {
+    for (const item of items) {
+      if (!item.addToProject && item.changes.length === 0) {
+        item.status = 'unchanged';
+        continue;
+      }
+      try {
+        await applyItemPlan(octokit, project.id, item);
+        item.status = 'updated';
+      } catch (error) {
+        logger.error(
+          { error, issueUrl: item.issueUrl },
+          'Failed to write estimate to project'
+        );
+        item.status = 'failed';
+        item.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+    }
+  }
+
+  const result: ProjectWriteBackResult = {
+    project: { id: project.id, title: project.title, url: project.url },
+    dryRun: options.dryRun,
+    items,
+    summary: summarize(items),
+  };
+
+  logger.info(
+    { project: project.url, dryRun: options.dryRun, summary: result.summary },
+    'Project write-back finished'
+  );
+
+  return result;
+}
+
+/**
+ * One line per pending change, for logs and the SSE stream
+ */
+export function formatProjectItemPlan(item: ProjectItemPlan): string {
+  const parts = [
+    ...(item.addToProject ? ['add to project'] : []),
+    ...item.changes.map(
+      (change) => `${change.field}: ${change.from ?? '(empty)'} -> ${change.to}`
+    ),
+    ...item.warnings.map((warning) => `warning: ${warning}`),
+  ];
+  const status = item.status
+    ? ` [${item.status}${item.error ? `: ${item.error}` : ''}]`
+    : '';
+  return `${item.repository}#${item.issueNumber}: ${parts.length > 0 ? parts.join('; ') : 'no changes'}${status}`;
+}
@@ -1,45 +1,60 @@
-import { EstimationParams } from './ai';
+import { ComplexityBudgetRange, EstimationParams } from './ai';
 import { EnrichedIssue, RepoContext, formatRepoContextSummary, formatIssueSummary } from './github';
+import { formatCalibration } from './calibration';
+import { formatCodeExcerpts } from './codeContext';
+import { RateCard, resolveEffortOptions } from './effort';
 
 /**
- * Generate the system prompt for issue estimation
+ * Budget range of each complexity level: the custom ranges when all four
+ * are given, otherwise the overall range split 25/35/25/15
  */
-export function generateSystemPrompt(params: EstimationParams): string {
-  // Calculate budget ranges - use custom ranges if provided, otherwise divide equally
-  const calculateBudgetRanges = () => {
-    if (params.complexityBudgets?.low && params.complexityBudgets?.medium &&
-        params.complexityBudgets?.high && params.complexityBudgets?.critical) {
-      return {
-        low: params.complexityBudgets.low,
-        medium: params.complexityBudgets.medium,
-        high: params.complexityBudgets.high,
-        critical: params.complexityBudgets.critical,
-      };
-    }
-
-    // Fallback: divide equally
-    const range = params.maxBudget - params.minBudget;
+export function getBudgetRanges(
+  params: EstimationParams
+): Record<'low' | 'medium' | 'high' | 'critical', ComplexityBudgetRange> {
+  if (params.complexityBudgets?.low && params.complexityBudgets?.medium &&
+      params.complexityBudgets?.high && params.complexityBudgets?.critical) {
     return {
-      low: {
-        min: params.minBudget,
-        max: Math.round(params.minBudget + range * 0.25)
-      },
-      medium: {
-        min: Math.round(params.minBudget + range * 0.25),
-        max: Math.round(params.minBudget + range * 0.6)
-      },
-      high: {
-        min: Math.round(params.minBudget + range * 0.6),
-        max: Math.round(params.minBudget + range * 0.85)
-      },
-      critical: {
-        min: Math.round(params.minBudget + range * 0.85),
-        max: params.maxBudget
-      },
+      low: params.complexityBudgets.low,
+      medium: params.complexityBudgets.medium,
+      high: params.complexityBudgets.high,
+      critical: params.complexityBudgets.critical,
     };
+  }
+
+  // Fallback: divide equally
+  const range = params.maxBudget - params.minBudget;
+  return {
+    low: {
+      min: params.minBudget,
+      max: Math.round(params.minBudget + range * 0.25)
+    },
+    medium: {
+      min: Math.round(params.minBudget + range * 0.25),
+      max: Math.round(params.minBudget + range * 0.6)
+    },
+    high: {
+      min: Math.round(params.minBudget + range * 0.6),
+      max: Math.round(params.minBudget + range * 0.85)
+    },
+    critical: {
+      min: Math.round(params.minBudget + range * 0.85),
+      max: params.maxBudget
+    },
   };
+}
 
-  const budgetRanges = calculateBudgetRanges();
+/**
+ * Generate the system prompt for issue estimation. In the effort mode the
+ * model estimates hours per role of the rate card instead of a cost; the
+ * rates themselves are left out so they can't anchor the hours.
+ */
+export function generateSystemPrompt(params: EstimationParams): string {
+  const effort = resolveEffortOptions(params.effort);
+  if (effort) {
+    return generateEffortSystemPrompt(effort.rateCard);
+  }
+
+  const budgetRanges = getBudgetRanges(params);
 
   return `You are an expert software engineering project manager specializing in cost estimation for software development tasks.
 
@@ -49,6 +64,7 @@ Your task is to analyze GitHub issues and estimate their complexity and developm
 - Labels (e.g., bug, feature, enhancement, documentation)
 - Technical keywords and scope indicators
 - Repository context (languages used, repository size, test coverage)
+- Comparable closed issues from the same repository, when provided
 
 **Complexity Categories and Budget Ranges**
 
@@ -74,6 +90,7 @@ Estimate the cost according to these complexity levels:
 4. Be realistic and stingy about the cost estimation, consider lower than the industry open source contribution standards.
 5. Be frugal. Consider the time and labour while estimating
 6. Provide clear reasoning for your estimation (2-3 sentences)
+7. When comparable closed issues are listed, use the size, review rounds and time to merge of their pull requests as a reference for how much work this repository's changes take
 
 The estimatedCost MUST be a specific number (not a range) within the appropriate complexity level's budget range.
 
@@ -97,6 +114,64 @@ If there is an error, respond with:
 `;
 }
 
+function generateEffortSystemPrompt(rateCard: RateCard): string {
+  const roles = Object.keys(rateCard);
+
+  return `You are an expert software engineering project manager specializing in effort estimation for software development tasks.
+
+Your task is to analyze GitHub issues and estimate their complexity and the hours each role needs to resolve them, based on these factors:
+- Issue description and technical requirements
+- Number and content of comments
+- Labels (e.g., bug, feature, enhancement, documentation)
+- Technical keywords and scope indicators
+- Repository context (languages used, repository size, test coverage)
+- Comparable closed issues from the same repository, when provided
+
+**Complexity Categories**
+
+- **Low**: Simple bug fixes, minor text changes, documentation updates, configuration tweaks
+- **Medium**: Feature enhancements, moderate refactoring, standard API integrations, UI improvements
+- **High**: New major features, complex integrations, architectural changes, performance optimization
+- **Critical**: Large-scale refactoring, security overhauls, complete system redesigns, complex distributed systems
+
+**Roles**
+
+Estimate hours for each of these roles: ${roles.join(', ')}.
+
+**Instructions**
+
+1. Carefully analyze the issue details and repository context
+2. Determine the appropriate complexity category
+3. Estimate the hours each role spends on the issue, in steps of 0.5 hours. A role with no part in the work gets 0
+4. Be realistic and frugal: count the hours an experienced contributor to this repository needs, not a padded quote
+5. Include the time to write tests and respond to review for the roles that do that work
+6. Provide clear reasoning for your estimation (2-3 sentences), naming what drives the hours
+7. When comparable closed issues are listed, use the size, review rounds and time to merge of their pull requests as a reference for how much work this repository's changes take
+
+Every role above MUST appear in "hours" with a single number (not a range).
+
+If any required GitHub issue data is missing (such as absent labels, empty repository context,
+or incomplete issue description), include this in your reasoning, estimate based on the available data,
+and state any limitations.
+
+Respond only in valid JSON format as specified below.
+
+## Output Format
+{
+  "complexity": "low" | "medium" | "high" | "critical",
+  "hours": {
+${roles.map((role) => `    "${role}": number`).join(',\n')}
+  },
+  "reasoning": "Brief explanation of the estimation (2-3 sentences)"
+}
+
+If there is an error, respond with:
+{
+  "error": "Explanation of the error."
+}
+`;
+}
+
 /**
  * Generate the user prompt with issue and repo context
  */
@@ -104,13 +179,31 @@ export function generateUserPrompt(
   repoContext: RepoContext,
   issue: EnrichedIssue
 ): string {
+  const codeSection = issue.codeExcerpts?.length
+    ? `
+
+---
+
+**Referenced Code (${repoContext.defaultBranch}):**
+${formatCodeExcerpts(issue.codeExcerpts)}`
+    : '';
+
+  const calibrationSection = issue.calibration
+    ? `
+
+---
+
+**Comparable Closed Issues in This Repository:**
+${formatCalibration(issue.calibration)}`
+    : '';
+
   return `**Repository Context:**
 ${formatRepoContextSummary(repoContext)}
 
 ---
 
 **Issue to Estimate:**
-${formatIssueSummary(issue)}
+${formatIssueSummary(issue)}${codeSection}${calibrationSection}
 
 ---
 
@@ -0,0 +1,367 @@
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import { IssueFilters, applyIssueFilters } from '../issueFilters';
+import { buildRepoProfile } from '../repoProfiler';
+import {
+  findProviderHost,
+  parseProviderHosts,
+  splitProviderUrl,
+} from './hosts';
+import { fetchAllPages, fetchJson } from './http';
+import {
+  EnrichedIssue,
+  IssueComment,
+  IssueInfo,
+  IssueProvider,
+  ProviderClientOptions,
+  ProviderHostConfig,
+  RepoContext,
+  RepoInfo,
+} from './types';
+
+// Gitea caps list pages at 50 by default (MAX_RESPONSE_ITEMS)
+const PER_PAGE = 50;
+const TREE_PER_PAGE = 1000;
+const MAX_TREE_PAGES = 10;
+
+interface GiteaUser {
+  login: string;
+}
+
+interface GiteaIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  state: string;
+  labels: { name: string }[];
+  created_at: string;
+  updated_at: string;
+  comments: number;
+  html_url: string;
+  user: GiteaUser | null;
+  assignees: GiteaUser[] | null;
+  milestone: { id: number; title: string; due_on: string | null } | null;
+  is_locked?: boolean;
+  pull_request: unknown; // set when the number belongs to a pull request
+}
+
+interface GiteaComment {
+  id: number;
+  body: string;
+  created_at: string;
+  user: GiteaUser | null;
+}
+
+interface GiteaRepository {
+  name: string;
+  full_name: string;
+  description: string;
+  stars_count: number;
+  forks_count: number;
+  open_issues_count: number;
+  size: number; // in KB
+  created_at: string;
+  updated_at: string;
+  default_branch: string;
+  topics?: string[] | null;
+  licenses?: string[] | null;
+}
+
+interface GiteaTree {
+  tree: { path: string; type: string }[] | null;
+  truncated: boolean;
+}
+
+let hostConfigs: ProviderHostConfig[] | undefined;
+
+// Gitea has no public default host, so only GITEA_HOSTS entries are known
+function getGiteaHosts(): ProviderHostConfig[] {
+  hostConfigs ??= parseProviderHosts(
+    config.gitea.hosts,
+    '/api/v1',
+    'GITEA_HOSTS'
+  );
+  return hostConfigs;
+}
+
+function findGiteaHost(host: string) {
+  return findProviderHost(getGiteaHosts(), host);
+}
+
+function getApi(clientOptions: ProviderClientOptions) {
+  const hostConfig = findGiteaHost(clientOptions.host || '');
+  if (!hostConfig) {
+    throw new Error(`Gitea host ${clientOptions.host} is not configured`);
+  }
+  const token = clientOptions.token || hostConfig.token;
+  return {
+    apiUrl: hostConfig.apiUrl,
+    headers: token
+      ? { Authorization: `token ${token}` }
+      : ({} as Record<string, string>),
+  };
+}
+
+function repoPath(repoInfo: RepoInfo): string {
+  return `repos/${encodeURIComponent(repoInfo.owner)}/${encodeURIComponent(repoInfo.repo)}`;
+}
+
+function parseGiteaRepoUrl(repoLink: string): RepoInfo | null {
+  const parts = splitProviderUrl(repoLink, findGiteaHost);
+  if (!parts || parts.segments.length < 2) {
+    return null;
+  }
+
+  const [owner, repo] = parts.segments;
+  return { host: parts.host, owner, repo };
+}
+
+function parseGiteaIssueUrl(issueLink: string): IssueInfo | null {
+  const parts = splitProviderUrl(issueLink, findGiteaHost);
+  if (!parts) {
+    return null;
+  }
+
+  const [owner, repo, kind, number] = parts.segments;
+  if (!owner || !repo || kind !== 'issues' || !/^\d+$/.test(number ?? '')) {
+    return null;
+  }
+
+  return { host: parts.host, owner, repo, issueNumber: parseInt(number, 10) };
+}
+
+function mapGiteaIssue(
+  issue: GiteaIssue,
+  comments: IssueComment[]
+): EnrichedIssue {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: issue.body,
+    labels: issue.labels.map((label) => label.name),
+    state: issue.state,
+    createdAt: issue.created_at,
+    updatedAt: issue.updated_at,
+    comments,
+    commentCount: issue.comments,
+    url: issue.html_url,
+    author: issue.user?.login || 'unknown',
+    assignees: (issue.assignees ?? []).map((assignee) => assignee.login),
+    milestone: issue.milestone
+      ? {
+          number: issue.milestone.id,
+          title: issue.milestone.title,
+          dueOn: issue.milestone.due_on,
+        }
+      : null,
+    // Reactions are a separate request per issue, which the estimate can do without
+    reactions: { total: 0, byType: {} },
+    locked: issue.is_locked ?? false,
+    linkedPullRequests: [],
+    referencedIssues: [],
+  };
+}
+
+async function fetchGiteaComments(
+  issueInfo: IssueInfo,
+  clientOptions: ProviderClientOptions
+): Promise<IssueComment[]> {
+  const { apiUrl, headers } = getApi(clientOptions);
+  const { items } = await fetchAllPages<GiteaComment>(
+    (page) =>
+      `${apiUrl}/${repoPath(issueInfo)}/issues/${issueInfo.issueNumber}/comments?limit=${PER_PAGE}&page=${page}`,
+    headers,
+    PER_PAGE
+  );
+
+  return items.map((comment) => ({
+    id: comment.id,
+    body: comment.body || '',
+    createdAt: comment.created_at,
+    author: comment.user?.login || 'unknown',
+  }));
+}
+
+// The tree endpoint wraps its pages in an object, so it can't use fetchAllPages
+async function fetchGiteaTree(
+  base: string,
+  ref: string,
+  headers: Record<string, string>
+): Promise<{ paths: string[]; truncated: boolean }> {
+  const paths: string[] = [];
+
+  for (let page = 1; page <= MAX_TREE_PAGES; page++) {
+    const data = await fetchJson<GiteaTree>(
+      `${base}/git/trees/${encodeURIComponent(ref)}?recursive=true&per_page=${TREE_PER_PAGE}&page=${page}`,
+      headers
+    );
+    const entries = data.tree ?? [];
+    paths.push(
+      ...entries
+        .filter((entry) => entry.type === 'blob')
+        .map((entry) => entry.path)
+    );
+    if (!data.truncated || entries.length === 0) {
+      return { paths, truncated: false };
+    }
+  }
+
+  return { paths, truncated: true };
+}
+
+async function fetchGiteaRepoContext(
+  repoInfo: RepoInfo,
+  clientOptions: ProviderClientOptions
+): Promise<RepoContext> {
+  const { apiUrl, headers } = getApi(clientOptions);
+  const base = `${apiUrl}/${repoPath(repoInfo)}`;
+
+  logger.info(repoInfo, 'Fetching Gitea repository context');
+
+  const repository = await fetchJson<GiteaRepository>(base, headers);
+  const languages = await fetchJson<Record<string, number>>(
+    `${base}/languages`,
+    headers
+  );
+  const primaryLanguage =
+    Object.entries(languages).sort(([, a], [, b]) => b - a)[0]?.[0] ?? null;
+
+  let profile = null;
+  try {
+    const { paths, truncated } = await fetchGiteaTree(
+      base,
+      repository.default_branch,
+      headers
+    );
+    profile = buildRepoProfile(paths, truncated);
+  } catch (error) {
+    logger.warn(
+      { error, ...repoInfo },
+      'Failed to profile Gitea repository tree'
+    );
+  }
+
+  return {
+    name: repository.name,
+    fullName: repository.full_name,
+    description: repository.description || null,
+    languages,
+    primaryLanguage,
+    stars: repository.stars_count,
+    forks: repository.forks_count,
+    openIssuesCount: repository.open_issues_count,
+    size: repository.size,
+    createdAt: repository.created_at,
+    updatedAt: repository.updated_at,
+    defaultBranch: repository.default_branch,
+    hasTests:
+      !!profile &&
+      (profile.testFileCount > 0 || profile.testFrameworks.length > 0),
+    topics: repository.topics ?? [],
+    license: repository.licenses?.[0] ?? null,
+    profile,
+  };
+}
+
+async function listGiteaOpenIssues(
+  repoInfo: RepoInfo,
+  filters: IssueFilters,
+  clientOptions: ProviderClientOptions
+): Promise<EnrichedIssue[]> {
+  const { apiUrl, headers } = getApi(clientOptions);
+  // type=issues leaves out pull requests; every filter is re-applied locally
+  const query = new URLSearchParams({
+    state: 'open',
+    type: 'issues',
+    limit: String(PER_PAGE),
+  });
+  if (filters.includeLabels) {
+    query.set('labels', filters.includeLabels.join(','));
+  }
+  if (filters.author) {
+    query.set('created_by', filters.author);
+  }
+
+  logger.info({ ...repoInfo, filters }, 'Fetching open Gitea issues');
+
+  const { items } = await fetchAllPages<GiteaIssue>(
+    (page) => `${apiUrl}/${repoPath(repoInfo)}/issues?${query}&page=${page}`,
+    headers,
+    PER_PAGE
+  );
+  return applyIssueFilters(
+    items
+      .filter((issue) => !issue.pull_request)
+      .map((issue) => mapGiteaIssue(issue, [])),
+    filters
+  );
+}
+
+async function enrichGiteaIssues(
+  repoInfo: RepoInfo,
+  issues: EnrichedIssue[],
+  clientOptions: ProviderClientOptions
+): Promise<EnrichedIssue[]> {
+  const enrichedIssues: EnrichedIssue[] = [];
+  const concurrency = 5;
+  for (let i = 0; i < issues.length; i += concurrency) {
+    const chunk = issues.slice(i, i + concurrency);
+    enrichedIssues.push(
+      ...(await Promise.all(
+        chunk.map(async (issue) => ({
+          ...issue,
+          comments: await fetchGiteaComments(
+            { ...repoInfo, issueNumber: issue.number },
+            clientOptions
+          ),
+        }))
+      ))
+    );
+  }
+
+  return enrichedIssues;
+}
+
+async function fetchGiteaOpenIssues(
+  repoInfo: RepoInfo,
+  filters: IssueFilters,
+  clientOptions: ProviderClientOptions
+): Promise<EnrichedIssue[]> {
+  return enrichGiteaIssues(
+    repoInfo,
+    await listGiteaOpenIssues(repoInfo, filters, clientOptions),
+    clientOptions
+  );
+}
+
+async function fetchGiteaIssue(
+  issueInfo: IssueInfo,
+  clientOptions: ProviderClientOptions
+): Promise<EnrichedIssue | null> {
+  const { apiUrl, headers } = getApi(clientOptions);
+  const issue = await fetchJson<GiteaIssue>(
+    `${apiUrl}/${repoPath(issueInfo)}/issues/${issueInfo.issueNumber}`,
+    headers
+  );
+  if (issue.pull_request) {
+    return null;
+  }
+  return mapGiteaIssue(
+    issue,
+    await fetchGiteaComments(issueInfo, clientOptions)
+  );
+}
+
+export const giteaProvider: IssueProvider = {
+  kind: 'gitea',
+  name: 'Gitea',
+  hasHost: (host) => Boolean(findGiteaHost(host)),
+  parseRepoUrl: parseGiteaRepoUrl,
+  parseIssueUrl: parseGiteaIssueUrl,
+  fetchRepoContext: fetchGiteaRepoContext,
+  fetchOpenIssues: fetchGiteaOpenIssues,
+  listOpenIssues: listGiteaOpenIssues,
+  enrichIssues: enrichGiteaIssues,
+  fetchIssue: fetchGiteaIssue,
+  fetchIssueComments: fetchGiteaComments,
+};
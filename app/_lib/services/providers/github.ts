@@ -0,0 +1,59 @@
+import { attachCalibration } from '../calibration';
+import { attachCodeContext } from '../codeContext';
+import {
+  enrichIssueWithComments,
+  enrichListedIssues,
+  fetchEnrichedOpenIssues,
+  fetchIssueComments,
+  fetchRepoContext,
+  listOpenIssues,
+  parseGitHubIssueUrl,
+  parseGitHubRepoUrl,
+} from '../github';
+import { createGitHubClient, findGitHubHost } from '../githubClient';
+import { IssueProvider } from './types';
+
+// github.com and GitHub Enterprise Server, on top of the existing GitHub services
+export const githubProvider: IssueProvider = {
+  kind: 'github',
+  name: 'GitHub',
+  hasHost: (host) => Boolean(findGitHubHost(host)),
+  parseRepoUrl: parseGitHubRepoUrl,
+  parseIssueUrl: parseGitHubIssueUrl,
+
+  fetchRepoContext: ({ owner, repo }, clientOptions) =>
+    fetchRepoContext(owner, repo, clientOptions),
+
+  fetchOpenIssues: ({ owner, repo }, filters, clientOptions) =>
+    fetchEnrichedOpenIssues(owner, repo, filters, clientOptions),
+
+  listOpenIssues: ({ owner, repo }, filters, clientOptions) =>
+    listOpenIssues(owner, repo, filters, clientOptions),
+
+  enrichIssues: ({ owner, repo }, issues, clientOptions) =>
+    enrichListedIssues(owner, repo, issues, clientOptions),
+
+  async fetchIssue({ owner, repo, issueNumber }, clientOptions) {
+    const octokit = createGitHubClient(clientOptions);
+    const { data: issue } = await octokit.rest.issues.get({
+      owner,
+      repo,
+      issue_number: issueNumber,
+    });
+
+    // The issues API serves pull requests too
+    if ('pull_request' in issue && issue.pull_request) {
+      return null;
+    }
+    return enrichIssueWithComments(owner, repo, issue, clientOptions);
+  },
+
+  fetchIssueComments: ({ owner, repo, issueNumber }, clientOptions) =>
+    fetchIssueComments(owner, repo, issueNumber, clientOptions),
+
+  attachCodeContext: ({ owner, repo }, repoContext, issues, clientOptions) =>
+    attachCodeContext(owner, repo, repoContext, issues, clientOptions),
+
+  attachCalibration: ({ owner, repo }, issues, clientOptions) =>
+    attachCalibration(owner, repo, issues, clientOptions),
+};
@@ -0,0 +1,393 @@
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import { IssueFilters, applyIssueFilters } from '../issueFilters';
+import { buildRepoProfile } from '../repoProfiler';
+import {
+  findProviderHost,
+  parseProviderHosts,
+  splitProviderUrl,
+} from './hosts';
+import { fetchAllPages, fetchJson } from './http';
+import {
+  EnrichedIssue,
+  IssueComment,
+  IssueInfo,
+  IssueProvider,
+  ProviderClientOptions,
+  ProviderHostConfig,
+  RepoContext,
+  RepoInfo,
+} from './types';
+
+const PER_PAGE = 100;
+const MAX_TREE_PAGES = 50;
+
+interface GitLabUser {
+  username: string;
+}
+
+interface GitLabIssue {
+  iid: number;
+  title: string;
+  description: string | null;
+  state: string; // 'opened' or 'closed'
+  labels: string[];
+  created_at: string;
+  updated_at: string;
+  user_notes_count: number;
+  web_url: string;
+  author: GitLabUser | null;
+  assignees?: GitLabUser[];
+  milestone: {
+    id: number;
+    iid?: number;
+    title: string;
+    due_date: string | null;
+  } | null;
+  upvotes: number;
+  downvotes: number;
+  discussion_locked: boolean | null;
+}
+
+interface GitLabNote {
+  id: number;
+  body: string;
+  created_at: string;
+  author: GitLabUser | null;
+  system: boolean; // "changed the description" and similar events
+}
+
+interface GitLabProject {
+  path: string;
+  path_with_namespace: string;
+  description: string | null;
+  star_count: number;
+  forks_count: number;
+  open_issues_count?: number;
+  created_at: string;
+  last_activity_at: string;
+  default_branch: string | null;
+  topics?: string[];
+  tag_list?: string[];
+  license?: { name: string } | null;
+  statistics?: { repository_size: number };
+}
+
+let hostConfigs: ProviderHostConfig[] | undefined;
+
+function getGitLabHosts(): ProviderHostConfig[] {
+  hostConfigs ??= [
+    {
+      host: 'gitlab.com',
+      apiUrl: 'https://gitlab.com/api/v4',
+      token: config.gitlab.token || undefined,
+    },
+    ...parseProviderHosts(config.gitlab.hosts, '/api/v4', 'GITLAB_HOSTS'),
+  ];
+  return hostConfigs;
+}
+
+function findGitLabHost(host: string) {
+  return findProviderHost(getGitLabHosts(), host);
+}
+
+function getApi(clientOptions: ProviderClientOptions) {
+  const hostConfig = findGitLabHost(clientOptions.host || '');
+  if (!hostConfig) {
+    throw new Error(`GitLab host ${clientOptions.host} is not configured`);
+  }
+  const token = clientOptions.token || hostConfig.token;
+  return {
+    apiUrl: hostConfig.apiUrl,
+    headers: token
+      ? { 'PRIVATE-TOKEN': token }
+      : ({} as Record<string, string>),
+  };
+}
+
+function projectPath(repoInfo: RepoInfo): string {
+  return `projects/${encodeURIComponent(`${repoInfo.owner}/${repoInfo.repo}`)}`;
+}
+
+/**
+ * Split URL segments into the project path and what follows it. GitLab puts
+ * a `-` segment between the two (group/project/-/issues/1); older links
+ * without it are recognized by their `issues` segment.
+ */
+function splitGitLabPath(segments: string[]): {
+  path: string[];
+  rest: string[];
+} {
+  const dash = segments.indexOf('-');
+  if (dash >= 0) {
+    return { path: segments.slice(0, dash), rest: segments.slice(dash + 1) };
+  }
+  const issues = segments.lastIndexOf('issues');
+  if (issues >= 2) {
+    return { path: segments.slice(0, issues), rest: segments.slice(issues) };
+  }
+  return { path: segments, rest: [] };
+}
+
+function parseGitLabRepoUrl(repoLink: string): RepoInfo | null {
+  const parts = splitProviderUrl(repoLink, findGitLabHost);
+  if (!parts) {
+    return null;
+  }
+
+  const { path } = splitGitLabPath(parts.segments);
+  if (path.length < 2) {
+    return null;
+  }
+
+  return {
+    host: parts.host,
+    owner: path.slice(0, -1).join('/'),
+    repo: path[path.length - 1],
+  };
+}
+
+function parseGitLabIssueUrl(issueLink: string): IssueInfo | null {
+  const parts = splitProviderUrl(issueLink, findGitLabHost);
+  if (!parts) {
+    return null;
+  }
+
+  const { path, rest } = splitGitLabPath(parts.segments);
+  if (path.length < 2 || rest[0] !== 'issues' || !/^\d+$/.test(rest[1] ?? '')) {
+    return null;
+  }
+
+  return {
+    host: parts.host,
+    owner: path.slice(0, -1).join('/'),
+    repo: path[path.length - 1],
+    issueNumber: parseInt(rest[1], 10),
+  };
+}
+
+function mapGitLabIssue(
+  issue: GitLabIssue,
+  comments: IssueComment[]
+): EnrichedIssue {
+  const byType: Record<string, number> = {};
+  if (issue.upvotes > 0) {
+    byType['+1'] = issue.upvotes;
+  }
+  if (issue.downvotes > 0) {
+    byType['-1'] = issue.downvotes;
+  }
+
+  return {
+    number: issue.iid,
+    title: issue.title,
+    body: issue.description,
+    labels: issue.labels,
+    state: issue.state === 'opened' ? 'open' : issue.state,
+    createdAt: issue.created_at,
+    updatedAt: issue.updated_at,
+    comments,
+    commentCount: issue.user_notes_count,
+    url: issue.web_url,
+    author: issue.author?.username || 'unknown',
+    assignees: (issue.assignees ?? []).map((assignee) => assignee.username),
+    milestone: issue.milestone
+      ? {
+          number: issue.milestone.iid ?? issue.milestone.id,
+          title: issue.milestone.title,
+          dueOn: issue.milestone.due_date,
+        }
+      : null,
+    reactions: { total: issue.upvotes + issue.downvotes, byType },
+    locked: issue.discussion_locked ?? false,
+    // GitLab has no cross-reference timeline to read these from
+    linkedPullRequests: [],
+    referencedIssues: [],
+  };
+}
+
+async function fetchGitLabComments(
+  issueInfo: IssueInfo,
+  clientOptions: ProviderClientOptions
+): Promise<IssueComment[]> {
+  const { apiUrl, headers } = getApi(clientOptions);
+  const { items } = await fetchAllPages<GitLabNote>(
+    (page) =>
+      `${apiUrl}/${projectPath(issueInfo)}/issues/${issueInfo.issueNumber}/notes?sort=asc&order_by=created_at&per_page=${PER_PAGE}&page=${page}`,
+    headers,
+    PER_PAGE
+  );
+
+  return items
+    .filter((note) => !note.system)
+    .map((note) => ({
+      id: note.id,
+      body: note.body || '',
+      createdAt: note.created_at,
+      author: note.author?.username || 'unknown',
+    }));
+}
+
+async function fetchGitLabRepoContext(
+  repoInfo: RepoInfo,
+  clientOptions: ProviderClientOptions
+): Promise<RepoContext> {
+  const { apiUrl, headers } = getApi(clientOptions);
+  const base = `${apiUrl}/${projectPath(repoInfo)}`;
+
+  logger.info(repoInfo, 'Fetching GitLab project context');
+
+  const project = await fetchJson<GitLabProject>(
+    `${base}?statistics=true&license=true`,
+    headers
+  );
+  // Percentages rather than bytes, which is all the summary needs
+  const languages = await fetchJson<Record<string, number>>(
+    `${base}/languages`,
+    headers
+  );
+  const primaryLanguage =
+    Object.entries(languages).sort(([, a], [, b]) => b - a)[0]?.[0] ?? null;
+  const defaultBranch = project.default_branch || 'main';
+
+  let profile = null;
+  try {
+    const { items, truncated } = await fetchAllPages<{
+      path: string;
+      type: string;
+    }>(
+      (page) =>
+        `${base}/repository/tree?recursive=true&ref=${encodeURIComponent(defaultBranch)}&per_page=${PER_PAGE}&page=${page}`,
+      headers,
+      PER_PAGE,
+      MAX_TREE_PAGES
+    );
+    profile = buildRepoProfile(
+      items.filter((entry) => entry.type === 'blob').map((entry) => entry.path),
+      truncated
+    );
+  } catch (error) {
+    logger.warn(
+      { error, ...repoInfo },
+      'Failed to profile GitLab repository tree'
+    );
+  }
+
+  return {
+    name: project.path,
+    fullName: project.path_with_namespace,
+    description: project.description,
+    languages,
+    primaryLanguage,
+    stars: project.star_count,
+    forks: project.forks_count,
+    openIssuesCount: project.open_issues_count ?? 0,
+    size: Math.round((project.statistics?.repository_size ?? 0) / 1024),
+    createdAt: project.created_at,
+    updatedAt: project.last_activity_at,
+    defaultBranch,
+    hasTests:
+      !!profile &&
+      (profile.testFileCount > 0 || profile.testFrameworks.length > 0),
+    topics: project.topics ?? project.tag_list ?? [],
+    license: project.license?.name ?? null,
+    profile,
+  };
+}
+
+async function listGitLabOpenIssues(
+  repoInfo: RepoInfo,
+  filters: IssueFilters,
+  clientOptions: ProviderClientOptions
+): Promise<EnrichedIssue[]> {
+  const { apiUrl, headers } = getApi(clientOptions);
+  // Labels and author narrow the listing; every filter is re-applied locally
+  const query = new URLSearchParams({
+    state: 'opened',
+    per_page: String(PER_PAGE),
+  });
+  if (filters.includeLabels) {
+    query.set('labels', filters.includeLabels.join(','));
+  }
+  if (filters.author) {
+    query.set('author_username', filters.author);
+  }
+
+  logger.info({ ...repoInfo, filters }, 'Fetching open GitLab issues');
+
+  const { items } = await fetchAllPages<GitLabIssue>(
+    (page) => `${apiUrl}/${projectPath(repoInfo)}/issues?${query}&page=${page}`,
+    headers,
+    PER_PAGE
+  );
+  return applyIssueFilters(
+    items.map((issue) => mapGitLabIssue(issue, [])),
+    filters
+  );
+}
+
+async function enrichGitLabIssues(
+  repoInfo: RepoInfo,
+  issues: EnrichedIssue[],
+  clientOptions: ProviderClientOptions
+): Promise<EnrichedIssue[]> {
+  const enrichedIssues: EnrichedIssue[] = [];
+  const concurrency = 5;
+  for (let i = 0; i < issues.length; i += concurrency) {
+    const chunk = issues.slice(i, i + concurrency);
+    enrichedIssues.push(
+      ...(await Promise.all(
+        chunk.map(async (issue) => ({
+          ...issue,
+          comments: await fetchGitLabComments(
+            { ...repoInfo, issueNumber: issue.number },
+            clientOptions
+          ),
+        }))
+      ))
+    );
+  }
+
+  return enrichedIssues;
+}
+
+async function fetchGitLabOpenIssues(
+  repoInfo: RepoInfo,
+  filters: IssueFilters,
+  clientOptions: ProviderClientOptions
+): Promise<EnrichedIssue[]> {
+  return enrichGitLabIssues(
+    repoInfo,
+    await listGitLabOpenIssues(repoInfo, filters, clientOptions),
+    clientOptions
+  );
+}
+
+async function fetchGitLabIssue(
+  issueInfo: IssueInfo,
+  clientOptions: ProviderClientOptions
+): Promise<EnrichedIssue> {
+  const { apiUrl, headers } = getApi(clientOptions);
+  const [issue, comments] = await Promise.all([
+    fetchJson<GitLabIssue>(
+      `${apiUrl}/${projectPath(issueInfo)}/issues/${issueInfo.issueNumber}`,
+      headers
+    ),
+    fetchGitLabComments(issueInfo, clientOptions),
+  ]);
+  return mapGitLabIssue(issue, comments);
+}
+
+export const gitlabProvider: IssueProvider = {
+  kind: 'gitlab',
+  name: 'GitLab',
+  hasHost: (host) => Boolean(findGitLabHost(host)),
+  parseRepoUrl: parseGitLabRepoUrl,
+  parseIssueUrl: parseGitLabIssueUrl,
+  fetchRepoContext: fetchGitLabRepoContext,
+  fetchOpenIssues: fetchGitLabOpenIssues,
+  listOpenIssues: listGitLabOpenIssues,
+  enrichIssues: enrichGitLabIssues,
+  fetchIssue: fetchGitLabIssue,
+  fetchIssueComments: fetchGitLabComments,
+};
@@ -0,0 +1,93 @@
+import logger from '@/app/_lib/utils/logger';
+import { ProviderHostConfig } from './types';
+
+/**
+ * Normalize a repository or issue link and split it into its host and path
+ * segments. Returns null unless findHost knows the host.
+ */
+export function splitProviderUrl(
+  link: string,
+  findHost: (host: string) => ProviderHostConfig | undefined
+): { host: string; segments: string[] } | null {
+  // Normalize the input: trim whitespace
+  let normalized = link.trim();
+
+  // Add https:// if no protocol is specified
+  if (!normalized.match(/^https?:\/\//)) {
+    normalized = `https://${normalized}`;
+  }
+
+  // Remove www. if present
+  normalized = normalized.replace(/^(https?:\/\/)www\./, '$1');
+
+  // Remove trailing slashes
+  normalized = normalized.replace(/\/+$/, '');
+
+  // Remove .git suffix if present
+  normalized = normalized.replace(/\.git$/, '');
+
+  let url: URL;
+  try {
+    url = new URL(normalized);
+  } catch {
+    return null;
+  }
+
+  // url.host keeps the port, so local mock servers can be configured as hosts
+  const hostConfig = findHost(url.host);
+  if (!hostConfig) {
+    return null;
+  }
+
+  return {
+    host: hostConfig.host,
+    segments: url.pathname.split('/').filter(Boolean),
+  };
+}
+
+/**
+ * Read a JSON array of hosts such as
+ * [{"host":"gitlab.example.com","apiUrl":"https://gitlab.example.com/api/v4","token":"..."}].
+ * apiUrl defaults to https://<host><apiPath>.
+ */
+export function parseProviderHosts(
+  raw: string,
+  apiPath: string,
+  envName: string
+): ProviderHostConfig[] {
+  if (!raw) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(raw) as Array<Partial<ProviderHostConfig>>;
+    return parsed.flatMap((entry) => {
+      if (!entry.host) {
+        logger.warn({ entry }, `Skipping ${envName} entry without a host name`);
+        return [];
+      }
+      const host = entry.host.toLowerCase();
+      return [
+        {
+          host,
+          apiUrl: (entry.apiUrl || `https://${host}${apiPath}`).replace(
+            /\/+$/,
+            ''
+          ),
+          token: entry.token || undefined,
+        },
+      ];
+    });
+  } catch (error) {
+    logger.error({ error }, `Invalid ${envName}, ignoring it`);
+    return [];
+  }
+}
+
+export function findProviderHost(
+  hosts: ProviderHostConfig[],
+  host: string
+): ProviderHostConfig | undefined {
+  const normalized = host.toLowerCase().replace(/^www\./, '');
+  return hosts.find((entry) => entry.host === normalized);
+}
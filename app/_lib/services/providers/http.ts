@@ -0,0 +1,69 @@
+import logger from '@/app/_lib/utils/logger';
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export class ProviderRequestError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'ProviderRequestError';
+  }
+}
+
+/**
+ * GET a JSON resource from a provider's REST API. Non-2xx responses throw a
+ * ProviderRequestError carrying the status.
+ */
+export async function fetchJson<T>(
+  url: string,
+  headers: Record<string, string>
+): Promise<T> {
+  logger.trace({ url }, 'Provider API request');
+
+  const response = await fetch(url, {
+    headers: { Accept: 'application/json', ...headers },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    let message = text;
+    try {
+      const body = JSON.parse(text) as { message?: unknown; error?: unknown };
+      message = String(body.message ?? body.error ?? text);
+    } catch {
+      // Not JSON, keep the raw text
+    }
+    throw new ProviderRequestError(
+      `${response.status} ${response.statusText}${message ? `: ${message}` : ''} (${url})`,
+      response.status
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Fetch every page of a list endpoint. Stops at the first page shorter than
+ * perPage, or after maxPages with truncated set.
+ */
+export async function fetchAllPages<T>(
+  pageUrl: (page: number) => string,
+  headers: Record<string, string>,
+  perPage: number,
+  maxPages = Infinity
+): Promise<{ items: T[]; truncated: boolean }> {
+  const items: T[] = [];
+
+  for (let page = 1; page <= maxPages; page++) {
+    const pageItems = await fetchJson<T[]>(pageUrl(page), headers);
+    items.push(...pageItems);
+    if (pageItems.length < perPage) {
+      return { items, truncated: false };
+    }
+  }
+
+  return { items, truncated: true };
+}
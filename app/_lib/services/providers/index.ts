@@ -0,0 +1,48 @@
+import { giteaProvider } from './gitea';
+import { githubProvider } from './github';
+import { gitlabProvider } from './gitlab';
+import { IssueInfo, IssueProvider, RepoInfo } from './types';
+
+export * from './types';
+
+// GitHub first, so github.com links never depend on the other hosts' config
+const PROVIDERS: IssueProvider[] = [
+  githubProvider,
+  gitlabProvider,
+  giteaProvider,
+];
+
+export const SUPPORTED_PROVIDERS_HINT =
+  'github.com, gitlab.com, or a host configured in GITHUB_ENTERPRISE_HOSTS, GITLAB_HOSTS or GITEA_HOSTS';
+
+export function getIssueProvider(host: string): IssueProvider | undefined {
+  return PROVIDERS.find((provider) => provider.hasHost(host));
+}
+
+/**
+ * Parse a repository link on any supported tracker, returning the provider
+ * that serves it
+ */
+export function parseRepoUrl(
+  repoLink: string
+): { provider: IssueProvider; repoInfo: RepoInfo } | null {
+  for (const provider of PROVIDERS) {
+    const repoInfo = provider.parseRepoUrl(repoLink);
+    if (repoInfo) {
+      return { provider, repoInfo };
+    }
+  }
+  return null;
+}
+
+export function parseIssueUrl(
+  issueLink: string
+): { provider: IssueProvider; issueInfo: IssueInfo } | null {
+  for (const provider of PROVIDERS) {
+    const issueInfo = provider.parseIssueUrl(issueLink);
+    if (issueInfo) {
+      return { provider, issueInfo };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,174 @@
+import type { IssueCalibration } from '../calibration';
+import type { CodeExcerpt } from '../codeContext';
+import type { CommentOmissions } from '../commentDigest';
+import type { IssueFilters } from '../issueFilters';
+import type { IssueSimilarity } from '../issueSimilarity';
+import type { RepoProfile } from '../repoProfiler';
+
+export interface RepoInfo {
+  host: string;
+  owner: string; // user or organization; the full group path on GitLab
+  repo: string;
+}
+
+export interface IssueInfo extends RepoInfo {
+  issueNumber: number;
+}
+
+export interface RepoContext {
+  name: string;
+  fullName: string;
+  description: string | null;
+  languages: Record<string, number>;
+  primaryLanguage: string | null;
+  stars: number;
+  forks: number;
+  openIssuesCount: number;
+  size: number; // in KB
+  createdAt: string;
+  updatedAt: string;
+  defaultBranch: string;
+  hasTests: boolean;
+  topics: string[];
+  license: string | null;
+  profile: RepoProfile | null; // null when the git tree couldn't be read
+}
+
+export interface IssueComment {
+  id: number;
+  body: string;
+  createdAt: string;
+  author: string;
+  // GitHub only, e.g. 'OWNER', 'MEMBER', 'COLLABORATOR', 'CONTRIBUTOR', 'NONE'
+  authorAssociation?: string;
+  authorIsBot?: boolean;
+}
+
+export interface LinkedPullRequest {
+  number: number;
+  title: string;
+  url: string;
+  repository: string; // owner/repo
+  state: 'open' | 'closed' | 'merged';
+  isDraft: boolean;
+  additions: number | null; // null when the diff size couldn't be fetched
+  deletions: number | null;
+  changedFiles: number | null;
+  relation: 'connected' | 'cross-referenced';
+}
+
+export interface ReferencedIssue {
+  number: number;
+  title: string;
+  url: string;
+  repository: string; // owner/repo
+  state: string;
+}
+
+export interface IssueReactions {
+  total: number;
+  byType: Record<string, number>; // keyed by REST reaction content ('+1', 'heart', ...)
+}
+
+export interface IssueTimeline {
+  linkedPullRequests: LinkedPullRequest[];
+  referencedIssues: ReferencedIssue[];
+}
+
+export interface EnrichedIssue {
+  number: number;
+  key?: string; // an imported issue's own id, e.g. PROJ-123
+  title: string;
+  body: string | null;
+  labels: string[];
+  state: string;
+  createdAt: string;
+  updatedAt: string;
+  comments: IssueComment[];
+  commentCount: number;
+  url: string;
+  author: string;
+  assignees: string[];
+  milestone: { number: number; title: string; dueOn: string | null } | null;
+  reactions: IssueReactions;
+  locked: boolean;
+  linkedPullRequests: LinkedPullRequest[];
+  referencedIssues: ReferencedIssue[];
+  codeExcerpts?: CodeExcerpt[]; // attached by attachCodeContext
+  calibration?: IssueCalibration; // attached by attachCalibration
+  commentOmissions?: CommentOmissions; // set by digestIssue
+  similarity?: IssueSimilarity; // attached by attachSimilarity
+}
+
+export type ProviderKind = 'github' | 'gitlab' | 'gitea';
+
+// Credentials and hooks for one call. Options an adapter doesn't support are
+// ignored, e.g. onRateLimitWait outside GitHub.
+export interface ProviderClientOptions {
+  host?: string;
+  token?: string;
+  fresh?: boolean;
+  onRateLimitWait?: (seconds: number) => void;
+}
+
+export interface ProviderHostConfig {
+  host: string; // web host, may include a port
+  apiUrl: string;
+  token?: string;
+}
+
+/**
+ * An issue tracker the estimator can read from. Routes pick the provider
+ * whose configured hosts include the host of the submitted URL.
+ */
+export interface IssueProvider {
+  kind: ProviderKind;
+  name: string; // for messages, e.g. 'GitLab'
+  hasHost(host: string): boolean;
+  parseRepoUrl(link: string): RepoInfo | null;
+  parseIssueUrl(link: string): IssueInfo | null;
+  fetchRepoContext(
+    repoInfo: RepoInfo,
+    clientOptions: ProviderClientOptions
+  ): Promise<RepoContext>;
+  // Open issues passing the filters, with their comments
+  fetchOpenIssues(
+    repoInfo: RepoInfo,
+    filters: IssueFilters,
+    clientOptions: ProviderClientOptions
+  ): Promise<EnrichedIssue[]>;
+  // The same issues without comments, for callers that estimate a slice
+  // of them and enrich only that with enrichIssues
+  listOpenIssues(
+    repoInfo: RepoInfo,
+    filters: IssueFilters,
+    clientOptions: ProviderClientOptions
+  ): Promise<EnrichedIssue[]>;
+  enrichIssues(
+    repoInfo: RepoInfo,
+    issues: EnrichedIssue[],
+    clientOptions: ProviderClientOptions
+  ): Promise<EnrichedIssue[]>;
+  // null when the number belongs to a pull/merge request instead
+  fetchIssue(
+    issueInfo: IssueInfo,
+    clientOptions: ProviderClientOptions
+  ): Promise<EnrichedIssue | null>;
+  fetchIssueComments(
+    issueInfo: IssueInfo,
+    clientOptions: ProviderClientOptions
+  ): Promise<IssueComment[]>;
+  // Optional extras that need provider-specific APIs
+  attachCodeContext?(
+    repoInfo: RepoInfo,
+    repoContext: RepoContext,
+    issues: EnrichedIssue[],
+    clientOptions: ProviderClientOptions
+  ): Promise<EnrichedIssue[]>;
+  // Similar closed issues and the merged PRs that resolved them
+  attachCalibration?(
+    repoInfo: RepoInfo,
+    issues: EnrichedIssue[],
+    clientOptions: ProviderClientOptions
+  ): Promise<EnrichedIssue[]>;
+}
@@ -0,0 +1,320 @@
+import type { Octokit } from 'octokit';
+import logger from '@/app/_lib/utils/logger';
+
+export interface RepoProfile {
+  totalFiles: number;
+  truncated: boolean; // GitHub caps recursive trees at 100k entries / 7 MB
+  fileCountsByLanguage: Record<string, number>;
+  testFrameworks: string[];
+  testFileCount: number;
+  ciSystems: string[];
+  packageManagers: string[];
+  buildTools: string[];
+  isMonorepo: boolean;
+  workspaces: string[]; // directories holding their own package manifest
+  hasContributing: boolean;
+  hasCodeowners: boolean;
+  hasDocs: boolean;
+}
+
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  ts: 'TypeScript',
+  tsx: 'TypeScript',
+  mts: 'TypeScript',
+  cts: 'TypeScript',
+  js: 'JavaScript',
+  jsx: 'JavaScript',
+  mjs: 'JavaScript',
+  cjs: 'JavaScript',
+  py: 'Python',
+  go: 'Go',
+  rs: 'Rust',
+  java: 'Java',
+  kt: 'Kotlin',
+  kts: 'Kotlin',
+  scala: 'Scala',
+  rb: 'Ruby',
+  php: 'PHP',
+  cs: 'C#',
+  fs: 'F#',
+  c: 'C',
+  h: 'C',
+  cc: 'C++',
+  cpp: 'C++',
+  cxx: 'C++',
+  hpp: 'C++',
+  swift: 'Swift',
+  m: 'Objective-C',
+  dart: 'Dart',
+  ex: 'Elixir',
+  exs: 'Elixir',
+  erl: 'Erlang',
+  hs: 'Haskell',
+  clj: 'Clojure',
+  lua: 'Lua',
+  r: 'R',
+  jl: 'Julia',
+  sol: 'Solidity',
+  vue: 'Vue',
+  svelte: 'Svelte',
+  css: 'CSS',
+  scss: 'SCSS',
+  html: 'HTML',
+  sh: 'Shell',
+  bash: 'Shell',
+  sql: 'SQL',
+  md: 'Markdown',
+  mdx: 'Markdown',
+};
+
+// Matched against the file name (last path segment)
+const TEST_FRAMEWORK_FILES: Array<[RegExp, string]> = [
+  [/^jest\.config\.[cm]?[jt]s(on)?$/, 'Jest'],
+  [/^vitest\.(config|workspace)\.[cm]?[jt]s$/, 'Vitest'],
+  [/^\.mocharc(\.[a-z]+)?$/, 'Mocha'],
+  [/^karma\.conf\.[jt]s$/, 'Karma'],
+  [/^cypress\.config\.[cm]?[jt]s$|^cypress\.json$/, 'Cypress'],
+  [/^playwright\.config\.[cm]?[jt]s$/, 'Playwright'],
+  [/^pytest\.ini$|^conftest\.py$/, 'pytest'],
+  [/^tox\.ini$/, 'tox'],
+  [/^\.rspec$/, 'RSpec'],
+  [/^phpunit\.xml(\.dist)?$/, 'PHPUnit'],
+  [/_test\.go$/, 'go test'],
+  [/^.+Test\.(java|kt)$/, 'JUnit'],
+  [/^.+Tests?\.cs$/, '.NET test'],
+  [/_test\.exs$/, 'ExUnit'],
+  [/_spec\.rb$/, 'RSpec'],
+];
+
+const TEST_FILE_PATTERNS: RegExp[] = [
+  /(^|\/)(__tests__|tests?|spec|specs|e2e)\//,
+  /\.(test|spec)\.[cm]?[jt]sx?$/,
+  /_test\.(go|py|exs)$/,
+  /(^|\/)test_[^/]+\.py$/,
+  /_spec\.rb$/,
+  /Tests?\.(java|kt|cs)$/,
+];
+
+// Matched against the full path
+const CI_PATTERNS: Array<[RegExp, string]> = [
+  [/^\.github\/workflows\/[^/]+\.ya?ml$/, 'GitHub Actions'],
+  [/^\.gitlab-ci\.ya?ml$/, 'GitLab CI'],
+  [/^\.circleci\/config\.ya?ml$/, 'CircleCI'],
+  [/^\.travis\.ya?ml$/, 'Travis CI'],
+  [/^Jenkinsfile$/, 'Jenkins'],
+  [/^azure-pipelines\.ya?ml$/, 'Azure Pipelines'],
+  [/^\.buildkite\//, 'Buildkite'],
+  [/^bitbucket-pipelines\.ya?ml$/, 'Bitbucket Pipelines'],
+  [/^\.drone\.ya?ml$/, 'Drone'],
+  [/^appveyor\.ya?ml$/, 'AppVeyor'],
+];
+
+// Matched against the file name
+const PACKAGE_MANAGER_FILES: Array<[RegExp, string]> = [
+  [/^package-lock\.json$/, 'npm'],
+  [/^yarn\.lock$/, 'Yarn'],
+  [/^pnpm-lock\.yaml$/, 'pnpm'],
+  [/^bun\.lockb?$/, 'Bun'],
+  [/^Cargo\.toml$/, 'Cargo'],
+  [/^go\.mod$/, 'Go modules'],
+  [/^requirements(-[a-z]+)?\.txt$/, 'pip'],
+  [/^poetry\.lock$/, 'Poetry'],
+  [/^Pipfile$/, 'Pipenv'],
+  [/^uv\.lock$/, 'uv'],
+  [/^Gemfile$/, 'Bundler'],
+  [/^composer\.json$/, 'Composer'],
+  [/^pom\.xml$/, 'Maven'],
+  [/^build\.gradle(\.kts)?$/, 'Gradle'],
+  [/\.csproj$/, 'NuGet'],
+  [/^mix\.exs$/, 'Mix'],
+  [/^Package\.swift$/, 'SwiftPM'],
+  [/^pubspec\.yaml$/, 'Pub'],
+];
+
+// Matched against the file name
+const BUILD_TOOL_FILES: Array<[RegExp, string]> = [
+  [/^Makefile$/, 'Make'],
+  [/^CMakeLists\.txt$/, 'CMake'],
+  [/^(BUILD\.bazel|WORKSPACE(\.bazel)?|MODULE\.bazel)$/, 'Bazel'],
+  [/^nx\.json$/, 'Nx'],
+  [/^turbo\.json$/, 'Turborepo'],
+  [/^lerna\.json$/, 'Lerna'],
+  [/^vite\.config\.[cm]?[jt]s$/, 'Vite'],
+  [/^webpack\.config\.[cm]?[jt]s$/, 'webpack'],
+  [/^rollup\.config\.[cm]?[jt]s$/, 'Rollup'],
+  [/^next\.config\.[cm]?[jt]s$/, 'Next.js'],
+  [/^Dockerfile$/, 'Docker'],
+];
+
+// Root files that declare a workspace / monorepo layout
+const WORKSPACE_MARKERS = [
+  'pnpm-workspace.yaml',
+  'lerna.json',
+  'nx.json',
+  'turbo.json',
+  'rush.json',
+  'go.work',
+];
+
+const MANIFEST_FILES = new Set([
+  'package.json',
+  'Cargo.toml',
+  'go.mod',
+  'pyproject.toml',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'composer.json',
+]);
+
+// Nested manifests under these directories don't indicate a workspace
+const IGNORED_DIRECTORIES =
+  /(^|\/)(node_modules|vendor|third_party|examples?|fixtures?|test|tests|__tests__|docs?)\//;
+
+const CONTRIBUTING_PATTERN = /^(\.github\/|docs\/)?CONTRIBUTING(\.[a-z]+)?$/i;
+const CODEOWNERS_PATTERN = /^(\.github\/|docs\/)?CODEOWNERS$/;
+const DOCS_PATTERN =
+  /^(docs?|documentation)\/|^mkdocs\.ya?ml$|^docusaurus\.config\.[jt]s$/;
+
+function addMatches(
+  found: Set<string>,
+  patterns: Array<[RegExp, string]>,
+  value: string
+) {
+  for (const [pattern, name] of patterns) {
+    if (pattern.test(value)) {
+      found.add(name);
+    }
+  }
+}
+
+/**
+ * Build a profile of the repository from a single recursive git tree listing
+ */
+export function buildRepoProfile(
+  paths: string[],
+  truncated = false
+): RepoProfile {
+  const fileCountsByLanguage: Record<string, number> = {};
+  const testFrameworks = new Set<string>();
+  const ciSystems = new Set<string>();
+  const packageManagers = new Set<string>();
+  const buildTools = new Set<string>();
+  const workspaces: string[] = [];
+  let testFileCount = 0;
+  let hasWorkspaceMarker = false;
+  let hasContributing = false;
+  let hasCodeowners = false;
+  let hasDocs = false;
+
+  for (const path of paths) {
+    // Dependencies checked into the tree say nothing about this project
+    if (/(^|\/)(node_modules|vendor)\//.test(path)) {
+      continue;
+    }
+
+    const fileName = path.slice(path.lastIndexOf('/') + 1);
+    const extension = fileName.includes('.')
+      ? fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase()
+      : '';
+
+    const language = LANGUAGE_EXTENSIONS[extension];
+    if (language) {
+      fileCountsByLanguage[language] = (fileCountsByLanguage[language] || 0) + 1;
+    }
+
+    if (TEST_FILE_PATTERNS.some((pattern) => pattern.test(path))) {
+      testFileCount++;
+    }
+
+    addMatches(testFrameworks, TEST_FRAMEWORK_FILES, fileName);
+    addMatches(ciSystems, CI_PATTERNS, path);
+    addMatches(packageManagers, PACKAGE_MANAGER_FILES, fileName);
+    addMatches(buildTools, BUILD_TOOL_FILES, fileName);
+
+    if (!path.includes('/') && WORKSPACE_MARKERS.includes(fileName)) {
+      hasWorkspaceMarker = true;
+    }
+
+    if (
+      MANIFEST_FILES.has(fileName) &&
+      path.includes('/') &&
+      !IGNORED_DIRECTORIES.test(path) &&
+      path.split('/').length <= 4
+    ) {
+      workspaces.push(path.slice(0, path.lastIndexOf('/')));
+    }
+
+    hasContributing ||= CONTRIBUTING_PATTERN.test(path);
+    hasCodeowners ||= CODEOWNERS_PATTERN.test(path);
+    hasDocs ||= DOCS_PATTERN.test(path);
+  }
+
+  const uniqueWorkspaces = [...new Set(workspaces)].sort();
+
+  return {
+    totalFiles: paths.length,
+    truncated,
+    fileCountsByLanguage,
+    testFrameworks: [...testFrameworks],
+    testFileCount,
+    ciSystems: [...ciSystems],
+    packageManagers: [...packageManagers],
+    buildTools: [...buildTools],
+    isMonorepo: hasWorkspaceMarker || uniqueWorkspaces.length >= 2,
+    workspaces: uniqueWorkspaces,
+    hasContributing,
+    hasCodeowners,
+    hasDocs,
+  };
+}
+
+/**
+ * List every file path in the repository at `ref` with one recursive tree call
+ */
+export async function fetchRepoTree(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<{ paths: string[]; truncated: boolean }> {
+  const response = await octokit.rest.git.getTree({
+    owner,
+    repo,
+    tree_sha: ref,
+    recursive: 'true',
+  });
+
+  return {
+    paths: response.data.tree
+      .filter((entry) => entry.type === 'blob' && entry.path)
+      .map((entry) => entry.path as string),
+    truncated: response.data.truncated,
+  };
+}
+
+/**
+ * Profile the repository at `ref`. Returns null when the tree can't be read
+ * (e.g. an empty repository) so estimation can continue without it.
+ */
+export async function profileRepository(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string
+): Promise<RepoProfile | null> {
+  try {
+    const { paths, truncated } = await fetchRepoTree(octokit, owner, repo, ref);
+    const profile = buildRepoProfile(paths, truncated);
+
+    logger.debug({ owner, repo, profile }, 'Repository profile built');
+    if (truncated) {
+      logger.warn({ owner, repo }, 'Repository tree truncated, profile is partial');
+    }
+
+    return profile;
+  } catch (error) {
+    logger.warn({ error, owner, repo }, 'Failed to profile repository tree');
+    return null;
+  }
+}
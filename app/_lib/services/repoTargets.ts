@@ -0,0 +1,217 @@
+import logger from '@/app/_lib/utils/logger';
+import {
+  OwnerInfo,
+  OwnerRepository,
+  RepoInfo,
+  fetchOwnerRepositories,
+  parseGitHubOwnerUrl,
+} from './github';
+import { GitHubClientOptions } from './githubClient';
+import { SUPPORTED_PROVIDERS_HINT, parseRepoUrl } from './providers';
+
+export interface RepoSelection {
+  topic?: string; // only repositories tagged with this topic
+  name?: string; // case-insensitive substring, or a glob when it contains '*'
+  includeForks?: boolean;
+  includeArchived?: boolean;
+  maxRepositories?: number;
+}
+
+export interface RepoTargets {
+  repositories: RepoInfo[]; // listed explicitly
+  owners: OwnerInfo[]; // expanded to their repositories on resolve
+  selection: RepoSelection; // narrows the owner expansion only
+}
+
+export const DEFAULT_MAX_REPOSITORIES = 50;
+
+// Every host a run's repositories can come from
+export function getTargetHosts(targets: RepoTargets): string[] {
+  return [
+    ...new Set(
+      [...targets.repositories, ...targets.owners].map((target) => target.host)
+    ),
+  ];
+}
+
+function parseLinks(value: unknown): string[] {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  const items = Array.isArray(value) ? value : String(value).split(/[\n,]/);
+  return items.map((item) => String(item).trim()).filter(Boolean);
+}
+
+function parseSelection(input: unknown): RepoSelection {
+  if (input === undefined || input === null) {
+    return {};
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('repoSelection must be an object');
+  }
+
+  const raw = input as Record<string, unknown>;
+  const selection: RepoSelection = {};
+
+  if (typeof raw.topic === 'string' && raw.topic.trim()) {
+    selection.topic = raw.topic.trim().toLowerCase();
+  }
+  if (typeof raw.name === 'string' && raw.name.trim()) {
+    selection.name = raw.name.trim();
+  }
+  if (raw.includeForks !== undefined) {
+    selection.includeForks = Boolean(raw.includeForks);
+  }
+  if (raw.includeArchived !== undefined) {
+    selection.includeArchived = Boolean(raw.includeArchived);
+  }
+  if (
+    raw.maxRepositories !== undefined &&
+    raw.maxRepositories !== null &&
+    raw.maxRepositories !== ''
+  ) {
+    const max = Number(raw.maxRepositories);
+    if (!Number.isInteger(max) || max <= 0) {
+      throw new Error(`Invalid maxRepositories: ${raw.maxRepositories}`);
+    }
+    selection.maxRepositories = max;
+  }
+
+  return selection;
+}
+
+/**
+ * Validate the repositories a run should cover. `repoLink` and `repoLinks`
+ * may each hold repository links on any supported tracker or GitHub
+ * organization/user links; `repoSelection` narrows down the repositories of
+ * those owners.
+ */
+export function parseRepoTargets(input: {
+  repoLink?: unknown;
+  repoLinks?: unknown;
+  repoSelection?: unknown;
+}): { targets: RepoTargets } | { error: string } {
+  const links = [...parseLinks(input.repoLink), ...parseLinks(input.repoLinks)];
+  if (links.length === 0) {
+    return { error: 'Repository link is required' };
+  }
+
+  const targets: RepoTargets = { repositories: [], owners: [], selection: {} };
+
+  for (const link of links) {
+    // Owner first: github.com/orgs/acme would otherwise parse as a repository
+    const ownerInfo = parseGitHubOwnerUrl(link);
+    const repoInfo = ownerInfo ? null : parseRepoUrl(link)?.repoInfo;
+
+    if (ownerInfo) {
+      targets.owners.push(ownerInfo);
+    } else if (repoInfo) {
+      targets.repositories.push(repoInfo);
+    } else {
+      return {
+        error: `Invalid repository or organization URL: ${link} (${SUPPORTED_PROVIDERS_HINT})`,
+      };
+    }
+  }
+
+  try {
+    targets.selection = parseSelection(input.repoSelection);
+  } catch (error) {
+    return {
+      error: error instanceof Error ? error.message : 'Invalid repoSelection',
+    };
+  }
+
+  return { targets };
+}
+
+function matchesName(name: string, pattern: string): boolean {
+  if (!pattern.includes('*')) {
+    return name.toLowerCase().includes(pattern.toLowerCase());
+  }
+  const regex = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`, 'i').test(name);
+}
+
+export function matchesRepoSelection(
+  repo: OwnerRepository,
+  selection: RepoSelection
+): boolean {
+  if (repo.fork && !selection.includeForks) {
+    return false;
+  }
+  if (repo.archived && !selection.includeArchived) {
+    return false;
+  }
+  if (selection.topic && !repo.topics.includes(selection.topic)) {
+    return false;
+  }
+  if (selection.name && !matchesName(repo.name, selection.name)) {
+    return false;
+  }
+  return true;
+}
+
+export function formatRepoFullName(repoInfo: RepoInfo): string {
+  return `${repoInfo.owner}/${repoInfo.repo}`;
+}
+
+export interface ResolvedRepoTargets {
+  repositories: RepoInfo[];
+  // Matches left out by maxRepositories, reported so the caller can say so
+  dropped: number;
+  maxRepositories: number;
+}
+
+/**
+ * Expand owners into their matching repositories and merge them with the
+ * explicitly listed ones. Duplicates are dropped and the result is capped at
+ * maxRepositories.
+ */
+export async function resolveRepoTargets(
+  targets: RepoTargets,
+  getClientOptions: (host: string) => GitHubClientOptions
+): Promise<ResolvedRepoTargets> {
+  const resolved: RepoInfo[] = [...targets.repositories];
+
+  for (const { host, owner } of targets.owners) {
+    const repos = await fetchOwnerRepositories(owner, getClientOptions(host));
+    const matching = repos
+      .filter((repo) => matchesRepoSelection(repo, targets.selection))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    logger.info(
+      { owner, listed: repos.length, matching: matching.length },
+      'Owner repositories selected'
+    );
+
+    resolved.push(...matching.map((repo) => ({ host, owner, repo: repo.name })));
+  }
+
+  const seen = new Set<string>();
+  const unique = resolved.filter((repoInfo) => {
+    const key = `${repoInfo.host}/${formatRepoFullName(repoInfo)}`.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  const max = targets.selection.maxRepositories ?? DEFAULT_MAX_REPOSITORIES;
+  if (unique.length > max) {
+    logger.warn(
+      { total: unique.length, max },
+      'Too many repositories selected, truncating'
+    );
+  }
+
+  return {
+    repositories: unique.slice(0, max),
+    dropped: Math.max(unique.length - max, 0),
+    maxRepositories: max,
+  };
+}
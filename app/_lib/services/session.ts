@@ -0,0 +1,144 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { config } from '@/config';
+import {
+  DEFAULT_GITHUB_HOST,
+  GitHubClientOptions,
+} from './githubClient';
+
+export const SESSION_COOKIE = 'ns_session';
+export const OAUTH_STATE_COOKIE = 'ns_oauth_state';
+
+export interface Session {
+  token: string; // GitHub user access token
+  host: string; // GitHub host the token was issued by
+  login: string;
+  avatarUrl: string | null;
+  createdAt: number; // epoch ms
+}
+
+function getKey(): Buffer {
+  if (!config.session.secret) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  return createHash('sha256').update(config.session.secret).digest();
+}
+
+/**
+ * Encrypt and authenticate the session so the token never reaches the
+ * browser in readable form. Format: base64url(iv | authTag | ciphertext).
+ */
+export function sealSession(session: Session): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getKey(), iv);
+  const ciphertext = Buffer.concat([
+    cipher.update(JSON.stringify(session), 'utf-8'),
+    cipher.final(),
+  ]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString(
+    'base64url'
+  );
+}
+
+export function unsealSession(value: string): Session | null {
+  try {
+    const raw = Buffer.from(value, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', getKey(), raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    const plaintext = Buffer.concat([
+      decipher.update(raw.subarray(28)),
+      decipher.final(),
+    ]).toString('utf-8');
+
+    const session = JSON.parse(plaintext) as Session;
+    if (Date.now() - session.createdAt > config.session.maxAgeSeconds * 1000) {
+      return null;
+    }
+    return session;
+  } catch {
+    // Tampered, truncated or sealed with a different secret
+    return null;
+  }
+}
+
+export function getCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('cookie');
+  if (!header) {
+    return null;
+  }
+
+  for (const part of header.split(';')) {
+    const [cookieName, ...rest] = part.trim().split('=');
+    if (cookieName === name) {
+      return decodeURIComponent(rest.join('='));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read the signed-in user's session from the request cookies, if any
+ */
+export function getSession(request: Request): Session | null {
+  if (!config.session.secret) {
+    return null;
+  }
+  const value = getCookie(request, SESSION_COOKIE);
+  return value ? unsealSession(value) : null;
+}
+
+/**
+ * Client options for fetching from `host` on behalf of this request. The
+ * user's token is only sent to the host that issued it.
+ */
+export function getGitHubClientOptions(
+  request: Request,
+  host: string
+): GitHubClientOptions {
+  const session = getSession(request);
+  const sessionHost = session?.host || DEFAULT_GITHUB_HOST;
+  return {
+    host,
+    token: session && sessionHost === host ? session.token : undefined,
+  };
+}
+
+/**
+ * Why this request may not write to `host` (project fields, issue labels and
+ * comments), or null when it may. Writes go out as the signed-in user of
+ * that host; the server's token only writes when GITHUB_SERVER_TOKEN_WRITES
+ * is set.
+ */
+export function checkGitHubWriteAccess(
+  request: Request,
+  host: string
+): { error: string; status: 401 | 403 } | null {
+  if (getGitHubClientOptions(request, host).token || config.github.serverTokenWrites) {
+    return null;
+  }
+  return getSession(request)
+    ? { error: `Sign in to ${host} to write to it`, status: 403 }
+    : { error: 'Sign in with GitHub to write to projects and issues', status: 401 };
+}
+
+export function isOAuthConfigured(): boolean {
+  return Boolean(
+    config.github.oauth.clientId &&
+      config.github.oauth.clientSecret &&
+      config.session.secret
+  );
+}
+
+export function getOAuthRedirectUri(request: Request): string {
+  return (
+    config.github.oauth.redirectUri ||
+    new URL('/api/auth/github/callback', request.url).toString()
+  );
+}
+
+export const sessionCookieOptions = {
+  httpOnly: true,
+  secure: config.app.nodeEnv === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+};
@@ -0,0 +1,176 @@
+import { setMaxListeners } from 'events';
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import { LLMUsage, getModelPrice, priceUsage } from './llm';
+
+export interface ModelUsage {
+  model: string; // '<provider>:<model>'
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null; // USD; null when the model has no price
+}
+
+export interface TokenUsage {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number; // USD, of the priced models only
+  byModel: ModelUsage[];
+}
+
+export class SpendCapReachedError extends Error {
+  constructor(public readonly spendCap: number) {
+    super(`Spend cap of $${spendCap} reached`);
+    this.name = 'SpendCapReachedError';
+  }
+}
+
+/**
+ * What a run may spend on model requests. Once `spent` reaches the cap the
+ * signal aborts, which drops the requests still waiting for the scheduler.
+ */
+export interface RunBudget {
+  spendCap: number; // 0 for no cap
+  spent: number;
+  signal: AbortSignal;
+  charge(cost: number): void;
+}
+
+// Collects the usage of one issue's requests, or of a run's similarity
+// embeddings, and charges the run for them
+export interface UsageMeter {
+  usage: TokenUsage;
+  signal?: AbortSignal;
+  record(model: string, usage: LLMUsage | null): void;
+}
+
+export function emptyUsage(): TokenUsage {
+  return {
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    cost: 0,
+    byModel: [],
+  };
+}
+
+/**
+ * Validate the `spendCap` of a request, in USD. Unset means LLM_SPEND_CAP.
+ */
+export function parseSpendCap(
+  input: unknown
+): { spendCap: number } | { error: string } {
+  if (input === undefined || input === null || input === '') {
+    return { spendCap: config.llm.spendCap };
+  }
+  const spendCap = Number(input);
+  if (!Number.isFinite(spendCap) || spendCap < 0) {
+    return { error: 'spendCap must be a non-negative number of USD' };
+  }
+  return { spendCap };
+}
+
+export function createRunBudget(
+  spendCap: number = config.llm.spendCap
+): RunBudget {
+  const controller = new AbortController();
+  // Every queued request of the run listens for the abort
+  setMaxListeners(0, controller.signal);
+
+  const budget: RunBudget = {
+    spendCap,
+    spent: 0,
+    signal: controller.signal,
+    charge(cost) {
+      budget.spent += cost;
+      if (
+        spendCap > 0 &&
+        budget.spent >= spendCap &&
+        !controller.signal.aborted
+      ) {
+        logger.warn(
+          { spendCap, spent: budget.spent },
+          'Spend cap reached, skipping the remaining issues'
+        );
+        controller.abort(new SpendCapReachedError(spendCap));
+      }
+    },
+  };
+  return budget;
+}
+
+export function createUsageMeter(budget?: RunBudget): UsageMeter {
+  const usage = emptyUsage();
+  return {
+    usage,
+    signal: budget?.signal,
+    record(model, reported) {
+      const price = getModelPrice(model);
+      const cost = reported && price ? priceUsage(reported, price) : 0;
+
+      let entry = usage.byModel.find((item) => item.model === model);
+      if (!entry) {
+        entry = {
+          model,
+          requests: 0,
+          promptTokens: 0,
+          completionTokens: 0,
+          cost: price ? 0 : null,
+        };
+        usage.byModel.push(entry);
+      }
+      entry.requests++;
+      usage.requests++;
+      if (reported) {
+        entry.promptTokens += reported.promptTokens;
+        entry.completionTokens += reported.completionTokens;
+        usage.promptTokens += reported.promptTokens;
+        usage.completionTokens += reported.completionTokens;
+      }
+      if (entry.cost !== null) {
+        entry.cost += cost;
+      }
+      usage.cost += cost;
+      budget?.charge(cost);
+    },
+  };
+}
+
+/**
+ * Add up the usage of several estimates, per model and overall
+ */
+export function mergeUsage(usages: TokenUsage[]): TokenUsage {
+  const merged = emptyUsage();
+  for (const usage of usages) {
+    merged.requests += usage.requests;
+    merged.promptTokens += usage.promptTokens;
+    merged.completionTokens += usage.completionTokens;
+    merged.cost += usage.cost;
+    for (const item of usage.byModel) {
+      const entry = merged.byModel.find((model) => model.model === item.model);
+      if (!entry) {
+        merged.byModel.push({ ...item });
+        continue;
+      }
+      entry.requests += item.requests;
+      entry.promptTokens += item.promptTokens;
+      entry.completionTokens += item.completionTokens;
+      entry.cost =
+        entry.cost === null || item.cost === null
+          ? null
+          : entry.cost + item.cost;
+    }
+  }
+  return merged;
+}
+
+/**
+ * "12,345 prompt + 678 completion tokens, $0.0123"
+ */
+export function formatUsage(usage: TokenUsage): string {
+  const unpriced = usage.byModel
+    .filter((model) => model.cost === null)
+    .map((model) => model.model);
+  return `${usage.promptTokens.toLocaleString('en-US')} prompt + ${usage.completionTokens.toLocaleString('en-US')} completion tokens, $${usage.cost.toFixed(4)}${unpriced.length > 0 ? ` (no price for ${unpriced.join(', ')})` : ''}`;
+}
@@ -0,0 +1,275 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+import { EXAMPLE_PARAMS, EstimationParams, estimateIssuesBatch } from './ai';
+import { attachCalibration } from './calibration';
+import { attachCodeContext } from './codeContext';
+import {
+  ESTIMATE_COMMENT_MARKER,
+  enrichIssueWithComments,
+  fetchRepoContext,
+  isEstimateLabel,
+  parseGitHubIssueUrl,
+} from './github';
+import { createGitHubClient } from './githubClient';
+import { PublishOptions, publishEstimations } from './issuePublisher';
+import { createRunBudget } from './usage';
+
+// The parts of issues / issue_comment payloads the webhook looks at
+export interface WebhookPayload {
+  action?: string;
+  issue?: {
+    html_url?: string;
+    number?: number;
+    state?: string;
+    pull_request?: unknown; // set when the issue is a pull request
+  };
+  label?: { name?: string };
+  comment?: { body?: string };
+}
+
+export interface WebhookTrigger {
+  issueUrl: string;
+  reason: string; // event.action, e.g. issues.edited
+}
+
+const HANDLED_EVENTS: Record<string, string[]> = {
+  issues: ['opened', 'edited', 'labeled'],
+  issue_comment: ['created'],
+};
+
+/**
+ * Check an X-Hub-Signature-256 header against the raw request body
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature?.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`
+  );
+  const received = Buffer.from(signature);
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
+
+/**
+ * Decide whether a delivery should refresh an estimate. Events caused by
+ * publishing an estimate (its labels and marker comment) are ignored so a
+ * re-estimate doesn't trigger another one.
+ */
+export function getWebhookTrigger(
+  event: string | null,
+  payload: WebhookPayload
+): { trigger: WebhookTrigger } | { ignored: string } {
+  const reason = `${event}.${payload.action}`;
+
+  if (!event || !HANDLED_EVENTS[event]?.includes(payload.action ?? '')) {
+    return { ignored: `Unhandled event ${reason}` };
+  }
+
+  const issue = payload.issue;
+  if (!issue?.html_url) {
+    return { ignored: 'Payload has no issue' };
+  }
+  if (issue.pull_request) {
+    return { ignored: 'Pull requests are not estimated' };
+  }
+  if (issue.state && issue.state !== 'open') {
+    return { ignored: `Issue is ${issue.state}` };
+  }
+  if (payload.label?.name && isEstimateLabel(payload.label.name)) {
+    return { ignored: `Estimate label ${payload.label.name}` };
+  }
+  if (payload.comment?.body?.includes(ESTIMATE_COMMENT_MARKER)) {
+    return { ignored: 'Estimate comment' };
+  }
+
+  return { trigger: { issueUrl: issue.html_url, reason } };
+}
+
+/**
+ * What re-estimates publish, from WEBHOOK_PUBLISH. The estimate files are
+ * not written in production, so publishing is the only place a re-estimate
+ * is kept and a setting that publishes nothing is an error.
+ */
+export function getWebhookPublishOptions():
+  | { options: PublishOptions }
+  | { error: string } {
+  const parts = config.webhook.publish
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+  const unknown = parts.filter(
+    (part) => part !== 'labels' && part !== 'comment'
+  );
+  if (unknown.length > 0) {
+    return {
+      error: `WEBHOOK_PUBLISH accepts labels and comment, got ${unknown.join(', ')}`,
+    };
+  }
+  if (parts.length === 0) {
+    return {
+      error: 'WEBHOOK_PUBLISH is empty, set it to labels, comment or both',
+    };
+  }
+  return {
+    options: {
+      labels: parts.includes('labels'),
+      comment: parts.includes('comment'),
+    },
+  };
+}
+
+function getWebhookEstimationParams(): EstimationParams {
+  return {
+    minBudget: config.webhook.minBudget || EXAMPLE_PARAMS.minBudget,
+    maxBudget: config.webhook.maxBudget || EXAMPLE_PARAMS.maxBudget,
+    model: config.webhook.model || EXAMPLE_PARAMS.model,
+  };
+}
+
+async function reestimateIssue(issueUrl: string, reasons: string[]) {
+  const publish = getWebhookPublishOptions();
+  if ('error' in publish) {
+    logger.error(
+      { issueUrl, error: publish.error },
+      'Webhook not re-estimating'
+    );
+    return;
+  }
+
+  const issueInfo = parseGitHubIssueUrl(issueUrl);
+  if (!issueInfo) {
+    logger.warn({ issueUrl }, 'Webhook issue URL not recognized');
+    return;
+  }
+
+  const { host, owner, repo, issueNumber } = issueInfo;
+  // The event means the cached issue is out of date
+  const clientOptions = { host, fresh: true };
+  const octokit = createGitHubClient(clientOptions);
+
+  const { data: issue } = await octokit.rest.issues.get({
+    owner,
+    repo,
+    issue_number: issueNumber,
+  });
+  if ('pull_request' in issue && issue.pull_request) {
+    return;
+  }
+  if (issue.state !== 'open') {
+    logger.info(
+      { issueUrl, state: issue.state },
+      'Issue closed, not re-estimating'
+    );
+    return;
+  }
+
+  // Repository context rarely changes with an issue edit, so it may be cached
+  const repoContext = await fetchRepoContext(owner, repo, { host });
+  const withCode = await attachCodeContext(
+    owner,
+    repo,
+    repoContext,
+    [await enrichIssueWithComments(owner, repo, issue, clientOptions)],
+    { host }
+  );
+  // Closed issues don't change with this event, so the cached profile is fine
+  const [enrichedIssue] = await attachCalibration(owner, repo, withCode, {
+    host,
+  });
+
+  // Retried like any estimate and held to LLM_SPEND_CAP
+  const [estimation] = await estimateIssuesBatch(
+    repoContext,
+    [enrichedIssue],
+    getWebhookEstimationParams(),
+    {
+      saveToFile: true,
+      repoOwner: owner,
+      repoName: repo,
+      budget: createRunBudget(),
+    }
+  );
+  if (estimation.status !== 'estimated') {
+    logger.warn(
+      { issueUrl, reasons, status: estimation.status, error: estimation.error },
+      'Webhook re-estimate not completed'
+    );
+    return;
+  }
+
+  logger.info(
+    {
+      issueUrl,
+      reasons,
+      complexity: estimation.complexity,
+      estimatedCost: estimation.estimatedCost,
+    },
+    'Webhook re-estimate completed'
+  );
+
+  await publishEstimations([estimation], publish.options, () => ({ host }));
+}
+
+const pending = new Map<
+  string,
+  { timer: ReturnType<typeof setTimeout>; reasons: Set<string> }
+>();
+const running = new Set<string>();
+
+function schedule(issueUrl: string, reasons: string[]) {
+  const existing = pending.get(issueUrl);
+  if (existing) {
+    clearTimeout(existing.timer);
+  }
+  const allReasons = new Set([...(existing?.reasons ?? []), ...reasons]);
+
+  const timer = setTimeout(() => {
+    pending.delete(issueUrl);
+    void run(issueUrl, [...allReasons]);
+  }, config.webhook.debounceSeconds * 1000);
+
+  pending.set(issueUrl, { timer, reasons: allReasons });
+}
+
+async function run(issueUrl: string, reasons: string[]) {
+  // An event that lands mid-estimate waits for another quiet window
+  if (running.has(issueUrl)) {
+    schedule(issueUrl, reasons);
+    return;
+  }
+
+  running.add(issueUrl);
+  try {
+    await reestimateIssue(issueUrl, reasons);
+  } catch (error) {
+    logger.error({ error, issueUrl, reasons }, 'Webhook re-estimate failed');
+  } finally {
+    running.delete(issueUrl);
+  }
+}
+
+/**
+ * Re-estimate an issue once its events have been quiet for the debounce
+ * window. Each new event for the same issue restarts the window.
+ */
+export function scheduleReestimate(trigger: WebhookTrigger): void {
+  logger.info(
+    {
+      ...trigger,
+      debounceSeconds: config.webhook.debounceSeconds,
+      queued: pending.has(trigger.issueUrl),
+    },
+    'Webhook re-estimate scheduled'
+  );
+  schedule(trigger.issueUrl, [trigger.reason]);
+}
@@ -0,0 +1,4 @@
+export function estimateTokens(text: string): number {
+  // Rough heuristic for English text and code
+  return Math.ceil(text.length / 4);
+}
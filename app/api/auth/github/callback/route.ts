@@ -0,0 +1,99 @@
+import { NextResponse } from 'next/server';
+import {
+  DEFAULT_GITHUB_HOST,
+  createGitHubClient,
+} from '@/app/_lib/services/githubClient';
+import {
+  OAUTH_STATE_COOKIE,
+  SESSION_COOKIE,
+  getCookie,
+  getOAuthRedirectUri,
+  isOAuthConfigured,
+  sealSession,
+  sessionCookieOptions,
+} from '@/app/_lib/services/session';
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+
+interface AccessTokenResponse {
+  access_token?: string;
+  error?: string;
+  error_description?: string;
+}
+
+export async function GET(request: Request) {
+  if (!isOAuthConfigured()) {
+    return NextResponse.json(
+      { error: 'GitHub sign-in is not configured on this server' },
+      { status: 501 }
+    );
+  }
+
+  const url = new URL(request.url);
+  const code = url.searchParams.get('code');
+  const state = url.searchParams.get('state');
+  const expectedState = getCookie(request, OAUTH_STATE_COOKIE);
+
+  if (!code || !state || !expectedState || state !== expectedState) {
+    logger.warn('GitHub OAuth callback with missing or mismatched state');
+    return NextResponse.json(
+      { error: 'Invalid OAuth state. Please try signing in again.' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const tokenResponse = await fetch(
+      'https://github.com/login/oauth/access_token',
+      {
+        method: 'POST',
+        headers: {
+          Accept: 'application/json',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          client_id: config.github.oauth.clientId,
+          client_secret: config.github.oauth.clientSecret,
+          code,
+          redirect_uri: getOAuthRedirectUri(request),
+        }),
+      }
+    );
+
+    const tokenData = (await tokenResponse.json()) as AccessTokenResponse;
+    if (!tokenData.access_token) {
+      throw new Error(
+        tokenData.error_description || tokenData.error || 'No access token returned'
+      );
+    }
+
+    const octokit = createGitHubClient({ token: tokenData.access_token });
+    const { data: user } = await octokit.rest.users.getAuthenticated();
+
+    logger.info({ login: user.login }, 'User signed in with GitHub');
+
+    const response = NextResponse.redirect(new URL('/', request.url));
+    response.cookies.set(
+      SESSION_COOKIE,
+      sealSession({
+        token: tokenData.access_token,
+        host: DEFAULT_GITHUB_HOST,
+        login: user.login,
+        avatarUrl: user.avatar_url || null,
+        createdAt: Date.now(),
+      }),
+      { ...sessionCookieOptions, maxAge: config.session.maxAgeSeconds }
+    );
+    response.cookies.delete(OAUTH_STATE_COOKIE);
+    return response;
+  } catch (error: unknown) {
+    logger.error({ error }, 'GitHub OAuth callback failed');
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'GitHub sign-in failed',
+      },
+      { status: 500 }
+    );
+  }
+}
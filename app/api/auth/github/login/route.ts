@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import {
+  OAUTH_STATE_COOKIE,
+  getOAuthRedirectUri,
+  isOAuthConfigured,
+  sessionCookieOptions,
+} from '@/app/_lib/services/session';
+import { config } from '@/config';
+
+export async function GET(request: Request) {
+  if (!isOAuthConfigured()) {
+    return NextResponse.json(
+      { error: 'GitHub sign-in is not configured on this server' },
+      { status: 501 }
+    );
+  }
+
+  const state = randomBytes(16).toString('hex');
+
+  const authorizeUrl = new URL('https://github.com/login/oauth/authorize');
+  authorizeUrl.searchParams.set('client_id', config.github.oauth.clientId);
+  authorizeUrl.searchParams.set('redirect_uri', getOAuthRedirectUri(request));
+  authorizeUrl.searchParams.set('scope', config.github.oauth.scope);
+  authorizeUrl.searchParams.set('state', state);
+
+  const response = NextResponse.redirect(authorizeUrl);
+  response.cookies.set(OAUTH_STATE_COOKIE, state, {
+    ...sessionCookieOptions,
+    maxAge: 10 * 60, // 10 minutes to complete the GitHub consent screen
+  });
+  return response;
+}
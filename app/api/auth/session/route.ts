@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server';
+import { getSession, isOAuthConfigured } from '@/app/_lib/services/session';
+
+export async function GET(request: Request) {
+  const session = getSession(request);
+
+  return NextResponse.json({
+    enabled: isOAuthConfigured(),
+    authenticated: session !== null,
+    user: session
+      ? { login: session.login, avatarUrl: session.avatarUrl }
+      : null,
+  });
+}
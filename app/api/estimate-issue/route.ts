@@ -1,37 +1,35 @@
 import { NextResponse } from 'next/server';
-import {
-  fetchRepoContext,
-  enrichIssueWithComments,
-  formatFullLLMPromptData,
-} from '@/app/_lib/services/github';
+import { formatFullLLMPromptData } from '@/app/_lib/services/github';
 import {
   estimateIssuesBatch,
   EstimationParams,
   EXAMPLE_PARAMS,
 } from '@/app/_lib/services/ai';
-import { Octokit } from 'octokit';
+import { parseEffortOptions } from '@/app/_lib/services/effort';
+import { parseEnsembleOptions } from '@/app/_lib/services/ensemble';
+import { createRunBudget, parseSpendCap } from '@/app/_lib/services/usage';
+import {
+  PublishResult,
+  parsePublishOptions,
+  publishEstimations,
+} from '@/app/_lib/services/issuePublisher';
+import {
+  ProjectWriteBackResult,
+  getProjectHost,
+  parseProjectWriteBack,
+  writeEstimationsToProject,
+} from '@/app/_lib/services/projectWriteBack';
+import {
+  SUPPORTED_PROVIDERS_HINT,
+  parseIssueUrl,
+} from '@/app/_lib/services/providers';
+import {
+  checkGitHubWriteAccess,
+  getGitHubClientOptions,
+} from '@/app/_lib/services/session';
 import logger from '@/app/_lib/utils/logger';
 import { checkRateLimit } from '@/app/_lib/middleware/rateLimit';
 
-function parseGitHubIssueUrl(issueLink: string): { owner: string; repo: string; issueNumber: number } | null {
-  let normalized = issueLink.trim();
-
-  if (!normalized.match(/^https?:\/\//)) {
-    normalized = `https://${normalized}`;
-  }
-
-  normalized = normalized.replace(/^(https?:\/\/)www\./, '$1');
-  normalized = normalized.replace(/\/+$/, '');
-
-  const match = normalized.match(/github\.com\/([^\/]+)\/([^\/]+)\/issues\/(\d+)/);
-  if (!match) {
-    return null;
-  }
-
-  const [, owner, repo, issueNumber] = match;
-  return { owner, repo, issueNumber: parseInt(issueNumber, 10) };
-}
-
 export async function POST(request: Request) {
   const rateLimitResponse = await checkRateLimit(request);
   if (rateLimitResponse) {
@@ -53,6 +51,11 @@ export async function POST(request: Request) {
       highMax,
       criticalMin,
       criticalMax,
+      projectWriteBack: rawProjectWriteBack,
+      publish: rawPublish,
+      ensemble: rawEnsemble,
+      effort: rawEffort,
+      spendCap: rawSpendCap,
     } = body;
 
     if (!issueLink) {
@@ -62,20 +65,90 @@ export async function POST(request: Request) {
       );
     }
 
-    const issueInfo = parseGitHubIssueUrl(issueLink);
-    if (!issueInfo) {
+    const parsedIssue = parseIssueUrl(issueLink);
+    if (!parsedIssue) {
+      return NextResponse.json(
+        {
+          error: `Invalid issue URL. Expected format: github.com/owner/repo/issues/123 or gitlab.com/group/project/-/issues/123 (${SUPPORTED_PROVIDERS_HINT})`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const parsedWriteBack = parseProjectWriteBack(rawProjectWriteBack);
+    if ('error' in parsedWriteBack) {
       return NextResponse.json(
-        { error: 'Invalid GitHub issue URL. Expected format: github.com/owner/repo/issues/123' },
+        { error: `Invalid projectWriteBack: ${parsedWriteBack.error}` },
         { status: 400 }
       );
     }
+    const writeBackDenied =
+      parsedWriteBack.options && !parsedWriteBack.options.dryRun
+        ? checkGitHubWriteAccess(
+            request,
+            getProjectHost(parsedWriteBack.options)
+          )
+        : null;
+    if (writeBackDenied) {
+      return NextResponse.json(
+        { error: writeBackDenied.error },
+        { status: writeBackDenied.status }
+      );
+    }
 
-    const { owner, repo, issueNumber } = issueInfo;
+    const parsedPublish = parsePublishOptions(rawPublish);
+    if ('error' in parsedPublish) {
+      return NextResponse.json(
+        { error: `Invalid publish: ${parsedPublish.error}` },
+        { status: 400 }
+      );
+    }
+
+    const parsedEnsemble = parseEnsembleOptions(rawEnsemble);
+    if ('error' in parsedEnsemble) {
+      return NextResponse.json(
+        { error: `Invalid ensemble: ${parsedEnsemble.error}` },
+        { status: 400 }
+      );
+    }
+
+    const parsedEffort = parseEffortOptions(rawEffort);
+    if ('error' in parsedEffort) {
+      return NextResponse.json(
+        { error: `Invalid effort: ${parsedEffort.error}` },
+        { status: 400 }
+      );
+    }
+
+    const parsedSpendCap = parseSpendCap(rawSpendCap);
+    if ('error' in parsedSpendCap) {
+      return NextResponse.json(
+        { error: `Invalid spendCap: ${parsedSpendCap.error}` },
+        { status: 400 }
+      );
+    }
+
+    const { provider, issueInfo } = parsedIssue;
+    const { host, owner, repo, issueNumber } = issueInfo;
+
+    const publishDenied = parsedPublish.options
+      ? checkGitHubWriteAccess(request, host)
+      : null;
+    if (publishDenied) {
+      return NextResponse.json(
+        { error: publishDenied.error },
+        { status: publishDenied.status }
+      );
+    }
+    // Signed-in users fetch with their own token so private repos work
+    const clientOptions = getGitHubClientOptions(request, host);
 
     const estimationParams: EstimationParams = {
       minBudget: minBudget ?? EXAMPLE_PARAMS.minBudget,
       maxBudget: maxBudget ?? EXAMPLE_PARAMS.maxBudget,
       model: model ?? EXAMPLE_PARAMS.model,
+      ensemble: parsedEnsemble.options,
+      effort: parsedEffort.options,
     };
 
     if (
@@ -96,21 +169,14 @@ export async function POST(request: Request) {
       };
     }
 
-    logger.info({ owner, repo, issueNumber }, 'Fetching issue');
-
-    const octokit = new Octokit({
-      auth: process.env.GITHUB_TOKEN,
-    });
-
-    const issueResponse = await octokit.rest.issues.get({
-      owner,
-      repo,
-      issue_number: issueNumber,
-    });
+    logger.info(
+      { provider: provider.kind, host, owner, repo, issueNumber },
+      'Fetching issue'
+    );
 
-    const issue = issueResponse.data;
+    const issue = await provider.fetchIssue(issueInfo, clientOptions);
 
-    if ('pull_request' in issue) {
+    if (!issue) {
       return NextResponse.json(
         { error: 'This is a pull request, not an issue' },
         { status: 400 }
@@ -118,10 +184,27 @@ export async function POST(request: Request) {
     }
 
     logger.info('Fetching repository context');
-    const repoContext = await fetchRepoContext(owner, repo);
+    const repoContext = await provider.fetchRepoContext(
+      issueInfo,
+      clientOptions
+    );
 
     logger.info('Enriching issue data');
-    const enrichedIssue = await enrichIssueWithComments(owner, repo, issue);
+    let [enrichedIssue] = provider.attachCodeContext
+      ? await provider.attachCodeContext(
+          issueInfo,
+          repoContext,
+          [issue],
+          clientOptions
+        )
+      : [issue];
+    if (provider.attachCalibration) {
+      [enrichedIssue] = await provider.attachCalibration(
+        issueInfo,
+        [enrichedIssue],
+        clientOptions
+      );
+    }
 
     logger.info('Formatting data for LLM');
     const llmPromptData = formatFullLLMPromptData(repoContext, enrichedIssue);
@@ -137,10 +220,24 @@ export async function POST(request: Request) {
           logger.info({ current, total }, 'Estimation progress');
         },
         saveToFile: false,
+        budget: createRunBudget(parsedSpendCap.spendCap),
       }
     );
 
     const estimation = estimations[0];
+    if (estimation.status === 'failed') {
+      // Retries are used up; the provider is down or keeps answering badly
+      return NextResponse.json(
+        { error: estimation.error, estimation },
+        { status: 502 }
+      );
+    }
+    if (estimation.status === 'skipped') {
+      return NextResponse.json(
+        { error: estimation.error, estimation },
+        { status: 402 }
+      );
+    }
 
     logger.info(
       {
@@ -148,15 +245,43 @@ export async function POST(request: Request) {
         title: estimation.title,
         complexity: estimation.complexity,
         estimatedCost: estimation.estimatedCost,
+        roleHours: estimation.roleHours,
       },
       'Estimation complete'
     );
     logger.debug({ reasoning: estimation.reasoning }, 'Estimation reasoning');
 
+    let projectWriteBack: ProjectWriteBackResult | { error: string } | undefined;
+    if (parsedWriteBack.options) {
+      try {
+        projectWriteBack = await writeEstimationsToProject(
+          [estimation],
+          parsedWriteBack.options,
+          (projectHost) => getGitHubClientOptions(request, projectHost)
+        );
+      } catch (error) {
+        logger.error({ error }, 'Project write-back failed');
+        projectWriteBack = {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+
+    let published: PublishResult | undefined;
+    if (parsedPublish.options) {
+      published = await publishEstimations(
+        [estimation],
+        parsedPublish.options,
+        (issueHost) => getGitHubClientOptions(request, issueHost)
+      );
+    }
+
     return NextResponse.json({
       success: true,
-      repository: { owner, repo },
+      repository: { provider: provider.kind, host, owner, repo },
       estimation,
+      projectWriteBack,
+      published,
       message: `Successfully estimated issue #${issueNumber}`,
     });
   } catch (error: unknown) {
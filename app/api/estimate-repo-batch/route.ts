@@ -1,17 +1,34 @@
 import { NextResponse } from 'next/server';
-import {
-  parseGitHubRepoUrl,
-  fetchAllOpenIssues,
-  fetchRepoContext,
-  enrichIssueWithComments,
-  formatFullLLMPromptData,
-} from '@/app/_lib/services/github';
+import { formatFullLLMPromptData } from '@/app/_lib/services/github';
 import {
   estimateIssuesBatch,
   EstimationParams,
   IssueEstimation,
   EXAMPLE_PARAMS,
 } from '@/app/_lib/services/ai';
+import { parseEffortOptions } from '@/app/_lib/services/effort';
+import { parseEnsembleOptions } from '@/app/_lib/services/ensemble';
+import { parseIssueFilters } from '@/app/_lib/services/issueFilters';
+import {
+  createRunBudget,
+  createUsageMeter,
+  mergeUsage,
+  parseSpendCap,
+} from '@/app/_lib/services/usage';
+import { attachSimilarity } from '@/app/_lib/services/issueSimilarity';
+import {
+  parsePublishOptions,
+  publishEstimations,
+} from '@/app/_lib/services/issuePublisher';
+import {
+  ProviderClientOptions,
+  SUPPORTED_PROVIDERS_HINT,
+  parseRepoUrl,
+} from '@/app/_lib/services/providers';
+import {
+  checkGitHubWriteAccess,
+  getGitHubClientOptions,
+} from '@/app/_lib/services/session';
 import logger from '@/app/_lib/utils/logger';
 import { checkRateLimit } from '@/app/_lib/middleware/rateLimit';
 
@@ -38,6 +55,11 @@ export async function POST(request: Request) {
       highMax,
       criticalMin,
       criticalMax,
+      filters: rawFilters,
+      publish: rawPublish,
+      ensemble: rawEnsemble,
+      effort: rawEffort,
+      spendCap: rawSpendCap,
       startIndex = 0,
       batchSize = 15,
     } = body;
@@ -49,10 +71,38 @@ export async function POST(request: Request) {
       );
     }
 
+    const parsedEnsemble = parseEnsembleOptions(rawEnsemble);
+    if ('error' in parsedEnsemble) {
+      return NextResponse.json(
+        { error: `Invalid ensemble: ${parsedEnsemble.error}` },
+        { status: 400 }
+      );
+    }
+
+    const parsedEffort = parseEffortOptions(rawEffort);
+    if ('error' in parsedEffort) {
+      return NextResponse.json(
+        { error: `Invalid effort: ${parsedEffort.error}` },
+        { status: 400 }
+      );
+    }
+
+    // Batches are separate requests, so the client sends what is left of
+    // the run's cap with each one
+    const parsedSpendCap = parseSpendCap(rawSpendCap);
+    if ('error' in parsedSpendCap) {
+      return NextResponse.json(
+        { error: `Invalid spendCap: ${parsedSpendCap.error}` },
+        { status: 400 }
+      );
+    }
+
     const estimationParams: EstimationParams = {
       minBudget: minBudget ?? EXAMPLE_PARAMS.minBudget,
       maxBudget: maxBudget ?? EXAMPLE_PARAMS.maxBudget,
       model: model ?? EXAMPLE_PARAMS.model,
+      ensemble: parsedEnsemble.options,
+      effort: parsedEffort.options,
     };
 
     if (
@@ -73,60 +123,108 @@ export async function POST(request: Request) {
       };
     }
 
-    const repoInfo = parseGitHubRepoUrl(repoLink);
-    if (!repoInfo) {
+    const parsedRepo = parseRepoUrl(repoLink);
+    if (!parsedRepo) {
       return NextResponse.json(
-        { error: 'Invalid GitHub repository URL' },
+        { error: `Invalid repository URL (${SUPPORTED_PROVIDERS_HINT})` },
         { status: 400 }
       );
     }
 
-    const { owner, repo } = repoInfo;
-
-    // Only fetch repo context and issues list on first batch
-    let repoContext;
-    let allIssues;
-    let totalIssues;
-
-    if (startIndex === 0) {
-      logger.info({ owner, repo }, 'Fetching repository context');
-      repoContext = await fetchRepoContext(owner, repo);
-
-      logger.info('Fetching all open issues');
-      allIssues = await fetchAllOpenIssues(owner, repo);
-      totalIssues = allIssues.length;
-    } else {
-      // For subsequent batches, only fetch the issues
-      logger.info('Fetching all open issues');
-      allIssues = await fetchAllOpenIssues(owner, repo);
-      totalIssues = allIssues.length;
-
-      // Still need repo context for processing
-      logger.info({ owner, repo }, 'Fetching repository context');
-      repoContext = await fetchRepoContext(owner, repo);
+    const parsedFilters = parseIssueFilters(rawFilters);
+    if ('error' in parsedFilters) {
+      return NextResponse.json(
+        { error: `Invalid filters: ${parsedFilters.error}` },
+        { status: 400 }
+      );
+    }
+    const { filters } = parsedFilters;
+
+    const parsedPublish = parsePublishOptions(rawPublish);
+    if ('error' in parsedPublish) {
+      return NextResponse.json(
+        { error: `Invalid publish: ${parsedPublish.error}` },
+        { status: 400 }
+      );
     }
 
+    const { provider, repoInfo } = parsedRepo;
+    const { host, owner, repo } = repoInfo;
+
+    const publishDenied = parsedPublish.options
+      ? checkGitHubWriteAccess(request, host)
+      : null;
+    if (publishDenied) {
+      return NextResponse.json(
+        { error: publishDenied.error },
+        { status: publishDenied.status }
+      );
+    }
+    // Signed-in users fetch with their own token so private repos work. Time
+    // spent on GitHub rate limits is returned so the UI can report it.
+    let rateLimitWaitSeconds = 0;
+    const clientOptions: ProviderClientOptions = {
+      ...getGitHubClientOptions(request, host),
+      onRateLimitWait: (seconds) => {
+        rateLimitWaitSeconds += seconds;
+      },
+    };
+
+    logger.info({ owner, repo }, 'Fetching repository context');
+    const repoContext = await provider.fetchRepoContext(repoInfo, clientOptions);
+
+    // Listing is cheap and cached between batches; comments and timelines
+    // are fetched for this batch's issues only
+    logger.info('Listing open issues');
+    const allIssues = await provider.listOpenIssues(repoInfo, filters, clientOptions);
+    const totalIssues = allIssues.length;
+
     // Get the batch of issues to process
-    const issuesToProcess = allIssues.slice(startIndex, startIndex + batchSize);
+    const listedIssues = allIssues.slice(startIndex, startIndex + batchSize);
 
-    if (issuesToProcess.length === 0) {
+    if (listedIssues.length === 0) {
       return NextResponse.json({
         success: true,
-        repository: { owner, repo },
+        repository: { provider: provider.kind, host, owner, repo },
         totalIssues,
         startIndex,
         batchSize,
         processedCount: 0,
         estimations: [],
+        rateLimitWaitSeconds,
         isComplete: true,
         message: 'No more issues to process',
       });
     }
 
-    logger.info({ count: issuesToProcess.length, startIndex }, 'Enriching issues with comments');
-    const enrichedIssues = await Promise.all(
-      issuesToProcess.map((issue) => enrichIssueWithComments(owner, repo, issue))
-    );
+    logger.info({ count: listedIssues.length, startIndex }, 'Enriching issues with comments');
+    const batchIssues = await provider.enrichIssues(repoInfo, listedIssues, clientOptions);
+
+    logger.info('Collecting referenced code');
+    let enrichedIssues = provider.attachCodeContext
+      ? await provider.attachCodeContext(
+          repoInfo,
+          repoContext,
+          batchIssues,
+          clientOptions
+        )
+      : batchIssues;
+    if (provider.attachCalibration) {
+      logger.info('Calibrating from closed issues');
+      enrichedIssues = await provider.attachCalibration(
+        repoInfo,
+        enrichedIssues,
+        clientOptions
+      );
+    }
+    const budget = createRunBudget(parsedSpendCap.spendCap);
+    const similarityMeter = createUsageMeter(budget);
+    // Compared against every open issue so duplicates in other batches count
+    enrichedIssues = await attachSimilarity(enrichedIssues, {
+      pool: allIssues,
+      model: estimationParams.model,
+      meter: similarityMeter,
+    });
 
     logger.info('Formatting data for LLM');
     enrichedIssues.forEach((issue) => {
@@ -146,23 +244,37 @@ export async function POST(request: Request) {
         saveToFile: false, // Don't save individual batches
         repoOwner: owner,
         repoName: repo,
+        budget,
       }
     );
 
+    // Each batch publishes its own issues so a later failure keeps earlier ones
+    const published = parsedPublish.options
+      ? await publishEstimations(estimations, parsedPublish.options, (issueHost) =>
+          issueHost === host ? clientOptions : getGitHubClientOptions(request, issueHost)
+        )
+      : undefined;
+
     const isComplete = startIndex + batchSize >= totalIssues;
 
     return NextResponse.json({
       success: true,
-      repository: { owner, repo },
+      repository: { provider: provider.kind, host, owner, repo },
       repoContext: startIndex === 0 ? repoContext : undefined, // Only send context on first batch
       totalIssues,
       startIndex,
       batchSize,
-      processedCount: issuesToProcess.length,
+      processedCount: enrichedIssues.length,
       estimations,
+      usage: mergeUsage([
+        ...estimations.map((est) => est.usage),
+        similarityMeter.usage,
+      ]),
+      published,
+      rateLimitWaitSeconds,
       isComplete,
       nextStartIndex: isComplete ? null : startIndex + batchSize,
-      message: `Processed batch: ${startIndex + 1}-${startIndex + issuesToProcess.length} of ${totalIssues} issues`,
+      message: `Processed batch: ${startIndex + 1}-${startIndex + enrichedIssues.length} of ${totalIssues} issues`,
     });
   } catch (error: unknown) {
     logger.error({ error }, 'Error in batch estimation');
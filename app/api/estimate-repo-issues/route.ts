@@ -1,9 +1,6 @@
 import { NextResponse } from 'next/server';
 import {
-  parseGitHubRepoUrl,
-  fetchAllOpenIssues,
-  fetchRepoContext,
-  enrichIssueWithComments,
+  RepoInfo,
   formatFullLLMPromptData,
   writeFormattedLLMOutput,
 } from '@/app/_lib/services/github';
@@ -12,11 +9,55 @@ import {
   EstimationParams,
   IssueEstimation,
   EXAMPLE_PARAMS,
+  isEstimated,
+  failedRepositoryEstimation,
   convertEstimationsToCSV,
+  summarizeEstimations,
   writeEstimationsToCSV,
 } from '@/app/_lib/services/ai';
+import { parseEffortOptions } from '@/app/_lib/services/effort';
+import {
+  RunBudget,
+  UsageMeter,
+  createRunBudget,
+  createUsageMeter,
+  formatUsage,
+  parseSpendCap,
+} from '@/app/_lib/services/usage';
+import { parseEnsembleOptions } from '@/app/_lib/services/ensemble';
+import { IssueFilters, parseIssueFilters } from '@/app/_lib/services/issueFilters';
+import { attachSimilarity } from '@/app/_lib/services/issueSimilarity';
+import {
+  PublishResult,
+  formatPublishedIssue,
+  parsePublishOptions,
+  publishEstimations,
+} from '@/app/_lib/services/issuePublisher';
+import {
+  ProjectWriteBackResult,
+  formatProjectItemPlan,
+  parseProjectWriteBack,
+  getProjectHost,
+  writeEstimationsToProject,
+} from '@/app/_lib/services/projectWriteBack';
+import {
+  ProviderClientOptions,
+  getIssueProvider,
+} from '@/app/_lib/services/providers';
+import {
+  formatRepoFullName,
+  getTargetHosts,
+  parseRepoTargets,
+  resolveRepoTargets,
+} from '@/app/_lib/services/repoTargets';
+import { GitHubClientOptions } from '@/app/_lib/services/githubClient';
+import {
+  checkGitHubWriteAccess,
+  getGitHubClientOptions,
+} from '@/app/_lib/services/session';
 import logger from '@/app/_lib/utils/logger';
 import { checkRateLimit } from '@/app/_lib/middleware/rateLimit';
+import { config } from '@/config';
 
 // Helper to send server-sent events
 function createStreamResponse() {
@@ -41,6 +82,121 @@ function createStreamResponse() {
   return { stream, sendEvent, close };
 }
 
+// The failed row standing in for a repository the run couldn't read
+function failRepository(repoInfo: RepoInfo, error: unknown): IssueEstimation {
+  const message = error instanceof Error ? error.message : String(error);
+  logger.error({ error, ...repoInfo }, 'Repository failed, continuing the run');
+  return failedRepositoryEstimation(
+    formatRepoFullName(repoInfo),
+    `https://${repoInfo.host}/${formatRepoFullName(repoInfo)}`,
+    message
+  );
+}
+
+// Fetch, enrich and estimate the open issues of one repository through the
+// provider serving its host. The repository context is fetched once and
+// shared by all of its issues. Similarity embeddings are recorded on
+// similarityMeter, which the run shares across its repositories.
+async function estimateRepository(
+  getClientOptions: (host: string) => ProviderClientOptions,
+  repoInfo: RepoInfo,
+  filters: IssueFilters,
+  estimationParams: EstimationParams,
+  budget: RunBudget,
+  similarityMeter: UsageMeter,
+  handlers: {
+    onLog: (message: string) => void;
+    onProgress: (current: number, total: number) => void;
+  }
+): Promise<IssueEstimation[]> {
+  const { host, owner, repo } = repoInfo;
+  const clientOptions = getClientOptions(host);
+  const provider = getIssueProvider(host);
+  if (!provider) {
+    throw new Error(`No issue provider is configured for ${host}`);
+  }
+
+  handlers.onLog('> FETCHING REPOSITORY CONTEXT...');
+  const repoContext = await provider.fetchRepoContext(repoInfo, clientOptions);
+
+  handlers.onLog('> LOADING OPEN ISSUES AND COMMENTS...');
+  const openIssues = await provider.fetchOpenIssues(repoInfo, filters, clientOptions);
+  handlers.onLog(`> FOUND ${openIssues.length} ISSUES`);
+
+  if (openIssues.length === 0) {
+    return [];
+  }
+
+  let enrichedIssues = openIssues;
+  if (provider.attachCodeContext) {
+    handlers.onLog('> COLLECTING REFERENCED CODE...');
+    enrichedIssues = await provider.attachCodeContext(
+      repoInfo,
+      repoContext,
+      openIssues,
+      clientOptions
+    );
+  }
+  if (provider.attachCalibration) {
+    handlers.onLog('> CALIBRATING FROM CLOSED ISSUES...');
+    enrichedIssues = await provider.attachCalibration(
+      repoInfo,
+      enrichedIssues,
+      clientOptions
+    );
+  }
+  if (config.similarity.enabled) {
+    handlers.onLog('> CHECKING FOR DUPLICATE ISSUES...');
+    enrichedIssues = await attachSimilarity(enrichedIssues, {
+      model: estimationParams.model,
+      meter: similarityMeter,
+    });
+    const duplicates = enrichedIssues.filter(
+      (issue) => issue.similarity?.duplicateOf
+    ).length;
+    if (duplicates > 0) {
+      handlers.onLog(`> FOUND ${duplicates} POSSIBLE DUPLICATES`);
+    }
+  }
+
+  handlers.onLog('> FORMATTING DATA FOR AI...');
+  enrichedIssues.forEach((issue) => {
+    logger.debug({ issueNumber: issue.number }, 'Formatting issue for LLM');
+    const llmPromptData = formatFullLLMPromptData(repoContext, issue);
+    logger.trace({ llmPromptData }, 'LLM prompt data');
+    writeFormattedLLMOutput(repoContext, issue);
+  });
+
+  handlers.onLog('> STARTING AI ESTIMATION...');
+  const estimations = await estimateIssuesBatch(
+    repoContext,
+    enrichedIssues,
+    estimationParams,
+    {
+      onProgress: handlers.onProgress,
+      saveToFile: true,
+      repoOwner: owner,
+      repoName: repo,
+      budget,
+    }
+  );
+  estimations
+    .filter((est) => !isEstimated(est))
+    .forEach((est) => handlers.onLog(`> FAILED #${est.issueNumber}: ${est.error}`));
+  estimations
+    .filter((est) => est.needsReview)
+    .forEach((est) =>
+      handlers.onLog(
+        `> NEEDS REVIEW #${est.issueNumber}: AGREEMENT ${est.agreement}, CONFIDENCE ${est.confidence}, $${est.costP10}-$${est.costP90}`
+      )
+    );
+
+  // Server-side record per repository
+  writeEstimationsToCSV(estimations, owner, repo);
+
+  return estimations;
+}
+
 export async function POST(request: Request) {
   const rateLimitResponse = await checkRateLimit(request);
   if (rateLimitResponse) {
@@ -51,6 +207,8 @@ export async function POST(request: Request) {
     const body = await request.json();
     const {
       repoLink,
+      repoLinks,
+      repoSelection,
       minBudget,
       maxBudget,
       model,
@@ -62,6 +220,12 @@ export async function POST(request: Request) {
       highMax,
       criticalMin,
       criticalMax,
+      filters: rawFilters,
+      projectWriteBack: rawProjectWriteBack,
+      publish: rawPublish,
+      ensemble: rawEnsemble,
+      effort: rawEffort,
+      spendCap: rawSpendCap,
       stream: enableStreaming,
     } = body;
 
@@ -74,16 +238,36 @@ export async function POST(request: Request) {
         try {
           sendEvent({ type: 'log', message: '> PARSING REPOSITORY URL...' });
 
-          if (!repoLink) {
-            sendEvent({ type: 'error', message: 'Repository link is required' });
+          const parsedEnsemble = parseEnsembleOptions(rawEnsemble);
+          if ('error' in parsedEnsemble) {
+            sendEvent({ type: 'error', message: `Invalid ensemble: ${parsedEnsemble.error}` });
             close();
             return;
           }
 
+          const parsedEffort = parseEffortOptions(rawEffort);
+          if ('error' in parsedEffort) {
+            sendEvent({ type: 'error', message: `Invalid effort: ${parsedEffort.error}` });
+            close();
+            return;
+          }
+
+          const parsedSpendCap = parseSpendCap(rawSpendCap);
+          if ('error' in parsedSpendCap) {
+            sendEvent({ type: 'error', message: `Invalid spendCap: ${parsedSpendCap.error}` });
+            close();
+            return;
+          }
+          // One budget for every repository of the run
+          const budget = createRunBudget(parsedSpendCap.spendCap);
+          const similarityMeter = createUsageMeter(budget);
+
           const estimationParams: EstimationParams = {
             minBudget: minBudget ?? EXAMPLE_PARAMS.minBudget,
             maxBudget: maxBudget ?? EXAMPLE_PARAMS.maxBudget,
             model: model ?? EXAMPLE_PARAMS.model,
+            ensemble: parsedEnsemble.options,
+            effort: parsedEffort.options,
           };
 
           if (
@@ -104,85 +288,228 @@ export async function POST(request: Request) {
             };
           }
 
-          const repoInfo = parseGitHubRepoUrl(repoLink);
-          if (!repoInfo) {
-            sendEvent({ type: 'error', message: 'Invalid GitHub repository URL' });
+          const parsedTargets = parseRepoTargets({ repoLink, repoLinks, repoSelection });
+          if ('error' in parsedTargets) {
+            sendEvent({ type: 'error', message: parsedTargets.error });
             close();
             return;
           }
 
-          const { owner, repo } = repoInfo;
+          const parsedFilters = parseIssueFilters(rawFilters);
+          if ('error' in parsedFilters) {
+            sendEvent({ type: 'error', message: `Invalid filters: ${parsedFilters.error}` });
+            close();
+            return;
+          }
+          const { filters } = parsedFilters;
 
-          sendEvent({ type: 'log', message: '> FETCHING REPOSITORY CONTEXT...' });
-          const repoContext = await fetchRepoContext(owner, repo);
+          const parsedWriteBack = parseProjectWriteBack(rawProjectWriteBack);
+          if ('error' in parsedWriteBack) {
+            sendEvent({ type: 'error', message: `Invalid projectWriteBack: ${parsedWriteBack.error}` });
+            close();
+            return;
+          }
+          const writeBackDenied =
+            parsedWriteBack.options && !parsedWriteBack.options.dryRun
+              ? checkGitHubWriteAccess(request, getProjectHost(parsedWriteBack.options))
+              : null;
+          if (writeBackDenied) {
+            sendEvent({ type: 'error', message: writeBackDenied.error });
+            close();
+            return;
+          }
 
-          sendEvent({ type: 'log', message: '> LOADING OPEN ISSUES...' });
-          const allIssues = await fetchAllOpenIssues(owner, repo);
-          sendEvent({ type: 'log', message: `> FOUND ${allIssues.length} ISSUES` });
+          const parsedPublish = parsePublishOptions(rawPublish);
+          if ('error' in parsedPublish) {
+            sendEvent({ type: 'error', message: `Invalid publish: ${parsedPublish.error}` });
+            close();
+            return;
+          }
+          const publishDenied = parsedPublish.options
+            ? getTargetHosts(parsedTargets.targets)
+                .map((host) => checkGitHubWriteAccess(request, host))
+                .find(Boolean)
+            : null;
+          if (publishDenied) {
+            sendEvent({ type: 'error', message: publishDenied.error });
+            close();
+            return;
+          }
 
-          sendEvent({ type: 'log', message: '> ENRICHING ISSUE DATA...' });
-          const enrichedIssues = await Promise.all(
-            allIssues.map((issue) => enrichIssueWithComments(owner, repo, issue))
+          // Signed-in users fetch with their own token so private repos work.
+          // Rate-limit waits are streamed so the run doesn't look stuck.
+          const getClientOptions = (host: string): GitHubClientOptions => ({
+            ...getGitHubClientOptions(request, host),
+            onRateLimitWait: (seconds) =>
+              sendEvent({
+                type: 'log',
+                message: `> WAITING FOR GITHUB RATE LIMIT (${seconds} S)`,
+                data: { waitSeconds: seconds },
+              }),
+          });
+
+          sendEvent({ type: 'log', message: '> RESOLVING REPOSITORIES...' });
+          const { repositories, dropped, maxRepositories } = await resolveRepoTargets(
+            parsedTargets.targets,
+            getClientOptions
           );
+          if (repositories.length === 0) {
+            sendEvent({ type: 'error', message: 'No repositories matched the selection' });
+            close();
+            return;
+          }
+          sendEvent({ type: 'log', message: `> ${repositories.length} REPOSITORIES SELECTED` });
+          if (dropped > 0) {
+            sendEvent({
+              type: 'log',
+              message: `> ${dropped} MORE REPOSITORIES MATCHED, LEFT OUT BY THE LIMIT OF ${maxRepositories}`,
+              data: { droppedRepositories: dropped, maxRepositories },
+            });
+          }
 
-          sendEvent({ type: 'log', message: '> FORMATTING DATA FOR AI...' });
-          enrichedIssues.forEach((issue) => {
-            formatFullLLMPromptData(repoContext, issue);
-            writeFormattedLLMOutput(repoContext, issue);
-          });
+          const estimations: IssueEstimation[] = [];
 
-          sendEvent({ type: 'log', message: '> STARTING AI ESTIMATION...' });
+          for (const [index, repoInfo] of repositories.entries()) {
+            if (budget.signal.aborted) {
+              sendEvent({
+                type: 'log',
+                message: `> SPEND CAP REACHED, SKIPPING ${repositories.length - index} REPOSITORIES`,
+              });
+              break;
+            }
+            const fullName = formatRepoFullName(repoInfo).toUpperCase();
+            if (repositories.length > 1) {
+              sendEvent({
+                type: 'log',
+                message: `> REPOSITORY ${index + 1}/${repositories.length}: ${fullName}`,
+              });
+            }
 
-          const estimations: IssueEstimation[] = await estimateIssuesBatch(
-            repoContext,
-            enrichedIssues,
-            estimationParams,
-            {
-              onProgress: (current, total) => {
-                const batchNum = Math.ceil(current / 5);
-                const totalBatches = Math.ceil(total / 5);
-                if (current % 5 === 0 || current === total) {
-                  sendEvent({
-                    type: 'log',
-                    message: `> BATCH ${batchNum}/${totalBatches} | ISSUES ${current}/${total}`
-                  });
+            let repoEstimations: IssueEstimation[];
+            try {
+              repoEstimations = await estimateRepository(
+                getClientOptions,
+                repoInfo,
+                filters,
+                estimationParams,
+                budget,
+                similarityMeter,
+                {
+                  onLog: (message) => sendEvent({ type: 'log', message }),
+                  onProgress: (current, total) =>
+                    sendEvent({
+                      type: 'log',
+                      message: `> ESTIMATED ${current}/${total} ISSUES`,
+                      data: { current, total },
+                    }),
                 }
-              },
-              saveToFile: true,
-              repoOwner: owner,
-              repoName: repo,
+              );
+            } catch (error) {
+              // One unreadable repository doesn't cost the rest of the run
+              if (repositories.length === 1) {
+                throw error;
+              }
+              repoEstimations = [failRepository(repoInfo, error)];
+              sendEvent({
+                type: 'log',
+                message: `> REPOSITORY FAILED ${fullName}: ${repoEstimations[0].error}`,
+              });
             }
-          );
+            estimations.push(...repoEstimations);
+
+            if (repositories.length > 1) {
+              const subtotal = repoEstimations.reduce((sum, est) => sum + est.estimatedCost, 0);
+              sendEvent({
+                type: 'log',
+                message: `> SUBTOTAL ${fullName}: $${subtotal.toFixed(2)}`,
+              });
+            }
+          }
 
-          const totalCost = estimations.reduce((sum, est) => sum + est.estimatedCost, 0);
-          const avgCost = totalCost / estimations.length;
-          const complexityCounts = estimations.reduce(
-            (acc, est) => {
-              acc[est.complexity] = (acc[est.complexity] || 0) + 1;
-              return acc;
-            },
-            {} as Record<string, number>
-          );
+          const summary = summarizeEstimations(estimations, [similarityMeter.usage]);
 
           sendEvent({ type: 'log', message: '> ESTIMATION COMPLETE' });
-          sendEvent({ type: 'log', message: `> TOTAL COST: $${totalCost.toFixed(2)}` });
-          sendEvent({ type: 'log', message: `> AVG COST: $${avgCost.toFixed(2)}` });
+          sendEvent({ type: 'log', message: `> TOTAL COST: $${summary.totalCost.toFixed(2)}` });
+          sendEvent({ type: 'log', message: `> AVG COST: $${summary.avgCost.toFixed(2)}` });
+          if (summary.totalHours > 0) {
+            sendEvent({ type: 'log', message: `> TOTAL HOURS: ${summary.totalHours}` });
+          }
+          if (summary.failedCount > 0) {
+            sendEvent({ type: 'log', message: `> ${summary.failedCount} ISSUES FAILED` });
+          }
+          if (summary.needsReviewCount > 0) {
+            sendEvent({ type: 'log', message: `> ${summary.needsReviewCount} ISSUES NEED REVIEW` });
+          }
+          if (summary.skippedCount > 0) {
+            sendEvent({
+              type: 'log',
+              message: `> SPEND CAP OF $${budget.spendCap} REACHED: ${summary.skippedCount} ISSUES SKIPPED`,
+            });
+          }
+          sendEvent({ type: 'log', message: `> LLM USAGE: ${formatUsage(summary.usage).toUpperCase()}` });
           sendEvent({ type: 'log', message: '> GENERATING CSV...' });
 
           const csvContent = convertEstimationsToCSV(estimations);
-          writeEstimationsToCSV(estimations, owner, repo);
+
+          let projectWriteBack: ProjectWriteBackResult | { error: string } | undefined;
+          if (parsedWriteBack.options) {
+            const { dryRun } = parsedWriteBack.options;
+            sendEvent({
+              type: 'log',
+              message: `> PROJECT WRITE-BACK${dryRun ? ' (DRY RUN)' : ''}...`,
+            });
+            try {
+              projectWriteBack = await writeEstimationsToProject(
+                estimations,
+                parsedWriteBack.options,
+                getClientOptions
+              );
+              projectWriteBack.items
+                .filter((item) => item.addToProject || item.changes.length > 0 || item.warnings.length > 0)
+                .forEach((item) => sendEvent({ type: 'log', message: `> ${formatProjectItemPlan(item)}` }));
+              const { itemsToAdd, fieldChanges, failed } = projectWriteBack.summary;
+              sendEvent({
+                type: 'log',
+                message: `> PROJECT: ${itemsToAdd} TO ADD, ${fieldChanges} FIELD CHANGES${dryRun ? '' : `, ${failed} FAILED`}`,
+              });
+            } catch (error) {
+              // The estimates are still good; report the write-back failure alone
+              const message = error instanceof Error ? error.message : 'Unknown error';
+              projectWriteBack = { error: message };
+              sendEvent({ type: 'log', message: `> PROJECT WRITE-BACK FAILED: ${message}` });
+            }
+          }
+
+          let published: PublishResult | undefined;
+          if (parsedPublish.options) {
+            sendEvent({ type: 'log', message: '> PUBLISHING ESTIMATES TO ISSUES...' });
+            published = await publishEstimations(
+              estimations,
+              parsedPublish.options,
+              getClientOptions
+            );
+            published.items.forEach((item) =>
+              sendEvent({ type: 'log', message: `> ${formatPublishedIssue(item)}` })
+            );
+            sendEvent({
+              type: 'log',
+              message: `> PUBLISHED ${published.summary.published}, FAILED ${published.summary.failed}`,
+            });
+          }
 
           sendEvent({
             type: 'complete',
             message: '> READY FOR DOWNLOAD',
             data: {
               success: true,
-              repository: { owner, repo },
-              totalIssues: allIssues.length,
-              processedIssues: enrichedIssues.length,
+              repositories,
+              totalIssues: estimations.length,
+              processedIssues: estimations.length,
               estimations,
               csvContent,
-              summary: { totalCost, avgCost, complexityCounts },
+              summary,
+              projectWriteBack,
+              published,
             },
           });
 
@@ -205,9 +532,26 @@ export async function POST(request: Request) {
       });
     }
 
-    if (!repoLink) {
+    const parsedEnsemble = parseEnsembleOptions(rawEnsemble);
+    if ('error' in parsedEnsemble) {
+      return NextResponse.json(
+        { error: `Invalid ensemble: ${parsedEnsemble.error}` },
+        { status: 400 }
+      );
+    }
+
+    const parsedEffort = parseEffortOptions(rawEffort);
+    if ('error' in parsedEffort) {
       return NextResponse.json(
-        { error: 'Repository link is required' },
+        { error: `Invalid effort: ${parsedEffort.error}` },
+        { status: 400 }
+      );
+    }
+
+    const parsedSpendCap = parseSpendCap(rawSpendCap);
+    if ('error' in parsedSpendCap) {
+      return NextResponse.json(
+        { error: `Invalid spendCap: ${parsedSpendCap.error}` },
         { status: 400 }
       );
     }
@@ -217,6 +561,8 @@ export async function POST(request: Request) {
       minBudget: minBudget ?? EXAMPLE_PARAMS.minBudget,
       maxBudget: maxBudget ?? EXAMPLE_PARAMS.maxBudget,
       model: model ?? EXAMPLE_PARAMS.model,
+      ensemble: parsedEnsemble.options,
+      effort: parsedEffort.options,
     };
 
     // Add complexity-specific budgets if all are provided
@@ -240,73 +586,131 @@ export async function POST(request: Request) {
 
     logger.info({ estimationParams }, 'Estimation parameters configured');
 
-    const repoInfo = parseGitHubRepoUrl(repoLink);
-    if (!repoInfo) {
+    const parsedTargets = parseRepoTargets({ repoLink, repoLinks, repoSelection });
+    if ('error' in parsedTargets) {
+      return NextResponse.json({ error: parsedTargets.error }, { status: 400 });
+    }
+
+    const parsedFilters = parseIssueFilters(rawFilters);
+    if ('error' in parsedFilters) {
       return NextResponse.json(
-        { error: 'Invalid GitHub repository URL' },
+        { error: `Invalid filters: ${parsedFilters.error}` },
         { status: 400 }
       );
     }
+    const { filters } = parsedFilters;
+    logger.info({ filters }, 'Issue filters configured');
 
-    const { owner, repo } = repoInfo;
+    const parsedWriteBack = parseProjectWriteBack(rawProjectWriteBack);
+    if ('error' in parsedWriteBack) {
+      return NextResponse.json(
+        { error: `Invalid projectWriteBack: ${parsedWriteBack.error}` },
+        { status: 400 }
+      );
+    }
+    const writeBackDenied =
+      parsedWriteBack.options && !parsedWriteBack.options.dryRun
+        ? checkGitHubWriteAccess(request, getProjectHost(parsedWriteBack.options))
+        : null;
+    if (writeBackDenied) {
+      return NextResponse.json(
+        { error: writeBackDenied.error },
+        { status: writeBackDenied.status }
+      );
+    }
 
-    logger.info({ owner, repo }, 'Fetching repository context');
-    const repoContext = await fetchRepoContext(owner, repo);
+    const parsedPublish = parsePublishOptions(rawPublish);
+    if ('error' in parsedPublish) {
+      return NextResponse.json(
+        { error: `Invalid publish: ${parsedPublish.error}` },
+        { status: 400 }
+      );
+    }
+    const publishDenied = parsedPublish.options
+      ? getTargetHosts(parsedTargets.targets)
+          .map((host) => checkGitHubWriteAccess(request, host))
+          .find(Boolean)
+      : null;
+    if (publishDenied) {
+      return NextResponse.json(
+        { error: publishDenied.error },
+        { status: publishDenied.status }
+      );
+    }
 
-    logger.info('Fetching all open issues');
-    const allIssues = await fetchAllOpenIssues(owner, repo);
+    // Signed-in users fetch with their own token so private repos work
+    const getClientOptions = (host: string) => getGitHubClientOptions(request, host);
 
-    const issuesToEnrich = allIssues;
-    logger.info({ count: issuesToEnrich.length }, 'Enriching issues with comments');
-    const enrichedIssues = await Promise.all(
-      issuesToEnrich.map((issue) => enrichIssueWithComments(owner, repo, issue))
+    const { repositories, dropped, maxRepositories } = await resolveRepoTargets(
+      parsedTargets.targets,
+      getClientOptions
     );
-
-    logger.info('Formatting data for LLM');
-    enrichedIssues.forEach((issue) => {
-      logger.debug({ issueNumber: issue.number }, 'Formatting issue for LLM');
-      const llmPromptData = formatFullLLMPromptData(repoContext, issue);
-      logger.trace({ llmPromptData }, 'LLM prompt data');
-      writeFormattedLLMOutput(repoContext, issue);
-    });
-
-    logger.info({ count: enrichedIssues.length }, 'Starting AI estimation');
-
-    const estimations: IssueEstimation[] = await estimateIssuesBatch(
-      repoContext,
-      enrichedIssues,
-      estimationParams,
-      {
-        onProgress: (current, total) => {
-          logger.info({ current, total }, 'Estimation progress');
-        },
-        saveToFile: true,
-        repoOwner: owner,
-        repoName: repo,
-      }
+    if (repositories.length === 0) {
+      return NextResponse.json(
+        { error: 'No repositories matched the selection' },
+        { status: 404 }
+      );
+    }
+    logger.info(
+      { repositories: repositories.map(formatRepoFullName), dropped },
+      'Repositories selected'
     );
+    if (dropped > 0) {
+      logger.warn({ dropped, maxRepositories }, 'Repositories left out by the limit');
+    }
 
-    const totalCost = estimations.reduce(
-      (sum, est) => sum + est.estimatedCost,
-      0
-    );
-    const avgCost = totalCost / estimations.length;
+    const estimations: IssueEstimation[] = [];
+    // One budget for every repository of the run
+    const budget = createRunBudget(parsedSpendCap.spendCap);
+    const similarityMeter = createUsageMeter(budget);
+
+    for (const [index, repoInfo] of repositories.entries()) {
+      if (budget.signal.aborted) {
+        logger.warn(
+          { skippedRepositories: repositories.length - index },
+          'Spend cap reached, skipping the remaining repositories'
+        );
+        break;
+      }
+      logger.info(repoInfo, 'Estimating repository');
+      try {
+        estimations.push(
+          ...(await estimateRepository(
+            getClientOptions,
+            repoInfo,
+            filters,
+            estimationParams,
+            budget,
+            similarityMeter,
+            {
+              onLog: (message) => logger.debug({ ...repoInfo }, message),
+              onProgress: (current, total) => {
+                logger.info({ current, total }, 'Estimation progress');
+              },
+            }
+          ))
+        );
+      } catch (error) {
+        if (repositories.length === 1) {
+          throw error;
+        }
+        estimations.push(failRepository(repoInfo, error));
+      }
+    }
 
-    const complexityCounts = estimations.reduce(
-      (acc, est) => {
-        acc[est.complexity] = (acc[est.complexity] || 0) + 1;
-        return acc;
-      },
-      {} as Record<string, number>
-    );
+    const summary = summarizeEstimations(estimations, [similarityMeter.usage]);
 
     logger.info(
       {
         totalIssues: estimations.length,
         budgetRange: `$${estimationParams.minBudget} - $${estimationParams.maxBudget}`,
-        totalCost,
-        avgCost,
-        complexityCounts,
+        totalCost: summary.totalCost,
+        avgCost: summary.avgCost,
+        totalHours: summary.totalHours,
+        complexityCounts: summary.complexityCounts,
+        failedCount: summary.failedCount,
+        skippedCount: summary.skippedCount,
+        usage: summary.usage,
       },
       'AI estimation results'
     );
@@ -314,10 +718,12 @@ export async function POST(request: Request) {
     estimations.forEach((est) => {
       logger.debug(
         {
+          repository: est.repository,
           issueNumber: est.issueNumber,
           title: est.title,
           complexity: est.complexity,
           estimatedCost: est.estimatedCost,
+          roleHours: est.roleHours,
           labels: est.labels,
           url: est.url,
           reasoning: est.reasoning,
@@ -329,24 +735,42 @@ export async function POST(request: Request) {
     // Generate CSV content
     const csvContent = convertEstimationsToCSV(estimations);
 
-    // Also write to file for server-side record
-    writeEstimationsToCSV(estimations, owner, repo);
+    let projectWriteBack: ProjectWriteBackResult | { error: string } | undefined;
+    if (parsedWriteBack.options) {
+      try {
+        projectWriteBack = await writeEstimationsToProject(
+          estimations,
+          parsedWriteBack.options,
+          getClientOptions
+        );
+      } catch (error) {
+        // The estimates are still good; report the write-back failure alone
+        logger.error({ error }, 'Project write-back failed');
+        projectWriteBack = {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        };
+      }
+    }
+
+    const published = parsedPublish.options
+      ? await publishEstimations(estimations, parsedPublish.options, getClientOptions)
+      : undefined;
 
     return NextResponse.json({
       success: true,
-      repository: { owner, repo },
-      repoContext,
+      repositories,
+      droppedRepositories: dropped,
+      maxRepositories,
       estimationParams,
-      totalIssues: allIssues.length,
-      processedIssues: enrichedIssues.length,
+      filters,
+      totalIssues: estimations.length,
+      processedIssues: estimations.length,
       estimations,
       csvContent,
-      summary: {
-        totalCost,
-        avgCost,
-        complexityCounts,
-      },
-      message: `Processed and estimated ${estimations.length} issues. Total estimated cost: $${totalCost.toFixed(2)}`,
+      summary,
+      projectWriteBack,
+      published,
+      message: `Processed and estimated ${summary.issueCount} issues across ${repositories.length} repositories${summary.failedCount > 0 ? ` (${summary.failedCount} failed)` : ''}. Total estimated cost: $${summary.totalCost.toFixed(2)}${summary.skippedCount > 0 ? `. Spend cap reached, ${summary.skippedCount} issues skipped` : ''}`,
     });
   } catch (error: unknown) {
     logger.error({ error }, 'Error fetching and estimating issues');
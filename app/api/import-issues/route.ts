@@ -0,0 +1,251 @@
+import { NextResponse } from 'next/server';
+import {
+  formatFullLLMPromptData,
+  writeFormattedLLMOutput,
+} from '@/app/_lib/services/github';
+import {
+  estimateIssuesBatch,
+  EstimationParams,
+  EXAMPLE_PARAMS,
+  convertEstimationsToCSV,
+  summarizeEstimations,
+  writeEstimationsToCSV,
+} from '@/app/_lib/services/ai';
+import { parseEffortOptions } from '@/app/_lib/services/effort';
+import { parseEnsembleOptions } from '@/app/_lib/services/ensemble';
+import {
+  SavedImportMapping,
+  detectImportFormat,
+  importIssues,
+  parseImportMapping,
+  parseImportSource,
+  resolveImportMapping,
+  saveImportMapping,
+} from '@/app/_lib/services/issueImport';
+import { attachSimilarity } from '@/app/_lib/services/issueSimilarity';
+import {
+  createRunBudget,
+  createUsageMeter,
+  parseSpendCap,
+} from '@/app/_lib/services/usage';
+import logger from '@/app/_lib/utils/logger';
+import { checkRateLimit } from '@/app/_lib/middleware/rateLimit';
+import { config } from '@/config';
+
+/**
+ * Estimate a backlog uploaded as a JSON or CSV export (Jira, a spreadsheet,
+ * an offline tracker) instead of fetching it from an issue tracker
+ */
+export async function POST(request: Request) {
+  const rateLimitResponse = await checkRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const body = await request.json();
+    const {
+      source: rawSource,
+      content,
+      fileName,
+      format: rawFormat,
+      mapping: rawMapping,
+      saveMapping = true,
+      repoContext: rawRepoContext,
+      minBudget,
+      maxBudget,
+      model,
+      lowMin,
+      lowMax,
+      mediumMin,
+      mediumMax,
+      highMin,
+      highMax,
+      criticalMin,
+      criticalMax,
+      ensemble: rawEnsemble,
+      effort: rawEffort,
+      spendCap: rawSpendCap,
+    } = body;
+
+    const parsedSource = parseImportSource(rawSource);
+    if ('error' in parsedSource) {
+      return NextResponse.json({ error: parsedSource.error }, { status: 400 });
+    }
+    const { source } = parsedSource;
+
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        { error: 'File content is required' },
+        { status: 400 }
+      );
+    }
+    if (Buffer.byteLength(content) > config.import.maxFileBytes) {
+      return NextResponse.json(
+        {
+          error: `File is larger than ${config.import.maxFileBytes} bytes`,
+        },
+        { status: 413 }
+      );
+    }
+
+    if (
+      rawFormat !== undefined &&
+      rawFormat !== 'json' &&
+      rawFormat !== 'csv'
+    ) {
+      return NextResponse.json(
+        { error: 'format must be json or csv' },
+        { status: 400 }
+      );
+    }
+    const format = rawFormat ?? detectImportFormat(content, fileName);
+
+    const parsedMapping = parseImportMapping(rawMapping);
+    if ('error' in parsedMapping) {
+      return NextResponse.json(
+        { error: `Invalid mapping: ${parsedMapping.error}` },
+        { status: 400 }
+      );
+    }
+    const mapping = resolveImportMapping(source, parsedMapping.mapping);
+
+    const parsedEnsemble = parseEnsembleOptions(rawEnsemble);
+    if ('error' in parsedEnsemble) {
+      return NextResponse.json(
+        { error: `Invalid ensemble: ${parsedEnsemble.error}` },
+        { status: 400 }
+      );
+    }
+
+    const parsedEffort = parseEffortOptions(rawEffort);
+    if ('error' in parsedEffort) {
+      return NextResponse.json(
+        { error: `Invalid effort: ${parsedEffort.error}` },
+        { status: 400 }
+      );
+    }
+
+    const parsedSpendCap = parseSpendCap(rawSpendCap);
+    if ('error' in parsedSpendCap) {
+      return NextResponse.json(
+        { error: `Invalid spendCap: ${parsedSpendCap.error}` },
+        { status: 400 }
+      );
+    }
+
+    const imported = importIssues(
+      content,
+      format,
+      mapping,
+      source,
+      rawRepoContext
+    );
+    if ('error' in imported) {
+      return NextResponse.json({ error: imported.error }, { status: 400 });
+    }
+    const { repoContext } = imported;
+
+    const budget = createRunBudget(parsedSpendCap.spendCap);
+    const similarityMeter = createUsageMeter(budget);
+    const issues = await attachSimilarity(imported.issues, {
+      model: model ?? EXAMPLE_PARAMS.model,
+      meter: similarityMeter,
+    });
+
+    // Saved only once the mapping has produced a valid import
+    let savedMapping: SavedImportMapping | undefined;
+    if (saveMapping && Object.keys(parsedMapping.mapping).length > 0) {
+      try {
+        savedMapping = saveImportMapping(source, mapping);
+      } catch (error) {
+        logger.warn({ error, source }, 'Failed to save import mapping');
+      }
+    }
+
+    const estimationParams: EstimationParams = {
+      minBudget: minBudget ?? EXAMPLE_PARAMS.minBudget,
+      maxBudget: maxBudget ?? EXAMPLE_PARAMS.maxBudget,
+      model: model ?? EXAMPLE_PARAMS.model,
+      ensemble: parsedEnsemble.options,
+      effort: parsedEffort.options,
+    };
+
+    if (
+      lowMin !== undefined &&
+      lowMax !== undefined &&
+      mediumMin !== undefined &&
+      mediumMax !== undefined &&
+      highMin !== undefined &&
+      highMax !== undefined &&
+      criticalMin !== undefined &&
+      criticalMax !== undefined
+    ) {
+      estimationParams.complexityBudgets = {
+        low: { min: Number(lowMin), max: Number(lowMax) },
+        medium: { min: Number(mediumMin), max: Number(mediumMax) },
+        high: { min: Number(highMin), max: Number(highMax) },
+        critical: { min: Number(criticalMin), max: Number(criticalMax) },
+      };
+    }
+
+    logger.info(
+      { source, format, issues: issues.length },
+      'Estimating imported issues'
+    );
+
+    issues.forEach((issue) => {
+      const llmPromptData = formatFullLLMPromptData(repoContext, issue);
+      logger.trace({ llmPromptData }, 'LLM prompt data');
+      writeFormattedLLMOutput(repoContext, issue);
+    });
+
+    const estimations = await estimateIssuesBatch(
+      repoContext,
+      issues,
+      estimationParams,
+      {
+        onProgress: (current, total) => {
+          logger.info({ current, total }, 'Estimation progress');
+        },
+        saveToFile: true,
+        repoOwner: 'import',
+        repoName: source,
+        budget,
+      }
+    );
+
+    // Server-side record, stored next to the per-repository CSVs
+    writeEstimationsToCSV(estimations, 'import', source);
+
+    const csvContent = convertEstimationsToCSV(estimations);
+    const summary = summarizeEstimations(estimations, [similarityMeter.usage]);
+
+    return NextResponse.json({
+      success: true,
+      source,
+      format,
+      mapping,
+      savedMapping,
+      repoContext,
+      estimationParams,
+      totalIssues: issues.length,
+      processedIssues: estimations.length,
+      estimations,
+      csvContent,
+      summary,
+      message: `Imported and estimated ${summary.issueCount} issues from ${source}${summary.failedCount > 0 ? ` (${summary.failedCount} failed)` : ''}. Total estimated cost: $${summary.totalCost.toFixed(2)}${summary.skippedCount > 0 ? `. Spend cap reached, ${summary.skippedCount} issues skipped` : ''}`,
+    });
+  } catch (error: unknown) {
+    logger.error({ error }, 'Error estimating imported issues');
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to estimate imported issues',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import {
+  DEFAULT_IMPORT_MAPPING,
+  listImportMappings,
+  loadImportMapping,
+  parseImportMapping,
+  parseImportSource,
+  resolveImportMapping,
+  saveImportMapping,
+} from '@/app/_lib/services/issueImport';
+import logger from '@/app/_lib/utils/logger';
+import { checkRateLimit } from '@/app/_lib/middleware/rateLimit';
+
+/**
+ * Saved column mappings: all of them, or the one for ?source=
+ */
+export async function GET(request: Request) {
+  const rateLimitResponse = await checkRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  const sourceParam = new URL(request.url).searchParams.get('source');
+  if (sourceParam === null) {
+    return NextResponse.json({
+      defaults: DEFAULT_IMPORT_MAPPING,
+      mappings: listImportMappings(),
+    });
+  }
+
+  const parsedSource = parseImportSource(sourceParam);
+  if ('error' in parsedSource) {
+    return NextResponse.json({ error: parsedSource.error }, { status: 400 });
+  }
+
+  const saved = loadImportMapping(parsedSource.source);
+  return NextResponse.json({
+    source: parsedSource.source,
+    saved: Boolean(saved),
+    updatedAt: saved?.updatedAt,
+    mapping: resolveImportMapping(parsedSource.source, {}),
+  });
+}
+
+/**
+ * Save the column mapping for a source, replacing any earlier one
+ */
+export async function PUT(request: Request) {
+  const rateLimitResponse = await checkRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { source, mapping } = await request.json();
+
+    const parsedSource = parseImportSource(source);
+    if ('error' in parsedSource) {
+      return NextResponse.json({ error: parsedSource.error }, { status: 400 });
+    }
+    const parsedMapping = parseImportMapping(mapping);
+    if ('error' in parsedMapping) {
+      return NextResponse.json(
+        { error: `Invalid mapping: ${parsedMapping.error}` },
+        { status: 400 }
+      );
+    }
+
+    const saved = saveImportMapping(parsedSource.source, {
+      ...DEFAULT_IMPORT_MAPPING,
+      ...parsedMapping.mapping,
+    });
+    return NextResponse.json(saved);
+  } catch (error: unknown) {
+    logger.error({ error }, 'Error saving import mapping');
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'Failed to save mapping',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getDefaultModel, listModels } from '@/app/_lib/services/llm';
+import { checkRateLimit } from '@/app/_lib/middleware/rateLimit';
+
+/**
+ * Models of the LLM providers configured on the server, for the model picker
+ */
+export async function GET(request: Request) {
+  const rateLimitResponse = await checkRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  return NextResponse.json({
+    models: listModels(),
+    defaultModel: getDefaultModel(),
+  });
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from 'next/server';
+import { IssueEstimation } from '@/app/_lib/services/ai';
+import {
+  formatProjectItemPlan,
+  getProjectHost,
+  parseProjectWriteBack,
+  writeEstimationsToProject,
+} from '@/app/_lib/services/projectWriteBack';
+import {
+  checkGitHubWriteAccess,
+  getGitHubClientOptions,
+} from '@/app/_lib/services/session';
+import logger from '@/app/_lib/utils/logger';
+import { checkRateLimit } from '@/app/_lib/middleware/rateLimit';
+
+function isEstimation(value: unknown): value is IssueEstimation {
+  const estimation = value as Partial<IssueEstimation> | null;
+  return (
+    typeof estimation === 'object' &&
+    estimation !== null &&
+    typeof estimation.url === 'string' &&
+    typeof estimation.issueNumber === 'number' &&
+    typeof estimation.estimatedCost === 'number' &&
+    // Failed estimates (complexity null) are accepted and skipped
+    (typeof estimation.complexity === 'string' || estimation.complexity === null)
+  );
+}
+
+/**
+ * Write estimations from a finished run to a GitHub Project (v2). Used by
+ * the UI after batch runs; dry-run unless `dryRun: false` is sent.
+ */
+export async function POST(request: Request) {
+  const rateLimitResponse = await checkRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { projectUrl, fields, dryRun, estimations } = await request.json();
+
+    const parsed = parseProjectWriteBack({ projectUrl, fields, dryRun });
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    if (!parsed.options) {
+      return NextResponse.json(
+        { error: 'Project URL and field mapping are required' },
+        { status: 400 }
+      );
+    }
+
+    // A dry run only reads; writing needs the user's own token
+    if (!parsed.options.dryRun) {
+      const denied = checkGitHubWriteAccess(
+        request,
+        getProjectHost(parsed.options)
+      );
+      if (denied) {
+        return NextResponse.json(
+          { error: denied.error },
+          { status: denied.status }
+        );
+      }
+    }
+
+    if (!Array.isArray(estimations) || !estimations.every(isEstimation)) {
+      return NextResponse.json(
+        { error: 'estimations must be an array of issue estimations' },
+        { status: 400 }
+      );
+    }
+
+    const result = await writeEstimationsToProject(
+      estimations,
+      parsed.options,
+      (host) => getGitHubClientOptions(request, host)
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      // Human-readable diff for items that change, for the UI log
+      lines: result.items
+        .filter(
+          (item) =>
+            item.addToProject ||
+            item.changes.length > 0 ||
+            item.warnings.length > 0 ||
+            item.status === 'failed'
+        )
+        .map(formatProjectItemPlan),
+    });
+  } catch (error: unknown) {
+    logger.error({ error }, 'Error writing estimates to project');
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to write estimates to project',
+      },
+      { status: 500 }
+    );
+  }
+}
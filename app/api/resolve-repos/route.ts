@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import {
+  formatRepoFullName,
+  parseRepoTargets,
+  resolveRepoTargets,
+} from '@/app/_lib/services/repoTargets';
+import { getGitHubClientOptions } from '@/app/_lib/services/session';
+import logger from '@/app/_lib/utils/logger';
+import { checkRateLimit } from '@/app/_lib/middleware/rateLimit';
+
+/**
+ * Expand repository and organization links into the list of repositories a
+ * run covers, so the client can drive /api/estimate-repo-batch per repository
+ */
+export async function POST(request: Request) {
+  const rateLimitResponse = await checkRateLimit(request);
+  if (rateLimitResponse) {
+    return rateLimitResponse;
+  }
+
+  try {
+    const { repoLink, repoLinks, repoSelection } = await request.json();
+
+    const parsedTargets = parseRepoTargets({ repoLink, repoLinks, repoSelection });
+    if ('error' in parsedTargets) {
+      return NextResponse.json({ error: parsedTargets.error }, { status: 400 });
+    }
+
+    const { repositories, dropped, maxRepositories } = await resolveRepoTargets(
+      parsedTargets.targets,
+      (host) => getGitHubClientOptions(request, host)
+    );
+
+    logger.info(
+      { repositories: repositories.map(formatRepoFullName) },
+      'Repositories resolved'
+    );
+
+    return NextResponse.json({
+      repositories: repositories.map((repoInfo) => ({
+        ...repoInfo,
+        fullName: formatRepoFullName(repoInfo),
+        url: `https://${repoInfo.host}/${formatRepoFullName(repoInfo)}`,
+      })),
+      droppedRepositories: dropped,
+      maxRepositories,
+    });
+  } catch (error: unknown) {
+    logger.error({ error }, 'Error resolving repositories');
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : 'Failed to resolve repositories',
+      },
+      { status: 500 }
+    );
+  }
+}
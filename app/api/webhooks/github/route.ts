@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import {
+  WebhookPayload,
+  getWebhookPublishOptions,
+  getWebhookTrigger,
+  scheduleReestimate,
+  verifyWebhookSignature,
+} from '@/app/_lib/services/webhooks';
+import logger from '@/app/_lib/utils/logger';
+import { config } from '@/config';
+
+// Deliveries come from GitHub, so the per-IP rate limit doesn't apply. The
+// signature check is what keeps other callers out.
+export async function POST(request: Request) {
+  if (!config.webhook.secret) {
+    return NextResponse.json(
+      { error: 'Webhook secret is not configured' },
+      { status: 503 }
+    );
+  }
+  // Checked before anything is estimated, so no re-estimate is paid for and
+  // then dropped
+  const publish = getWebhookPublishOptions();
+  if ('error' in publish) {
+    logger.error({ error: publish.error }, 'Webhook publishing misconfigured');
+    return NextResponse.json({ error: publish.error }, { status: 503 });
+  }
+
+  // The signature covers the exact bytes, so read the body as text first
+  const rawBody = await request.text();
+  if (
+    !verifyWebhookSignature(
+      rawBody,
+      request.headers.get('x-hub-signature-256'),
+      config.webhook.secret
+    )
+  ) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  const event = request.headers.get('x-github-event');
+  const deliveryId = request.headers.get('x-github-delivery');
+
+  if (event === 'ping') {
+    return NextResponse.json({ ok: true });
+  }
+
+  let payload: WebhookPayload;
+  try {
+    payload = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid JSON payload' },
+      { status: 400 }
+    );
+  }
+
+  const result = getWebhookTrigger(event, payload);
+  if ('ignored' in result) {
+    logger.debug(
+      { event, deliveryId, reason: result.ignored },
+      'Webhook ignored'
+    );
+    return NextResponse.json({ ignored: result.ignored });
+  }
+
+  scheduleReestimate(result.trigger);
+
+  return NextResponse.json(
+    {
+      accepted: true,
+      issueUrl: result.trigger.issueUrl,
+      debounceSeconds: config.webhook.debounceSeconds,
+    },
+    { status: 202 }
+  );
+}
@@ -1,13 +1,174 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+
+interface AuthState {
+  enabled: boolean;
+  authenticated: boolean;
+  user: { login: string; avatarUrl: string | null } | null;
+}
+
+// A model served by one of the LLM providers configured on the server
+interface ModelOption {
+  id: string;
+  provider: string;
+  providerName: string;
+  model: string;
+}
+
+interface RunRepository {
+  owner: string;
+  repo: string;
+  fullName: string;
+  url: string;
+}
+
+// The parts of an issue estimation the page reads
+interface EstimationRow {
+  repository: string;
+  issueNumber: number;
+  issueKey?: string;
+  title: string;
+  status: 'estimated' | 'failed' | 'skipped';
+  error?: string;
+  complexity: string | null;
+  estimatedCost: number;
+  hours: number | null;
+  roleHours: Record<string, number> | null;
+  costP10: number;
+  costP90: number;
+  agreement: number | null;
+  confidence: number | null;
+  needsReview: boolean;
+  sampleCount: number;
+  labels: string[];
+  url: string;
+  reasoning: string;
+  assignees: string[];
+  milestone: string | null;
+  reactionCount: number;
+  locked: boolean;
+  linkedPullRequests: Array<{ repository: string; number: number; state: string; isDraft: boolean }>;
+  referencedIssues: Array<{ repository: string; number: number; state: string }>;
+  possibleDuplicates: number[];
+  relatedIssues: number[];
+  duplicateDiscount: number;
+  usage: { promptTokens: number; completionTokens: number; cost: number };
+}
+
+interface RepositoryRun {
+  repository: RunRepository;
+  estimations: EstimationRow[];
+}
+
+// Model spend of a run, tracked across its batch requests
+interface RunSpend {
+  cap: number | null; // USD; null leaves each batch to LLM_SPEND_CAP
+  spent: number;
+}
+
+// Mirrors failedRepositoryEstimation: a repository the run couldn't read, as
+// one failed row with issue number 0
+function failedRepositoryRow(repository: RunRepository, error: string): EstimationRow {
+  return {
+    repository: repository.fullName,
+    issueNumber: 0,
+    title: '(repository failed)',
+    status: 'failed',
+    error,
+    complexity: null,
+    estimatedCost: 0,
+    hours: null,
+    roleHours: null,
+    costP10: 0,
+    costP90: 0,
+    agreement: null,
+    confidence: null,
+    needsReview: false,
+    sampleCount: 0,
+    labels: [],
+    url: repository.url,
+    reasoning: '',
+    assignees: [],
+    milestone: null,
+    reactionCount: 0,
+    locked: false,
+    linkedPullRequests: [],
+    referencedIssues: [],
+    possibleDuplicates: [],
+    relatedIssues: [],
+    duplicateDiscount: 0,
+    usage: { promptTokens: 0, completionTokens: 0, cost: 0 },
+  };
+}
+
+function buildEstimationsCSV(estimations: EstimationRow[]): string {
+  const csvHeader = 'Repository,Issue Number,Title,Status,Error,Complexity,Estimated Cost,Hours,Role Hours,Cost P10,Cost P90,Agreement,Confidence,Needs Review,Samples,Labels,URL,Reasoning,Assignees,Milestone,Reactions,Locked,Linked Pull Requests,Referenced Issues,Possible Duplicates,Related Issues,Duplicate Discount,Prompt Tokens,Completion Tokens,LLM Cost\n';
+  const quote = (value: string) => `"${value.replace(/"/g, '""')}"`;
+  const csvRows = estimations.map((est) => {
+    const title = quote(est.title);
+    const error = quote(est.error ?? '');
+    const reasoning = quote(est.reasoning);
+    const labels = `"${est.labels.join(', ')}"`;
+    const assignees = quote(est.assignees.join(', '));
+    const milestone = quote(est.milestone ?? '');
+    const linkedPullRequests = quote(
+      est.linkedPullRequests
+        .map((pr) => `${pr.repository}#${pr.number} (${pr.state}${pr.isDraft ? ', draft' : ''})`)
+        .join('; ')
+    );
+    const referencedIssues = quote(
+      est.referencedIssues
+        .map((ref) => `${ref.repository}#${ref.number} (${ref.state})`)
+        .join('; ')
+    );
+    const possibleDuplicates = quote(
+      est.possibleDuplicates.map((number) => `#${number}`).join('; ')
+    );
+    const relatedIssues = quote(
+      est.relatedIssues.map((number) => `#${number}`).join('; ')
+    );
+    const roleHours = quote(
+      Object.entries(est.roleHours ?? {})
+        .map(([role, hours]) => `${role}: ${hours}`)
+        .join('; ')
+    );
+    return `${quote(est.repository)},${quote(est.issueKey ?? String(est.issueNumber))},${title},${est.status},${error},${est.complexity ?? ''},${est.estimatedCost},${est.hours ?? ''},${roleHours},${est.costP10},${est.costP90},${est.agreement ?? ''},${est.confidence ?? ''},${est.needsReview},${est.sampleCount},${labels},${quote(est.url)},${reasoning},${assignees},${milestone},${est.reactionCount},${est.locked},${linkedPullRequests},${referencedIssues},${possibleDuplicates},${relatedIssues},${est.duplicateDiscount},${est.usage.promptTokens},${est.usage.completionTokens},${est.usage.cost}`;
+  }).join('\n');
+  return csvHeader + csvRows;
+}
+
+// Issue fields an import reads from the file, keyed as in the column mapping
+const IMPORT_FIELDS = [
+  { key: 'title', label: 'Title', placeholder: 'Summary' },
+  { key: 'number', label: 'Number / Key', placeholder: 'Issue key' },
+  { key: 'body', label: 'Description', placeholder: 'Description' },
+  { key: 'labels', label: 'Labels', placeholder: 'Labels' },
+  { key: 'state', label: 'State', placeholder: 'Status' },
+  { key: 'createdAt', label: 'Created', placeholder: 'Created' },
+  { key: 'author', label: 'Author', placeholder: 'Reporter' },
+  { key: 'assignees', label: 'Assignees', placeholder: 'Assignee' },
+  { key: 'milestone', label: 'Milestone', placeholder: 'Sprint' },
+  { key: 'comments', label: 'Comments', placeholder: 'Comment' },
+  { key: 'url', label: 'URL', placeholder: 'Link' },
+  { key: 'issuesPath', label: 'JSON Issues Path', placeholder: 'issues' },
+];
 
 export default function Home() {
   const [repoLink, setRepoLink] = useState('');
   const [issueLink, setIssueLink] = useState('');
   const [minBudget, setMinBudget] = useState('');
   const [maxBudget, setMaxBudget] = useState('');
-  const [selectedModel, setSelectedModel] = useState('gpt-5-nano');
+  const [selectedModel, setSelectedModel] = useState('');
+  // Ensemble: replies per model and the models asked besides the selected one
+  const [ensembleSamples, setEnsembleSamples] = useState('');
+  const [ensembleModels, setEnsembleModels] = useState<string[]>([]);
+  // Effort mode: hours per role priced with a rate card, e.g. 'backend:90,qa:60'
+  const [effortMode, setEffortMode] = useState(false);
+  const [rateCard, setRateCard] = useState('');
+  // USD of model usage a run may spend; empty leaves it to LLM_SPEND_CAP
+  const [spendCap, setSpendCap] = useState('');
+  const [models, setModels] = useState<ModelOption[]>([]);
   const [csvContent, setCsvContent] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [repoName, setRepoName] = useState<string>('');
@@ -23,8 +184,80 @@ export default function Home() {
   const [criticalMin, setCriticalMin] = useState('');
   const [criticalMax, setCriticalMax] = useState('');
 
+  // Issue selection filters
+  const [includeLabels, setIncludeLabels] = useState('');
+  const [excludeLabels, setExcludeLabels] = useState('');
+  const [milestone, setMilestone] = useState('');
+  const [assignee, setAssignee] = useState('');
+  const [author, setAuthor] = useState('');
+  const [dateField, setDateField] = useState<'created' | 'updated'>('created');
+  const [since, setSince] = useState('');
+  const [until, setUntil] = useState('');
+  const [maxIssues, setMaxIssues] = useState('');
+  const [issueNumbers, setIssueNumbers] = useState('');
+  const [excludeIssueNumbers, setExcludeIssueNumbers] = useState('');
+
+  // Multi-repository runs
+  const [extraRepoLinks, setExtraRepoLinks] = useState('');
+  const [repoTopic, setRepoTopic] = useState('');
+  const [repoNameFilter, setRepoNameFilter] = useState('');
+
+  // GitHub Project write-back
+  const [projectUrl, setProjectUrl] = useState('');
+  const [projectCostField, setProjectCostField] = useState('Budget');
+  const [projectComplexityField, setProjectComplexityField] = useState('Complexity');
+  // Estimations whose dry-run diff is waiting to be applied
+  const [pendingProjectEstimations, setPendingProjectEstimations] = useState<unknown[] | null>(null);
+  const [isApplyingProject, setIsApplyingProject] = useState(false);
+
+  // The last repository run, kept so its failed and skipped issues can be
+  // retried alone
+  const [lastRun, setLastRun] = useState<RepositoryRun[] | null>(null);
+  const failedEstimations = (lastRun ?? [])
+    .flatMap((run) => run.estimations)
+    .filter((est) => est.status !== 'estimated');
+
+  // Publishing estimates back to the issues
+  const [publishLabels, setPublishLabels] = useState(false);
+  const [publishComment, setPublishComment] = useState(false);
+
+  // Offline import from a JSON or CSV export
+  const [importSource, setImportSource] = useState('');
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importMapping, setImportMapping] = useState<Record<string, string>>({});
+  const [isImportMappingOpen, setIsImportMappingOpen] = useState(false);
+
+  // GitHub sign-in state
+  const [auth, setAuth] = useState<AuthState | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((response) => response.json())
+      .then((data: AuthState) => setAuth(data))
+      .catch(() => setAuth(null));
+
+    fetch('/api/models')
+      .then((response) => response.json())
+      .then((data: { models: ModelOption[]; defaultModel: string | null }) => {
+        setModels(data.models);
+        setSelectedModel(data.defaultModel ?? '');
+      })
+      .catch(() => setModels([]));
+  }, []);
+
+  const handleSignOut = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    setAuth((prev) => (prev ? { ...prev, authenticated: false, user: null } : prev));
+  };
+
   // Accordion state
   const [isComplexityBudgetOpen, setIsComplexityBudgetOpen] = useState(false);
+  const [isFiltersOpen, setIsFiltersOpen] = useState(false);
+  const [isReposOpen, setIsReposOpen] = useState(false);
+  const [isProjectOpen, setIsProjectOpen] = useState(false);
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
+  const [isEnsembleOpen, setIsEnsembleOpen] = useState(false);
+  const [isEffortOpen, setIsEffortOpen] = useState(false);
 
   const handleDownloadCSV = () => {
     if (!csvContent || !repoName) return;
@@ -44,6 +277,323 @@ export default function Home() {
     setStatusLogs((prev) => [...prev, message]);
   };
 
+  // Empty inputs are sent as undefined so the server treats them as unset
+  const buildFilters = () => ({
+    includeLabels: includeLabels || undefined,
+    excludeLabels: excludeLabels || undefined,
+    milestone: milestone || undefined,
+    assignee: assignee || undefined,
+    author: author || undefined,
+    dateField,
+    since: since || undefined,
+    until: until || undefined,
+    maxIssues: maxIssues ? Number(maxIssues) : undefined,
+    issueNumbers: issueNumbers || undefined,
+    excludeIssueNumbers: excludeIssueNumbers || undefined,
+  });
+
+  // Unset lets the server's ENSEMBLE_* defaults apply
+  const buildEnsemble = () =>
+    ensembleSamples || ensembleModels.length > 0
+      ? {
+          samples: ensembleSamples ? Number(ensembleSamples) : 1,
+          models: ensembleModels.filter((id) => id !== selectedModel),
+        }
+      : undefined;
+
+  // Unset lets the server's ESTIMATION_MODE and EFFORT_RATE_CARD apply
+  const buildEffort = () =>
+    effortMode ? { rateCard: rateCard || undefined } : undefined;
+
+  const createRunSpend = (): RunSpend => ({
+    cap: Number(spendCap) > 0 ? Number(spendCap) : null,
+    spent: 0,
+  });
+  const isSpendCapReached = (spend: RunSpend) =>
+    spend.cap !== null && spend.spent >= spend.cap;
+
+  const buildPublish = () =>
+    publishLabels || publishComment
+      ? { labels: publishLabels, comment: publishComment }
+      : undefined;
+
+  // Publishing failures are per issue; the run carries on regardless
+  const logPublished = (published?: {
+    items: Array<{ repository: string; issueNumber: number; status: string; error?: string }>;
+    summary: { published: number; failed: number };
+  }) => {
+    if (!published) return;
+    published.items
+      .filter((item) => item.status === 'failed')
+      .forEach((item) =>
+        addLog(`> PUBLISH FAILED ${item.repository}#${item.issueNumber}: ${item.error}`)
+      );
+    addLog(`> PUBLISHED ${published.summary.published}, FAILED ${published.summary.failed}`);
+  };
+
+  // Dry-run first; the diff is applied only when the user confirms it
+  const runProjectWriteBack = async (estimations: unknown[], dryRun: boolean) => {
+    addLog(`> PROJECT WRITE-BACK${dryRun ? ' (DRY RUN)' : ''}...`);
+
+    const response = await fetch('/api/project-write-back', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        projectUrl,
+        fields: {
+          estimatedCost: projectCostField || undefined,
+          complexity: projectComplexityField || undefined,
+        },
+        dryRun,
+        estimations,
+      }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      addLog(`> PROJECT WRITE-BACK FAILED: ${(data.error || 'Unknown error').toUpperCase()}`);
+      return;
+    }
+
+    (data.lines as string[]).forEach((line) => addLog(`> ${line}`));
+    const { itemsToAdd, fieldChanges, failed } = data.summary;
+    addLog(
+      `> PROJECT ${data.project.title.toUpperCase()}: ${itemsToAdd} TO ADD, ${fieldChanges} FIELD CHANGES${dryRun ? '' : `, ${failed} FAILED`}`
+    );
+
+    setPendingProjectEstimations(
+      dryRun && itemsToAdd + fieldChanges > 0 ? estimations : null
+    );
+  };
+
+  const handleApplyProject = async () => {
+    if (!pendingProjectEstimations) return;
+    setIsApplyingProject(true);
+    await runProjectWriteBack(pendingProjectEstimations, false);
+    setIsApplyingProject(false);
+  };
+
+  // Runs one repository through /api/estimate-repo-batch until it is complete
+  // or the run's spend cap is reached
+  const estimateRepositoryInBatches = async (
+    repository: RunRepository,
+    filters: ReturnType<typeof buildFilters>,
+    spend: RunSpend
+  ): Promise<EstimationRow[]> => {
+    const repoEstimations: EstimationRow[] = [];
+    const batchSize = 15; // Process 15 issues at a time
+    let startIndex = 0;
+    let isComplete = false;
+    let totalIssues = 0;
+
+    addLog('> STARTING BATCH PROCESSING...');
+
+    while (!isComplete) {
+      if (isSpendCapReached(spend)) {
+        addLog(`> SPEND CAP OF $${spend.cap} REACHED, STOPPING`);
+        break;
+      }
+      addLog(`> PROCESSING BATCH (STARTING AT ISSUE ${startIndex + 1})...`);
+
+      const response = await fetch('/api/estimate-repo-batch', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          repoLink: repository.url,
+          minBudget: minBudget ? Number(minBudget) : undefined,
+          maxBudget: maxBudget ? Number(maxBudget) : undefined,
+          model: selectedModel || undefined,
+          lowMin: lowMin ? Number(lowMin) : undefined,
+          lowMax: lowMax ? Number(lowMax) : undefined,
+          mediumMin: mediumMin ? Number(mediumMin) : undefined,
+          mediumMax: mediumMax ? Number(mediumMax) : undefined,
+          highMin: highMin ? Number(highMin) : undefined,
+          highMax: highMax ? Number(highMax) : undefined,
+          criticalMin: criticalMin ? Number(criticalMin) : undefined,
+          criticalMax: criticalMax ? Number(criticalMax) : undefined,
+          ensemble: buildEnsemble(),
+          effort: buildEffort(),
+          filters,
+          publish: buildPublish(),
+          spendCap: spend.cap !== null ? spend.cap - spend.spent : undefined,
+          startIndex,
+          batchSize,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to process batch');
+      }
+
+      const data = await response.json();
+
+      totalIssues = data.totalIssues;
+
+      if (data.rateLimitWaitSeconds > 0) {
+        addLog(`> WAITED ${data.rateLimitWaitSeconds} S FOR GITHUB RATE LIMIT`);
+      }
+      const batchEstimations = data.estimations as EstimationRow[];
+      repoEstimations.push(...batchEstimations);
+      batchEstimations
+        .filter((est) => est.status === 'failed')
+        .forEach((est) => addLog(`> FAILED #${est.issueNumber}: ${est.error}`));
+      batchEstimations
+        .filter((est) => est.needsReview)
+        .forEach((est) =>
+          addLog(
+            `> NEEDS REVIEW #${est.issueNumber}: AGREEMENT ${est.agreement}, CONFIDENCE ${est.confidence}, $${est.costP10}-$${est.costP90}`
+          )
+        );
+      logPublished(data.published);
+
+      const processed = startIndex + data.processedCount;
+      addLog(`> BATCH COMPLETE: ${processed}/${totalIssues} ISSUES PROCESSED`);
+
+      spend.spent += data.usage.cost;
+      const skippedCount = batchEstimations.filter((est) => est.status === 'skipped').length;
+      if (skippedCount > 0) {
+        addLog(`> SPEND CAP REACHED: ${skippedCount} ISSUES SKIPPED, STOPPING`);
+        break;
+      }
+
+      isComplete = data.isComplete;
+      if (!isComplete) {
+        startIndex = data.nextStartIndex;
+      }
+    }
+
+    return repoEstimations;
+  };
+
+  // Totals, CSV and project write-back for a repository run or its retry
+  const finishRepositoryRun = async (runs: RepositoryRun[]) => {
+    const allEstimations = runs.flatMap((run) => run.estimations);
+    const estimated = allEstimations.filter((est) => est.status === 'estimated');
+    const failedCount = allEstimations.filter((est) => est.status === 'failed').length;
+    const skippedCount = allEstimations.filter((est) => est.status === 'skipped').length;
+
+    // Calculate totals; failed issues have no cost
+    const totalCost = estimated.reduce((sum, est) => sum + est.estimatedCost, 0);
+    const avgCost = estimated.length > 0 ? totalCost / estimated.length : 0;
+
+    addLog('> ALL BATCHES COMPLETE');
+    if (runs.length > 1) {
+      runs.forEach(({ repository, estimations }) => {
+        const repoEstimated = estimations.filter((est) => est.status === 'estimated');
+        const subtotal = repoEstimated.reduce((sum, est) => sum + est.estimatedCost, 0);
+        const repoFailure = estimations.find((est) => est.issueNumber === 0);
+        if (repoFailure) {
+          addLog(`> SUBTOTAL ${repository.fullName.toUpperCase()}: FAILED (${repoFailure.error})`);
+          return;
+        }
+        addLog(
+          `> SUBTOTAL ${repository.fullName.toUpperCase()}: $${subtotal.toFixed(2)} (${repoEstimated.length} ISSUES)`
+        );
+      });
+    }
+    addLog(`> TOTAL COST: $${totalCost.toFixed(2)}`);
+    addLog(`> AVG COST: $${avgCost.toFixed(2)}`);
+    if (failedCount > 0) {
+      addLog(`> ${failedCount} ISSUES FAILED, USE RETRY FAILED TO RUN ONLY THOSE`);
+    }
+    if (skippedCount > 0) {
+      addLog(`> ${skippedCount} ISSUES SKIPPED AT THE SPEND CAP, USE RETRY FAILED TO ESTIMATE THEM`);
+    }
+    const promptTokens = allEstimations.reduce((sum, est) => sum + est.usage.promptTokens, 0);
+    const completionTokens = allEstimations.reduce((sum, est) => sum + est.usage.completionTokens, 0);
+    const llmCost = allEstimations.reduce((sum, est) => sum + est.usage.cost, 0);
+    addLog(
+      `> LLM USAGE: ${promptTokens} PROMPT + ${completionTokens} COMPLETION TOKENS, $${llmCost.toFixed(4)}`
+    );
+    const needsReviewCount = estimated.filter((est) => est.needsReview).length;
+    if (needsReviewCount > 0) {
+      addLog(`> ${needsReviewCount} ISSUES NEED REVIEW`);
+    }
+    addLog('> GENERATING CSV...');
+
+    setCsvContent(buildEstimationsCSV(allEstimations));
+    setRepoName(
+      runs.length === 1
+        ? `${runs[0].repository.owner}_${runs[0].repository.repo}`
+        : `${runs[0].repository.owner}_${runs.length}-repos`
+    );
+    setLastRun(runs);
+    addLog('> READY FOR DOWNLOAD');
+
+    if (projectUrl) {
+      await runProjectWriteBack(allEstimations, true);
+    }
+  };
+
+  // Re-estimates only the failed and skipped issues of the last run, through
+  // the issueNumbers filter, and swaps the new results into it
+  const handleRetryFailed = async () => {
+    if (!lastRun) return;
+
+    setIsLoading(true);
+    setCsvContent(null);
+    setPendingProjectEstimations(null);
+
+    addLog(`> RETRYING ${failedEstimations.length} FAILED OR SKIPPED ISSUES...`);
+
+    try {
+      const runs: RepositoryRun[] = [];
+      const spend = createRunSpend();
+
+      for (const run of lastRun) {
+        const failedNumbers = run.estimations
+          .filter((est) => est.status !== 'estimated')
+          .map((est) => est.issueNumber);
+        if (failedNumbers.length === 0) {
+          runs.push(run);
+          continue;
+        }
+
+        // A repository that failed as a whole is run again in full
+        if (failedNumbers.includes(0)) {
+          addLog(`> RETRYING ${run.repository.fullName.toUpperCase()}`);
+          runs.push({
+            repository: run.repository,
+            estimations: await estimateRepositoryInBatches(run.repository, buildFilters(), spend),
+          });
+          continue;
+        }
+
+        addLog(`> RETRYING ${run.repository.fullName.toUpperCase()}: #${failedNumbers.join(', #')}`);
+        const retried = await estimateRepositoryInBatches(
+          run.repository,
+          {
+            ...buildFilters(),
+            maxIssues: undefined,
+            issueNumbers: failedNumbers.join(','),
+            excludeIssueNumbers: undefined,
+          },
+          spend
+        );
+        const retriedByUrl = new Map(retried.map((est) => [est.url, est]));
+        runs.push({
+          repository: run.repository,
+          estimations: run.estimations.map((est) => retriedByUrl.get(est.url) ?? est),
+        });
+      }
+
+      await finishRepositoryRun(runs);
+
+      setIsLoading(false);
+    } catch (error) {
+      console.error('Failed to retry issues:', error);
+      addLog('> RETRY ERROR: ' + (error instanceof Error ? error.message.toUpperCase() : 'CONNECTION FAILED'));
+      // The previous results are still valid
+      setCsvContent(buildEstimationsCSV(lastRun.flatMap((run) => run.estimations)));
+      setIsLoading(false);
+    }
+  };
+
   const handleRepoSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     console.log('Repository Link:', repoLink);
@@ -52,6 +602,8 @@ export default function Home() {
 
     setIsLoading(true);
     setCsvContent(null);
+    setPendingProjectEstimations(null);
+    setLastRun(null);
     setStatusLogs([]);
 
     addLog('> SYSTEM INITIALIZED');
@@ -59,85 +611,75 @@ export default function Home() {
     addLog(`> BUDGET RANGE: $${minBudget || lowMin} - $${maxBudget || criticalMax}`);
 
     try {
-      const allEstimations: any[] = [];
-      let startIndex = 0;
-      const batchSize = 15; // Process 15 issues at a time
-      let isComplete = false;
-      let totalIssues = 0;
-      let repoOwner = '';
-      let repoRepo = '';
-
-      addLog('> STARTING BATCH PROCESSING...');
-
-      while (!isComplete) {
-        addLog(`> PROCESSING BATCH (STARTING AT ISSUE ${startIndex + 1})...`);
-
-        const response = await fetch('/api/estimate-repo-batch', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
+      addLog('> RESOLVING REPOSITORIES...');
+
+      const resolveResponse = await fetch('/api/resolve-repos', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          repoLink,
+          repoLinks: extraRepoLinks || undefined,
+          repoSelection: {
+            topic: repoTopic || undefined,
+            name: repoNameFilter || undefined,
           },
-          body: JSON.stringify({
-            repoLink,
-            minBudget: minBudget ? Number(minBudget) : undefined,
-            maxBudget: maxBudget ? Number(maxBudget) : undefined,
-            model: selectedModel,
-            lowMin: lowMin ? Number(lowMin) : undefined,
-            lowMax: lowMax ? Number(lowMax) : undefined,
-            mediumMin: mediumMin ? Number(mediumMin) : undefined,
-            mediumMax: mediumMax ? Number(mediumMax) : undefined,
-            highMin: highMin ? Number(highMin) : undefined,
-            highMax: highMax ? Number(highMax) : undefined,
-            criticalMin: criticalMin ? Number(criticalMin) : undefined,
-            criticalMax: criticalMax ? Number(criticalMax) : undefined,
-            startIndex,
-            batchSize,
-          }),
-        });
+        }),
+      });
 
-        if (!response.ok) {
-          throw new Error('Failed to process batch');
-        }
+      if (!resolveResponse.ok) {
+        const errorData = await resolveResponse.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to resolve repositories');
+      }
 
-        const data = await response.json();
+      const { repositories, droppedRepositories, maxRepositories } =
+        (await resolveResponse.json()) as {
+          repositories: RunRepository[];
+          droppedRepositories: number;
+          maxRepositories: number;
+        };
+
+      if (repositories.length === 0) {
+        throw new Error('No repositories matched the selection');
+      }
 
-        totalIssues = data.totalIssues;
-        repoOwner = data.repository.owner;
-        repoRepo = data.repository.repo;
+      addLog(`> ${repositories.length} REPOSITORIES SELECTED`);
+      if (droppedRepositories > 0) {
+        addLog(
+          `> ${droppedRepositories} MORE REPOSITORIES MATCHED, LEFT OUT BY THE LIMIT OF ${maxRepositories}`
+        );
+      }
 
-        allEstimations.push(...data.estimations);
+      const runs: RepositoryRun[] = [];
+      const spend = createRunSpend();
 
-        const processed = startIndex + data.processedCount;
-        addLog(`> BATCH COMPLETE: ${processed}/${totalIssues} ISSUES PROCESSED`);
+      for (const [index, repository] of repositories.entries()) {
+        if (isSpendCapReached(spend)) {
+          addLog(`> SPEND CAP REACHED, SKIPPING ${repositories.length - index} REPOSITORIES`);
+          break;
+        }
+        if (repositories.length > 1) {
+          addLog(`> REPOSITORY ${index + 1}/${repositories.length}: ${repository.fullName.toUpperCase()}`);
+        }
 
-        isComplete = data.isComplete;
-        if (!isComplete) {
-          startIndex = data.nextStartIndex;
+        try {
+          runs.push({
+            repository,
+            estimations: await estimateRepositoryInBatches(repository, buildFilters(), spend),
+          });
+        } catch (error) {
+          // One unreadable repository doesn't cost the rest of the run
+          if (repositories.length === 1) {
+            throw error;
+          }
+          const message = error instanceof Error ? error.message : 'Connection failed';
+          addLog(`> REPOSITORY FAILED ${repository.fullName.toUpperCase()}: ${message.toUpperCase()}`);
+          runs.push({ repository, estimations: [failedRepositoryRow(repository, message)] });
         }
       }
 
-      // Calculate totals
-      const totalCost = allEstimations.reduce((sum, est) => sum + est.estimatedCost, 0);
-      const avgCost = totalCost / allEstimations.length;
-
-      addLog('> ALL BATCHES COMPLETE');
-      addLog(`> TOTAL COST: $${totalCost.toFixed(2)}`);
-      addLog(`> AVG COST: $${avgCost.toFixed(2)}`);
-      addLog('> GENERATING CSV...');
-
-      // Generate CSV from all estimations
-      const csvHeader = 'Issue Number,Title,Complexity,Estimated Cost,Labels,URL,Reasoning\n';
-      const csvRows = allEstimations.map((est) => {
-        const title = `"${est.title.replace(/"/g, '""')}"`;
-        const reasoning = `"${est.reasoning.replace(/"/g, '""')}"`;
-        const labels = `"${est.labels.join(', ')}"`;
-        return `${est.issueNumber},${title},${est.complexity},${est.estimatedCost},${labels},${est.url},${reasoning}`;
-      }).join('\n');
-      const csv = csvHeader + csvRows;
-
-      setCsvContent(csv);
-      setRepoName(`${repoOwner}_${repoRepo}`);
-      addLog('> READY FOR DOWNLOAD');
+      await finishRepositoryRun(runs);
 
       setIsLoading(false);
     } catch (error) {
@@ -157,6 +699,8 @@ export default function Home() {
     setIsLoading(true);
     setStatusLogs([]);
     setCsvContent(null);
+    setPendingProjectEstimations(null);
+    setLastRun(null);
 
     addLog('> SYSTEM INITIALIZED');
     addLog(`> MODEL: ${selectedModel.toUpperCase()}`);
@@ -174,7 +718,7 @@ export default function Home() {
           issueLink,
           minBudget: minBudget ? Number(minBudget) : undefined,
           maxBudget: maxBudget ? Number(maxBudget) : undefined,
-          model: selectedModel,
+          model: selectedModel || undefined,
           lowMin: lowMin ? Number(lowMin) : undefined,
           lowMax: lowMax ? Number(lowMax) : undefined,
           mediumMin: mediumMin ? Number(mediumMin) : undefined,
@@ -183,6 +727,10 @@ export default function Home() {
           highMax: highMax ? Number(highMax) : undefined,
           criticalMin: criticalMin ? Number(criticalMin) : undefined,
           criticalMax: criticalMax ? Number(criticalMax) : undefined,
+          ensemble: buildEnsemble(),
+          effort: buildEffort(),
+          publish: buildPublish(),
+          spendCap: Number(spendCap) > 0 ? Number(spendCap) : undefined,
         }),
       });
 
@@ -197,7 +745,30 @@ export default function Home() {
       addLog(`> ISSUE #${data.estimation.issueNumber}: ${data.estimation.title}`);
       addLog(`> COMPLEXITY: ${data.estimation.complexity.toUpperCase()}`);
       addLog(`> ESTIMATED COST: $${data.estimation.estimatedCost}`);
+      if (data.estimation.roleHours) {
+        addLog(
+          `> EFFORT: ${data.estimation.hours}H (${Object.entries(data.estimation.roleHours as Record<string, number>)
+            .map(([role, hours]) => `${role.toUpperCase()} ${hours}H`)
+            .join(', ')})`
+        );
+      }
+      if (data.estimation.sampleCount > 1) {
+        addLog(
+          `> RANGE (P10-P90): $${data.estimation.costP10}-$${data.estimation.costP90} | AGREEMENT ${data.estimation.agreement} | CONFIDENCE ${data.estimation.confidence}`
+        );
+      }
+      if (data.estimation.needsReview) {
+        addLog('> NEEDS REVIEW: THE SAMPLES DISAGREE OR SPREAD WIDELY');
+      }
       addLog(`> REASONING: ${data.estimation.reasoning}`);
+      addLog(
+        `> LLM USAGE: ${data.estimation.usage.promptTokens} PROMPT + ${data.estimation.usage.completionTokens} COMPLETION TOKENS, $${data.estimation.usage.cost.toFixed(4)}`
+      );
+      logPublished(data.published);
+
+      if (projectUrl) {
+        await runProjectWriteBack([data.estimation], true);
+      }
 
       setIsLoading(false);
     } catch (error) {
@@ -208,6 +779,104 @@ export default function Home() {
     }
   };
 
+  // A source's saved column mapping fills the mapping fields
+  const handleImportSourceBlur = async () => {
+    if (!importSource.trim()) return;
+
+    const response = await fetch(
+      `/api/import-mappings?source=${encodeURIComponent(importSource.trim())}`
+    );
+    if (!response.ok) return;
+
+    const data = await response.json();
+    setImportMapping(data.mapping);
+  };
+
+  const handleImportSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!importFile) return;
+
+    setIsLoading(true);
+    setStatusLogs([]);
+    setCsvContent(null);
+    setPendingProjectEstimations(null);
+    setLastRun(null);
+
+    addLog('> SYSTEM INITIALIZED');
+    addLog(`> MODEL: ${selectedModel.toUpperCase()}`);
+    addLog(`> IMPORTING ${importFile.name.toUpperCase()}`);
+
+    try {
+      const content = await importFile.text();
+
+      addLog('> VALIDATING AND ESTIMATING IMPORTED ISSUES...');
+
+      const response = await fetch('/api/import-issues', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          source: importSource,
+          fileName: importFile.name,
+          content,
+          mapping: importMapping,
+          minBudget: minBudget ? Number(minBudget) : undefined,
+          maxBudget: maxBudget ? Number(maxBudget) : undefined,
+          model: selectedModel || undefined,
+          lowMin: lowMin ? Number(lowMin) : undefined,
+          lowMax: lowMax ? Number(lowMax) : undefined,
+          mediumMin: mediumMin ? Number(mediumMin) : undefined,
+          mediumMax: mediumMax ? Number(mediumMax) : undefined,
+          highMin: highMin ? Number(highMin) : undefined,
+          highMax: highMax ? Number(highMax) : undefined,
+          criticalMin: criticalMin ? Number(criticalMin) : undefined,
+          criticalMax: criticalMax ? Number(criticalMax) : undefined,
+          ensemble: buildEnsemble(),
+          effort: buildEffort(),
+          spendCap: Number(spendCap) > 0 ? Number(spendCap) : undefined,
+        }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to import issues');
+      }
+
+      if (data.savedMapping) {
+        addLog(`> SAVED COLUMN MAPPING FOR ${data.source.toUpperCase()}`);
+      }
+      addLog(`> ESTIMATED ${data.processedIssues} IMPORTED ISSUES`);
+      addLog(`> TOTAL COST: $${data.summary.totalCost.toFixed(2)}`);
+      addLog(`> AVG COST: $${data.summary.avgCost.toFixed(2)}`);
+      (
+        data.summary.failedIssues as Array<{ issueNumber: number; issueKey?: string; error: string }>
+      ).forEach((failed) =>
+        addLog(`> FAILED ${failed.issueKey ?? `#${failed.issueNumber}`}: ${failed.error}`)
+      );
+      if (data.summary.needsReviewCount > 0) {
+        addLog(`> ${data.summary.needsReviewCount} ISSUES NEED REVIEW`);
+      }
+      if (data.summary.skippedCount > 0) {
+        addLog(`> SPEND CAP REACHED: ${data.summary.skippedCount} ISSUES SKIPPED`);
+      }
+      addLog(
+        `> LLM USAGE: ${data.summary.usage.promptTokens} PROMPT + ${data.summary.usage.completionTokens} COMPLETION TOKENS, $${data.summary.usage.cost.toFixed(4)}`
+      );
+
+      setCsvContent(data.csvContent);
+      setRepoName(data.source.replace(/\s+/g, '-'));
+      addLog('> READY FOR DOWNLOAD');
+
+      setIsLoading(false);
+    } catch (error) {
+      console.error('Failed to import issues:', error);
+      addLog('> FATAL ERROR: ' + (error instanceof Error ? error.message.toUpperCase() : 'UNKNOWN ERROR'));
+      alert('Failed to import issues. Please check the file and column mapping.');
+      setIsLoading(false);
+    }
+  };
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-white p-4">
       <main className="w-full max-w-2xl">
@@ -219,24 +888,225 @@ export default function Home() {
             </p>
           </div>
 
+          {/* GitHub Sign-in */}
+          {auth?.enabled && (
+            <div className="flex items-center justify-between border border-black px-4 py-3">
+              {auth.authenticated && auth.user ? (
+                <>
+                  <span className="text-sm text-black">
+                    Signed in as{' '}
+                    <span className="font-semibold">{auth.user.login}</span>
+                  </span>
+                  <button
+                    type="button"
+                    onClick={handleSignOut}
+                    className="text-xs font-medium uppercase tracking-wide text-black underline"
+                  >
+                    Sign out
+                  </button>
+                </>
+              ) : (
+                <>
+                  <span className="text-sm text-gray-700">
+                    Sign in to estimate private repositories
+                  </span>
+                  <a
+                    href="/api/auth/github/login"
+                    className="px-4 py-2 bg-black hover:bg-gray-800 text-white font-medium uppercase text-xs tracking-wide transition-colors"
+                  >
+                    Sign in with GitHub
+                  </a>
+                </>
+              )}
+            </div>
+          )}
+
           <div className="space-y-6">
             {/* Model Selection */}
             <div className="space-y-3">
               <label className="block">
                 <span className="text-sm font-semibold text-black uppercase tracking-wide">
-                  OpenAI Model
+                  Model
                 </span>
                 <select
                   value={selectedModel}
                   onChange={(e) => setSelectedModel(e.target.value)}
                   className="mt-2 w-full px-4 py-3 bg-white border border-black focus:outline-none focus:ring-2 focus:ring-black text-black"
                 >
-                  <option value="gpt-5">GPT-5</option>
-                  <option value="gpt-5-mini">GPT-5 Mini</option>
-                  <option value="gpt-5-nano">GPT-5 Nano</option>
-                  <option value="gpt-4.1">GPT-4.1</option>
+                  {models.length === 0 && (
+                    <option value="">No models configured</option>
+                  )}
+                  {[...new Set(models.map((option) => option.providerName))].map(
+                    (providerName) => (
+                      <optgroup key={providerName} label={providerName}>
+                        {models
+                          .filter((option) => option.providerName === providerName)
+                          .map((option) => (
+                            <option key={option.id} value={option.id}>
+                              {option.model}
+                            </option>
+                          ))}
+                      </optgroup>
+                    )
+                  )}
                 </select>
               </label>
+
+              <label className="block">
+                <span className="text-xs font-medium text-gray-700 uppercase">
+                  Model Spend Cap (USD, Optional)
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={spendCap}
+                  onChange={(e) => setSpendCap(e.target.value)}
+                  placeholder="No cap"
+                  className="mt-1 w-full px-4 py-3 bg-white border border-black focus:outline-none focus:ring-2 focus:ring-black text-black placeholder-gray-400"
+                />
+              </label>
+            </div>
+
+            {/* Ensemble (Optional - Accordion) */}
+            <div className="border border-black">
+              <button
+                type="button"
+                onClick={() => setIsEnsembleOpen(!isEnsembleOpen)}
+                className="w-full flex items-center justify-between px-4 py-3 bg-white hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-sm font-semibold text-black uppercase tracking-wide">
+                  Ensemble (Optional)
+                </span>
+                <svg
+                  className={`w-5 h-5 transition-transform ${isEnsembleOpen ? 'rotate-180' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 9l-7 7-7-7"
+                  />
+                </svg>
+              </button>
+
+              {isEnsembleOpen && (
+                <div className="p-4 space-y-4 border-t border-black">
+                  <label className="block">
+                    <span className="text-xs font-medium text-gray-700 uppercase">
+                      Samples Per Model
+                    </span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={ensembleSamples}
+                      onChange={(e) => setEnsembleSamples(e.target.value)}
+                      placeholder="1"
+                      className="mt-1 w-full px-4 py-3 bg-white border border-black focus:outline-none focus:ring-2 focus:ring-black text-black placeholder-gray-400"
+                    />
+                  </label>
+
+                  <div className="space-y-2">
+                    <span className="text-xs font-medium text-gray-700 uppercase">
+                      Also Ask
+                    </span>
+                    {models
+                      .filter((option) => option.id !== selectedModel)
+                      .map((option) => (
+                        <label key={option.id} className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={ensembleModels.includes(option.id)}
+                            onChange={(e) =>
+                              setEnsembleModels((prev) =>
+                                e.target.checked
+                                  ? [...prev, option.id]
+                                  : prev.filter((id) => id !== option.id)
+                              )
+                            }
+                            className="accent-black"
+                          />
+                          <span className="text-xs font-medium text-gray-700">
+                            {option.providerName}: {option.model}
+                          </span>
+                        </label>
+                      ))}
+                  </div>
+
+                  <p className="text-xs text-gray-500 italic">
+                    Every issue is estimated once per sample and model. The
+                    median is used, with the p10-p90 range, and issues the
+                    answers disagree on are flagged for review
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Effort Mode (Optional - Accordion) */}
+            <div className="border border-black">
+              <button
+                type="button"
+                onClick={() => setIsEffortOpen(!isEffortOpen)}
+                className="w-full flex items-center justify-between px-4 py-3 bg-white hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-sm font-semibold text-black uppercase tracking-wide">
+                  Effort Mode (Optional)
+                </span>
+                <svg
+                  className={`w-5 h-5 transition-transform ${isEffortOpen ? 'rotate-180' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 9l-7 7-7-7"
+                  />
+                </svg>
+              </button>
+
+              {isEffortOpen && (
+                <div className="p-4 space-y-4 border-t border-black">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={effortMode}
+                      onChange={(e) => setEffortMode(e.target.checked)}
+                      className="accent-black"
+                    />
+                    <span className="text-xs font-medium text-gray-700 uppercase">
+                      Estimate Hours Per Role
+                    </span>
+                  </label>
+
+                  <label className="block">
+                    <span className="text-xs font-medium text-gray-700 uppercase">
+                      Rate Card (USD / Hour)
+                    </span>
+                    <input
+                      type="text"
+                      value={rateCard}
+                      onChange={(e) => setRateCard(e.target.value)}
+                      placeholder="backend:90,frontend:80,qa:60,review:100"
+                      disabled={!effortMode}
+                      className="mt-1 w-full px-4 py-3 bg-white border border-black focus:outline-none focus:ring-2 focus:ring-black text-black placeholder-gray-400 disabled:bg-gray-100"
+                    />
+                  </label>
+
+                  <p className="text-xs text-gray-500 italic">
+                    The model estimates hours for each role and the cost is
+                    worked out from the rates; the budget ranges below are not
+                    used. Leave the rate card empty for the server&apos;s default
+                    rates
+                  </p>
+                </div>
+              )}
             </div>
 
             {/* Overall Budget Range Inputs */}
@@ -421,6 +1291,392 @@ export default function Home() {
               )}
             </div>
 
+            {/* Multi-Repository Selection (Optional - Accordion) */}
+            <div className="border border-black">
+              <button
+                type="button"
+                onClick={() => setIsReposOpen(!isReposOpen)}
+                className="w-full flex items-center justify-between px-4 py-3 bg-white hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-sm font-semibold text-black uppercase tracking-wide">
+                  Multiple Repositories (Optional)
+                </span>
+                <svg
+                  className={`w-5 h-5 transition-transform ${isReposOpen ? 'rotate-180' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 9l-7 7-7-7"
+                  />
+                </svg>
+              </button>
+
+              {isReposOpen && (
+                <div className="p-4 space-y-4 border-t border-black">
+                  <label className="block">
+                    <span className="text-xs font-medium text-gray-700 uppercase">
+                      Additional Repository or Organization Links
+                    </span>
+                    <textarea
+                      value={extraRepoLinks}
+                      onChange={(e) => setExtraRepoLinks(e.target.value)}
+                      placeholder={'github.com/org/another-repo\ngithub.com/another-org'}
+                      rows={3}
+                      className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                    />
+                  </label>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Topic
+                      </span>
+                      <input
+                        type="text"
+                        value={repoTopic}
+                        onChange={(e) => setRepoTopic(e.target.value)}
+                        placeholder="backend"
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Repository Name
+                      </span>
+                      <input
+                        type="text"
+                        value={repoNameFilter}
+                        onChange={(e) => setRepoNameFilter(e.target.value)}
+                        placeholder="api-* or sdk"
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                      />
+                    </label>
+                  </div>
+
+                  <p className="text-xs text-gray-500 italic">
+                    Organization links expand to their non-archived, non-fork
+                    repositories. Topic and name narrow that expansion only
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* GitHub Project Write-back (Optional - Accordion) */}
+            <div className="border border-black">
+              <button
+                type="button"
+                onClick={() => setIsProjectOpen(!isProjectOpen)}
+                className="w-full flex items-center justify-between px-4 py-3 bg-white hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-sm font-semibold text-black uppercase tracking-wide">
+                  GitHub Project Write-back (Optional)
+                </span>
+                <svg
+                  className={`w-5 h-5 transition-transform ${isProjectOpen ? 'rotate-180' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 9l-7 7-7-7"
+                  />
+                </svg>
+              </button>
+
+              {isProjectOpen && (
+                <div className="p-4 space-y-4 border-t border-black">
+                  <label className="block">
+                    <span className="text-xs font-medium text-gray-700 uppercase">
+                      Project URL
+                    </span>
+                    <input
+                      type="text"
+                      value={projectUrl}
+                      onChange={(e) => setProjectUrl(e.target.value)}
+                      placeholder="github.com/orgs/org/projects/1"
+                      className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                    />
+                  </label>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Cost Field
+                      </span>
+                      <input
+                        type="text"
+                        value={projectCostField}
+                        onChange={(e) => setProjectCostField(e.target.value)}
+                        placeholder="Budget"
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Complexity Field
+                      </span>
+                      <input
+                        type="text"
+                        value={projectComplexityField}
+                        onChange={(e) => setProjectComplexityField(e.target.value)}
+                        placeholder="Complexity"
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                      />
+                    </label>
+                  </div>
+
+                  <p className="text-xs text-gray-500 italic">
+                    After estimating, the changes are shown as a dry run and
+                    only written when you click Apply. Missing issues are added
+                    to the project. Leave a field empty to skip it
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Publish to Issues (Optional - Accordion) */}
+            <div className="border border-black">
+              <button
+                type="button"
+                onClick={() => setIsPublishOpen(!isPublishOpen)}
+                className="w-full flex items-center justify-between px-4 py-3 bg-white hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-sm font-semibold text-black uppercase tracking-wide">
+                  Publish to Issues (Optional)
+                </span>
+                <svg
+                  className={`w-5 h-5 transition-transform ${isPublishOpen ? 'rotate-180' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 9l-7 7-7-7"
+                  />
+                </svg>
+              </button>
+
+              {isPublishOpen && (
+                <div className="p-4 space-y-4 border-t border-black">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={publishLabels}
+                      onChange={(e) => setPublishLabels(e.target.checked)}
+                      className="accent-black"
+                    />
+                    <span className="text-xs font-medium text-gray-700 uppercase">
+                      Labels (cost:$NNN, complexity:level)
+                    </span>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={publishComment}
+                      onChange={(e) => setPublishComment(e.target.checked)}
+                      className="accent-black"
+                    />
+                    <span className="text-xs font-medium text-gray-700 uppercase">
+                      Estimate Comment
+                    </span>
+                  </label>
+
+                  <p className="text-xs text-gray-500 italic">
+                    Re-running updates the existing comment and replaces old
+                    estimate labels. Needs write access to the issues
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {/* Issue Selection Filters (Optional - Accordion) */}
+            <div className="border border-black">
+              <button
+                type="button"
+                onClick={() => setIsFiltersOpen(!isFiltersOpen)}
+                className="w-full flex items-center justify-between px-4 py-3 bg-white hover:bg-gray-50 transition-colors"
+              >
+                <span className="text-sm font-semibold text-black uppercase tracking-wide">
+                  Issue Filters (Optional)
+                </span>
+                <svg
+                  className={`w-5 h-5 transition-transform ${isFiltersOpen ? 'rotate-180' : ''}`}
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 9l-7 7-7-7"
+                  />
+                </svg>
+              </button>
+
+              {isFiltersOpen && (
+                <div className="p-4 space-y-4 border-t border-black">
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Include Labels
+                      </span>
+                      <input
+                        type="text"
+                        value={includeLabels}
+                        onChange={(e) => setIncludeLabels(e.target.value)}
+                        placeholder="bug, enhancement"
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Exclude Labels
+                      </span>
+                      <input
+                        type="text"
+                        value={excludeLabels}
+                        onChange={(e) => setExcludeLabels(e.target.value)}
+                        placeholder="wontfix, question, duplicate"
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Milestone
+                      </span>
+                      <input
+                        type="text"
+                        value={milestone}
+                        onChange={(e) => setMilestone(e.target.value)}
+                        placeholder="Title, #number, * or none"
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Assignee
+                      </span>
+                      <input
+                        type="text"
+                        value={assignee}
+                        onChange={(e) => setAssignee(e.target.value)}
+                        placeholder="Login, * or none"
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Author
+                      </span>
+                      <input
+                        type="text"
+                        value={author}
+                        onChange={(e) => setAuthor(e.target.value)}
+                        placeholder="Login"
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Max Issues
+                      </span>
+                      <input
+                        type="number"
+                        value={maxIssues}
+                        onChange={(e) => setMaxIssues(e.target.value)}
+                        placeholder="All"
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                      />
+                    </label>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-3">
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Date Field
+                      </span>
+                      <select
+                        value={dateField}
+                        onChange={(e) =>
+                          setDateField(e.target.value as 'created' | 'updated')
+                        }
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black"
+                      >
+                        <option value="created">Created</option>
+                        <option value="updated">Updated</option>
+                      </select>
+                    </label>
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Since
+                      </span>
+                      <input
+                        type="date"
+                        value={since}
+                        onChange={(e) => setSince(e.target.value)}
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Until
+                      </span>
+                      <input
+                        type="date"
+                        value={until}
+                        onChange={(e) => setUntil(e.target.value)}
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black"
+                      />
+                    </label>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Only Issue Numbers
+                      </span>
+                      <input
+                        type="text"
+                        value={issueNumbers}
+                        onChange={(e) => setIssueNumbers(e.target.value)}
+                        placeholder="12, 34, 56"
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs font-medium text-gray-700 uppercase">
+                        Skip Issue Numbers
+                      </span>
+                      <input
+                        type="text"
+                        value={excludeIssueNumbers}
+                        onChange={(e) => setExcludeIssueNumbers(e.target.value)}
+                        placeholder="7, 8"
+                        className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                      />
+                    </label>
+                  </div>
+
+                  <p className="text-xs text-gray-500 italic">
+                    Filters apply to repository analysis only. Leave empty to
+                    estimate every open issue
+                  </p>
+                </div>
+              )}
+            </div>
+
             <div className="relative">
               <div className="absolute inset-0 flex items-center">
                 <div className="w-full border-t border-gray-300"></div>
@@ -436,14 +1692,14 @@ export default function Home() {
             <form onSubmit={handleRepoSubmit} className="space-y-3">
               <label className="block">
                 <span className="text-sm font-semibold text-black uppercase tracking-wide">
-                  GitHub Repository Link
+                  Repository or Organization Link
                 </span>
                 <div className="mt-2 flex gap-3">
                   <input
                     type="text"
                     value={repoLink}
                     onChange={(e) => setRepoLink(e.target.value)}
-                    placeholder="github.com/username/repository"
+                    placeholder="github.com/username/repository, github.com/org or gitlab.com/group/project"
                     className="flex-1 px-4 py-3 bg-white border border-black focus:outline-none focus:ring-2 focus:ring-black text-black placeholder-gray-400"
                     disabled={isLoading}
                   />
@@ -480,6 +1736,29 @@ export default function Home() {
               </div>
             )}
 
+            {/* Apply pending project write-back */}
+            {pendingProjectEstimations && (
+              <div className="border border-cyan-500 bg-black p-4">
+                <div className="flex items-center justify-between">
+                  <div className="space-y-1">
+                    <p className="text-sm font-semibold text-cyan-400 uppercase tracking-wide font-mono">
+                      [ PROJECT DIFF READY ]
+                    </p>
+                    <p className="text-xs text-cyan-500 font-mono">
+                      REVIEW THE LOG ABOVE BEFORE APPLYING
+                    </p>
+                  </div>
+                  <button
+                    onClick={handleApplyProject}
+                    disabled={isApplyingProject}
+                    className="px-6 py-3 bg-cyan-500 hover:bg-cyan-400 text-black font-bold uppercase text-sm tracking-wide transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 font-mono disabled:bg-gray-400"
+                  >
+                    {isApplyingProject ? 'APPLYING...' : 'APPLY'}
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* CSV Download Button */}
             {csvContent && (
               <div className="border border-green-500 bg-black p-4">
@@ -490,14 +1769,26 @@ export default function Home() {
                     </p>
                     <p className="text-xs text-green-500 font-mono">
                       CSV FILE READY
+                      {failedEstimations.length > 0 && ` | ${failedEstimations.length} FAILED OR SKIPPED`}
                     </p>
                   </div>
-                  <button
-                    onClick={handleDownloadCSV}
-                    className="px-6 py-3 bg-green-500 hover:bg-green-400 text-black font-bold uppercase text-sm tracking-wide transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 font-mono"
-                  >
-                    DOWNLOAD
-                  </button>
+                  <div className="flex gap-3">
+                    {failedEstimations.length > 0 && (
+                      <button
+                        onClick={handleRetryFailed}
+                        disabled={isLoading}
+                        className="px-6 py-3 bg-cyan-500 hover:bg-cyan-400 text-black font-bold uppercase text-sm tracking-wide transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 font-mono disabled:bg-gray-400"
+                      >
+                        RETRY FAILED
+                      </button>
+                    )}
+                    <button
+                      onClick={handleDownloadCSV}
+                      className="px-6 py-3 bg-green-500 hover:bg-green-400 text-black font-bold uppercase text-sm tracking-wide transition-colors focus:outline-none focus:ring-2 focus:ring-green-500 font-mono"
+                    >
+                      DOWNLOAD
+                    </button>
+                  </div>
                 </div>
               </div>
             )}
@@ -517,14 +1808,14 @@ export default function Home() {
             <form onSubmit={handleIssueSubmit} className="space-y-3">
               <label className="block">
                 <span className="text-sm font-semibold text-black uppercase tracking-wide">
-                  GitHub Issue Link
+                  Issue Link
                 </span>
                 <div className="mt-2 flex gap-3">
                   <input
                     type="text"
                     value={issueLink}
                     onChange={(e) => setIssueLink(e.target.value)}
-                    placeholder="github.com/username/repository/issues/123"
+                    placeholder="github.com/username/repository/issues/123 or gitlab.com/group/project/-/issues/123"
                     className="flex-1 px-4 py-3 bg-white border border-black focus:outline-none focus:ring-2 focus:ring-black text-black placeholder-gray-400"
                     disabled={isLoading}
                   />
@@ -538,6 +1829,114 @@ export default function Home() {
                 </div>
               </label>
             </form>
+
+            <div className="relative">
+              <div className="absolute inset-0 flex items-center">
+                <div className="w-full border-t border-gray-300"></div>
+              </div>
+              <div className="relative flex justify-center text-sm">
+                <span className="px-4 bg-white text-gray-500 uppercase text-xs font-medium">
+                  OR
+                </span>
+              </div>
+            </div>
+
+            {/* Offline Import (JSON or CSV export) */}
+            <form onSubmit={handleImportSubmit} className="space-y-3">
+              <span className="block text-sm font-semibold text-black uppercase tracking-wide">
+                Import Issues from JSON or CSV
+              </span>
+              <div className="grid grid-cols-2 gap-3">
+                <label className="block">
+                  <span className="text-xs font-medium text-gray-700 uppercase">
+                    Source Name
+                  </span>
+                  <input
+                    type="text"
+                    value={importSource}
+                    onChange={(e) => setImportSource(e.target.value)}
+                    onBlur={handleImportSourceBlur}
+                    placeholder="Jira PROJ"
+                    className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                    disabled={isLoading}
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-xs font-medium text-gray-700 uppercase">
+                    Export File
+                  </span>
+                  <input
+                    type="file"
+                    accept=".json,.csv,application/json,text/csv"
+                    onChange={(e) => setImportFile(e.target.files?.[0] ?? null)}
+                    className="mt-1 w-full text-sm text-black file:mr-3 file:px-3 file:py-2 file:border file:border-black file:bg-white file:text-xs file:uppercase"
+                    disabled={isLoading}
+                  />
+                </label>
+              </div>
+
+              <div className="border border-black">
+                <button
+                  type="button"
+                  onClick={() => setIsImportMappingOpen(!isImportMappingOpen)}
+                  className="w-full flex items-center justify-between px-4 py-3 bg-white hover:bg-gray-50 transition-colors"
+                >
+                  <span className="text-sm font-semibold text-black uppercase tracking-wide">
+                    Column Mapping (Optional)
+                  </span>
+                  <svg
+                    className={`w-5 h-5 transition-transform ${isImportMappingOpen ? 'rotate-180' : ''}`}
+                    fill="none"
+                    stroke="currentColor"
+                    viewBox="0 0 24 24"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth={2}
+                      d="M19 9l-7 7-7-7"
+                    />
+                  </svg>
+                </button>
+
+                {isImportMappingOpen && (
+                  <div className="p-4 space-y-4 border-t border-black">
+                    <div className="grid grid-cols-2 gap-3">
+                      {IMPORT_FIELDS.map((field) => (
+                        <label key={field.key} className="block">
+                          <span className="text-xs font-medium text-gray-700 uppercase">
+                            {field.label}
+                          </span>
+                          <input
+                            type="text"
+                            value={importMapping[field.key] ?? ''}
+                            onChange={(e) =>
+                              setImportMapping({ ...importMapping, [field.key]: e.target.value })
+                            }
+                            placeholder={field.placeholder}
+                            className="mt-1 w-full px-3 py-2 bg-white border border-gray-300 focus:outline-none focus:ring-1 focus:ring-black text-sm text-black placeholder-gray-400"
+                          />
+                        </label>
+                      ))}
+                    </div>
+
+                    <p className="text-xs text-gray-500 italic">
+                      Column headers or JSON keys (dot paths for nested
+                      values). The mapping is saved for this source after a
+                      successful import
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading || !importFile || !importSource.trim()}
+                className="w-full px-6 py-3 bg-black hover:bg-gray-800 text-white font-medium uppercase text-sm tracking-wide transition-colors focus:outline-none focus:ring-2 focus:ring-black disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {isLoading ? 'Processing...' : 'Import & Estimate'}
+              </button>
+            </form>
           </div>
         </div>
       </main>
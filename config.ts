@@ -1,9 +1,211 @@
 export const config = {
   github: {
     token: process.env.GITHUB_TOKEN || '',
+    // JSON array of self-hosted GitHub Enterprise Server hosts, e.g.
+    // [{"host":"ghe.example.com","apiUrl":"https://ghe.example.com/api/v3","token":"..."}]
+    enterpriseHosts: process.env.GITHUB_ENTERPRISE_HOSTS || '',
+    // 'graphql' fetches issues and comments in bulk; 'rest' forces the
+    // per-issue listComments path
+    fetchStrategy:
+      process.env.GITHUB_FETCH_STRATEGY === 'rest' ? 'rest' : 'graphql',
+    cache: {
+      // 'memory' (default), 'file' or 'none'
+      store: (process.env.GITHUB_CACHE_STORE || 'memory') as
+        | 'memory'
+        | 'file'
+        | 'none',
+      dir: process.env.GITHUB_CACHE_DIR || '.github-cache',
+      ttlSeconds: parseInt(process.env.GITHUB_CACHE_TTL_SECONDS || '300', 10),
+    },
+    rateLimit: {
+      // Requests in flight per GitHub host, shared by all clients
+      maxConcurrent: parseInt(process.env.GITHUB_MAX_CONCURRENT_REQUESTS || '8', 10),
+      // Retries per request for rate limits and transient 5xx errors
+      maxRetries: parseInt(process.env.GITHUB_MAX_RETRIES || '4', 10),
+      // Longer rate-limit waits fail the request instead
+      maxWaitSeconds: parseInt(
+        process.env.GITHUB_RATE_LIMIT_MAX_WAIT_SECONDS || '900',
+        10
+      ),
+    },
+    // Let requests without a signed-in user write to projects and issues as
+    // the server's token. Off by default: anyone could act as its account
+    serverTokenWrites: process.env.GITHUB_SERVER_TOKEN_WRITES === 'true',
+    oauth: {
+      clientId: process.env.GITHUB_OAUTH_CLIENT_ID || '',
+      clientSecret: process.env.GITHUB_OAUTH_CLIENT_SECRET || '',
+      // Defaults to <origin>/api/auth/github/callback
+      redirectUri: process.env.GITHUB_OAUTH_REDIRECT_URI || '',
+      scope: process.env.GITHUB_OAUTH_SCOPE || 'repo read:org',
+    },
+  },
+  gitlab: {
+    // Token for gitlab.com
+    token: process.env.GITLAB_TOKEN || '',
+    // JSON array of self-managed GitLab hosts, same shape as
+    // GITHUB_ENTERPRISE_HOSTS with an apiUrl ending in /api/v4
+    hosts: process.env.GITLAB_HOSTS || '',
+  },
+  gitea: {
+    // JSON array of Gitea / Forgejo hosts with an apiUrl ending in /api/v1
+    hosts: process.env.GITEA_HOSTS || '',
+  },
+  codeContext: {
+    // Pull files and stack-trace locations referenced by an issue into the prompt
+    enabled: process.env.CODE_CONTEXT_ENABLED !== 'false',
+    // Approximate prompt tokens spent on code excerpts per issue
+    tokenBudget: parseInt(process.env.CODE_CONTEXT_TOKEN_BUDGET || '2000', 10),
+    maxFiles: parseInt(process.env.CODE_CONTEXT_MAX_FILES || '5', 10),
+    // Lines shown on each side of a referenced line
+    contextLines: parseInt(process.env.CODE_CONTEXT_LINES || '20', 10),
+    // Window for counting recent commits to a file
+    churnDays: parseInt(process.env.CODE_CONTEXT_CHURN_DAYS || '90', 10),
+  },
+  calibration: {
+    // Show the model comparable closed issues and the PRs that resolved them
+    enabled: process.env.CALIBRATION_ENABLED !== 'false',
+    // Recently closed issues sampled per repository (at most 100)
+    sampleSize: parseInt(process.env.CALIBRATION_SAMPLE_SIZE || '50', 10),
+    // Historical examples added to each issue's prompt
+    examplesPerIssue: parseInt(process.env.CALIBRATION_EXAMPLES || '3', 10),
+    // How long a repository's profile is reused before it is rebuilt
+    ttlHours: parseInt(process.env.CALIBRATION_TTL_HOURS || '24', 10),
+    dir: process.env.CALIBRATION_CACHE_DIR || '.calibration-cache',
+  },
+  comments: {
+    // Prompt tokens for an issue's body and comments; 0 uses the model default
+    tokenBudget: parseInt(process.env.COMMENT_TOKEN_BUDGET || '0', 10),
+    // Fenced code and log blocks longer than this are shortened
+    maxBlockLines: parseInt(process.env.COMMENT_MAX_BLOCK_LINES || '40', 10),
+  },
+  similarity: {
+    // Look for duplicate and related issues within a run
+    enabled: process.env.SIMILARITY_ENABLED !== 'false',
+    // 'embeddings' (from the run model's provider, TF-IDF when it has none)
+    // or 'tfidf' (offline)
+    method: (process.env.SIMILARITY_METHOD === 'tfidf'
+      ? 'tfidf'
+      : 'embeddings') as 'embeddings' | 'tfidf',
+    embeddingModel:
+      process.env.SIMILARITY_EMBEDDING_MODEL || 'text-embedding-3-small',
+    // Cosine similarity cutoffs; 0 uses the method's defaults
+    duplicateThreshold: parseFloat(
+      process.env.SIMILARITY_DUPLICATE_THRESHOLD || '0'
+    ),
+    relatedThreshold: parseFloat(process.env.SIMILARITY_RELATED_THRESHOLD || '0'),
+    // Fraction taken off each duplicate's cost; the cluster's original is
+    // charged in full. 0 keeps every estimate as is
+    clusterDiscount: parseFloat(process.env.SIMILARITY_CLUSTER_DISCOUNT || '0'),
+  },
+  webhook: {
+    // Secret GitHub signs webhook deliveries with (X-Hub-Signature-256)
+    secret: process.env.GITHUB_WEBHOOK_SECRET || '',
+    // Events for the same issue within this window trigger one re-estimate
+    debounceSeconds: parseInt(process.env.WEBHOOK_DEBOUNCE_SECONDS || '30', 10),
+    // Comma-separated: 'labels' and/or 'comment'. Publishing is where a
+    // re-estimate is kept, so a value that publishes nothing is rejected
+    publish: process.env.WEBHOOK_PUBLISH ?? 'labels,comment',
+    model: process.env.WEBHOOK_MODEL || '',
+    minBudget: parseInt(process.env.WEBHOOK_MIN_BUDGET || '0', 10),
+    maxBudget: parseInt(process.env.WEBHOOK_MAX_BUDGET || '0', 10),
+  },
+  import: {
+    // Column mappings saved per import source, one JSON file each
+    mappingsDir: process.env.IMPORT_MAPPINGS_DIR || '.import-mappings',
+    // Largest uploaded export accepted, in bytes
+    maxFileBytes: parseInt(
+      process.env.IMPORT_MAX_FILE_BYTES || String(5 * 1024 * 1024),
+      10
+    ),
+  },
+  llm: {
+    // Model used when a request doesn't name one, e.g. 'gpt-5-nano' or
+    // 'anthropic:claude-haiku-4-5'
+    defaultModel: process.env.LLM_DEFAULT_MODEL || 'gpt-5-nano',
+    // Limits per provider, shared by every run in the process
+    rateLimit: {
+      // Requests in flight; lowered after a 429 and raised back gradually
+      maxConcurrent: parseInt(process.env.LLM_MAX_CONCURRENT || '8', 10),
+      // 0 leaves the budget unlimited
+      requestsPerMinute: parseInt(process.env.LLM_REQUESTS_PER_MINUTE || '0', 10),
+      tokensPerMinute: parseInt(process.env.LLM_TOKENS_PER_MINUTE || '0', 10),
+    },
+    // JSON object of USD prices per million tokens, e.g.
+    // {"azure:my-gpt5":{"input":1.25,"output":10}}; adds to the built-in list
+    prices: process.env.LLM_PRICES || '',
+    // Model spend a run may reach before the remaining issues are skipped,
+    // in USD; 0 leaves it uncapped
+    spendCap: parseFloat(process.env.LLM_SPEND_CAP || '0'),
+  },
+  estimation: {
+    // Extra round-trips asking the model to fix a reply that fails validation
+    maxRepairAttempts: parseInt(
+      process.env.ESTIMATION_MAX_REPAIR_ATTEMPTS || '2',
+      10
+    ),
+    // 'clamp' moves a cost outside its complexity's range to the nearest
+    // bound; 'flag' keeps it and records the deviation
+    outOfRange: (process.env.ESTIMATION_OUT_OF_RANGE === 'flag'
+      ? 'flag'
+      : 'clamp') as 'clamp' | 'flag',
+    // Retries per issue for timeouts, rate limits, 5xx errors and replies
+    // that stay invalid; issues still failing are reported, not thrown
+    maxRetries: parseInt(process.env.ESTIMATION_MAX_RETRIES || '3', 10),
+    // First retry delay, doubled for each further attempt
+    retryBaseDelayMs: parseInt(
+      process.env.ESTIMATION_RETRY_BASE_DELAY_MS || '1000',
+      10
+    ),
+  },
+  ensemble: {
+    // Replies per model for each issue; 1 turns the ensemble off
+    samples: parseInt(process.env.ENSEMBLE_SAMPLES || '1', 10),
+    // Comma-separated model ids asked besides the request's model
+    models: process.env.ENSEMBLE_MODELS || '',
+    // Issues below either score are flagged for human review
+    minAgreement: parseFloat(process.env.ENSEMBLE_MIN_AGREEMENT || '0.6'),
+    minConfidence: parseFloat(process.env.ENSEMBLE_MIN_CONFIDENCE || '0.4'),
+  },
+  effort: {
+    // 'effort' asks the model for hours per role and prices them with the
+    // rate card; 'budget' (default) asks for a cost within the budget ranges
+    mode: (process.env.ESTIMATION_MODE === 'effort' ? 'effort' : 'budget') as
+      | 'budget'
+      | 'effort',
+    // Hourly rate in USD per role, e.g. 'backend:90,frontend:80'
+    rateCard:
+      process.env.EFFORT_RATE_CARD || 'backend:90,frontend:80,qa:60,review:100',
   },
   openai: {
     apiKey: process.env.OPENAI_API_KEY || '',
+    models: process.env.OPENAI_MODELS || 'gpt-5,gpt-5-mini,gpt-5-nano,gpt-4.1',
+  },
+  azureOpenai: {
+    apiKey: process.env.AZURE_OPENAI_API_KEY || '',
+    // e.g. https://my-resource.openai.azure.com
+    endpoint: process.env.AZURE_OPENAI_ENDPOINT || '',
+    apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+    // Comma-separated deployment names, used as the model names
+    deployments: process.env.AZURE_OPENAI_DEPLOYMENTS || '',
+  },
+  anthropic: {
+    apiKey: process.env.ANTHROPIC_API_KEY || '',
+    baseUrl: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+    models:
+      process.env.ANTHROPIC_MODELS || 'claude-sonnet-4-5,claude-haiku-4-5',
+    maxTokens: parseInt(process.env.ANTHROPIC_MAX_TOKENS || '1024', 10),
+  },
+  // JSON array of OpenAI-compatible servers (Ollama, vLLM, LM Studio), e.g.
+  // [{"id":"ollama","baseUrl":"http://localhost:11434/v1","models":["llama3.1"]}]
+  openaiCompatible: {
+    servers: process.env.OPENAI_COMPATIBLE_SERVERS || '',
+  },
+  session: {
+    secret: process.env.SESSION_SECRET || '',
+    maxAgeSeconds: parseInt(
+      process.env.SESSION_MAX_AGE_SECONDS || String(7 * 24 * 60 * 60),
+      10
+    ),
   },
   app: {
     nodeEnv: process.env.NODE_ENV || 'development',
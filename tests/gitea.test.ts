@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockServer, startMockServer } from './mockServer';
+
+type Providers = typeof import('@/app/_lib/services/providers');
+
+const REPO = '/api/v1/repos/acme/widgets';
+
+// 60 open issues: a full page of 50 and a short one of 10. Every seventh
+// number is a pull request, which type=issues should have left out.
+const ISSUES = Array.from({ length: 60 }, (_, index) => {
+  const number = index + 1;
+  return {
+    number,
+    title: `Issue ${number}`,
+    body: null,
+    state: 'open',
+    labels: (number % 4 === 0 ? ['bug', 'duplicate'] : ['bug']).map((name) => ({
+      name,
+    })),
+    created_at: '2025-05-01T09:00:00Z',
+    updated_at: '2025-05-02T09:00:00Z',
+    comments: 0,
+    html_url: `https://gitea.test/acme/widgets/issues/${number}`,
+    user: { login: number % 2 ? 'alice' : 'bob' },
+    assignees: null,
+    milestone: null,
+    pull_request: number % 7 === 0 ? { merged: false } : null,
+  };
+});
+
+// 51 comments on issue 1, one more than a page
+const COMMENTS = Array.from({ length: 51 }, (_, index) => ({
+  id: index + 1,
+  body: `Comment ${index + 1}`,
+  created_at: '2025-05-01T10:00:00Z',
+  user: { login: 'carol' },
+}));
+
+function page<T>(items: T[], url: URL): T[] {
+  const limit = Number(url.searchParams.get('limit'));
+  const number = Number(url.searchParams.get('page'));
+  return items.slice((number - 1) * limit, number * limit);
+}
+
+describe('Gitea provider', () => {
+  let server: MockServer;
+  let providers: Providers;
+
+  beforeAll(async () => {
+    // Ignores the type, label and author parameters
+    server = await startMockServer(({ url }) => {
+      if (url.pathname === `${REPO}/issues`) {
+        return { body: page(ISSUES, url) };
+      }
+      if (url.pathname === `${REPO}/issues/1/comments`) {
+        return { body: page(COMMENTS, url) };
+      }
+      return undefined;
+    });
+    // Read by config.ts, so set before the services are imported
+    process.env.GITEA_HOSTS = JSON.stringify([
+      { host: 'gitea.test', apiUrl: `${server.url}/api/v1`, token: 'gt-token' },
+    ]);
+    providers = await import('@/app/_lib/services/providers');
+  });
+
+  afterAll(() => server.close());
+
+  it('only knows the configured hosts', () => {
+    expect(providers.parseRepoUrl('gitea.test/acme/widgets')).toMatchObject({
+      provider: { kind: 'gitea' },
+      repoInfo: { host: 'gitea.test', owner: 'acme', repo: 'widgets' },
+    });
+    expect(providers.parseRepoUrl('gitea.example/acme/widgets')).toBeNull();
+  });
+
+  it('pages through open issues and re-applies the filters locally', async () => {
+    const { provider, repoInfo } = providers.parseRepoUrl(
+      'https://gitea.test/acme/widgets'
+    )!;
+    const issues = await provider.listOpenIssues(
+      repoInfo,
+      { includeLabels: ['bug'], excludeLabels: ['duplicate'], author: 'alice' },
+      { host: repoInfo.host }
+    );
+
+    const expected = ISSUES.filter(
+      (issue) =>
+        !issue.pull_request &&
+        !issue.labels.some((label) => label.name === 'duplicate') &&
+        issue.user.login === 'alice'
+    ).map((issue) => issue.number);
+    expect(issues.map((issue) => issue.number)).toEqual(expected);
+    expect(issues[0]).toMatchObject({ labels: ['bug'], author: 'alice' });
+
+    const listings = server.requests.filter(
+      (request) => request.url.pathname === `${REPO}/issues`
+    );
+    expect(
+      listings.map((request) => request.url.searchParams.get('page'))
+    ).toEqual(['1', '2']);
+    for (const { url, headers } of listings) {
+      expect(url.searchParams.get('state')).toBe('open');
+      expect(url.searchParams.get('type')).toBe('issues');
+      expect(url.searchParams.get('limit')).toBe('50');
+      expect(url.searchParams.get('labels')).toBe('bug');
+      expect(url.searchParams.get('created_by')).toBe('alice');
+      expect(headers.authorization).toBe('token gt-token');
+    }
+  });
+
+  it('pages through comments', async () => {
+    const { provider, issueInfo } = providers.parseIssueUrl(
+      'gitea.test/acme/widgets/issues/1'
+    )!;
+    const comments = await provider.fetchIssueComments(issueInfo, {
+      host: issueInfo.host,
+      token: 'user-token',
+    });
+
+    expect(comments).toHaveLength(COMMENTS.length);
+    expect(comments.at(-1)).toMatchObject({ id: 51, author: 'carol' });
+    const requests = server.requests.filter(
+      (request) => request.url.pathname === `${REPO}/issues/1/comments`
+    );
+    expect(requests).toHaveLength(2);
+    expect(requests[0].headers.authorization).toBe('token user-token');
+  });
+});
@@ -0,0 +1,119 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockServer, startMockServer } from './mockServer';
+
+type Providers = typeof import('@/app/_lib/services/providers');
+type GitHubClient = typeof import('@/app/_lib/services/githubClient');
+
+const ISSUE = {
+  number: 7,
+  title: 'Retry failed uploads',
+  body: 'Uploads over 2 GB fail without a retry.',
+  state: 'open',
+  labels: [{ name: 'bug' }],
+  created_at: '2025-05-01T09:00:00Z',
+  updated_at: '2025-05-02T09:00:00Z',
+  comments: 0,
+  html_url: 'https://ghe.test/acme/widgets/issues/7',
+  user: { login: 'alice' },
+  assignees: [],
+  milestone: null,
+  locked: false,
+};
+
+describe('GitHub Enterprise hosts', () => {
+  let server: MockServer;
+  let providers: Providers;
+  let githubClient: GitHubClient;
+
+  beforeAll(async () => {
+    server = await startMockServer(({ url }) =>
+      url.pathname === '/api/v3/repos/acme/widgets/issues/7'
+        ? { body: ISSUE }
+        : { body: [] }
+    );
+    // Read by config.ts, so set before the services are imported
+    process.env.GITHUB_ENTERPRISE_HOSTS = JSON.stringify([
+      { host: 'GHE.test', apiUrl: `${server.url}/api/v3/`, token: 'ghe-token' },
+      { host: 'ghe2.test' },
+    ]);
+    process.env.GITHUB_CACHE_STORE = 'none';
+    providers = await import('@/app/_lib/services/providers');
+    githubClient = await import('@/app/_lib/services/githubClient');
+  });
+
+  afterAll(() => server.close());
+
+  it('reads hosts from GITHUB_ENTERPRISE_HOSTS', () => {
+    expect(githubClient.getGitHubHosts()).toEqual([
+      expect.objectContaining({
+        host: 'github.com',
+        apiUrl: 'https://api.github.com',
+      }),
+      { host: 'ghe.test', apiUrl: `${server.url}/api/v3`, token: 'ghe-token' },
+      {
+        host: 'ghe2.test',
+        apiUrl: 'https://ghe2.test/api/v3',
+        token: undefined,
+      },
+    ]);
+  });
+
+  it('routes issue links on the host to the GitHub provider', () => {
+    const parsed = providers.parseIssueUrl(
+      'https://www.ghe.test/acme/widgets/issues/7'
+    );
+    expect(parsed?.provider.kind).toBe('github');
+    expect(parsed?.issueInfo).toEqual({
+      host: 'ghe.test',
+      owner: 'acme',
+      repo: 'widgets',
+      issueNumber: 7,
+    });
+    expect(
+      providers.parseIssueUrl('https://ghe3.test/acme/widgets/issues/7')
+    ).toBeNull();
+  });
+
+  it("sends the host's requests to its apiUrl with its token", async () => {
+    const { provider, issueInfo } = providers.parseIssueUrl(
+      'ghe.test/acme/widgets/issues/7'
+    )!;
+    const issue = await provider.fetchIssue(issueInfo, {
+      host: issueInfo.host,
+    });
+
+    expect(issue).toMatchObject({ number: 7, title: ISSUE.title });
+    expect(server.requests.length).toBeGreaterThan(0);
+    for (const request of server.requests) {
+      expect(request.url.pathname).toMatch(
+        /^\/api\/v3\/repos\/acme\/widgets\//
+      );
+      expect(request.headers.authorization).toBe('token ghe-token');
+    }
+  });
+
+  it("prefers the signed-in user's token over the host's", async () => {
+    server.requests.length = 0;
+    const octokit = githubClient.createGitHubClient({
+      host: 'ghe.test',
+      token: 'user-token',
+    });
+    await octokit.rest.issues.get({
+      owner: 'acme',
+      repo: 'widgets',
+      issue_number: 7,
+    });
+
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].url.pathname).toBe(
+      '/api/v3/repos/acme/widgets/issues/7'
+    );
+    expect(server.requests[0].headers.authorization).toBe('token user-token');
+  });
+
+  it('rejects hosts that are not configured', () => {
+    expect(() =>
+      githubClient.createGitHubClient({ host: 'ghe3.test' })
+    ).toThrow('GitHub host ghe3.test is not configured');
+  });
+});
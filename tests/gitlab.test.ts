@@ -0,0 +1,150 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { MockServer, startMockServer } from './mockServer';
+
+type Providers = typeof import('@/app/_lib/services/providers');
+
+const PROJECT = '/api/v4/projects/group%2Fsub%2Fwidgets';
+
+// 103 open issues: a full page of 100 and a short one of 3
+const ISSUES = Array.from({ length: 103 }, (_, index) => {
+  const iid = index + 1;
+  return {
+    iid,
+    title: `Issue ${iid}`,
+    description: null,
+    state: 'opened',
+    labels:
+      iid % 3 === 0
+        ? ['bug', 'wontfix']
+        : iid % 5 === 0
+          ? ['feature']
+          : ['bug'],
+    created_at: '2025-05-01T09:00:00Z',
+    updated_at: '2025-05-02T09:00:00Z',
+    user_notes_count: 0,
+    web_url: `https://gitlab.test/group/sub/widgets/-/issues/${iid}`,
+    author: { username: iid % 2 ? 'alice' : 'bob' },
+    milestone: null,
+    upvotes: 0,
+    downvotes: 0,
+    discussion_locked: false,
+  };
+});
+
+// 101 notes on issue 1, every tenth a system note, so a second page is needed
+const NOTES = Array.from({ length: 101 }, (_, index) => ({
+  id: index + 1,
+  body: `Note ${index + 1}`,
+  created_at: '2025-05-01T10:00:00Z',
+  author: { username: 'carol' },
+  system: index % 10 === 5,
+}));
+
+function page<T>(items: T[], url: URL): T[] {
+  const perPage = Number(url.searchParams.get('per_page'));
+  const number = Number(url.searchParams.get('page'));
+  return items.slice((number - 1) * perPage, number * perPage);
+}
+
+describe('GitLab provider', () => {
+  let server: MockServer;
+  let providers: Providers;
+
+  beforeAll(async () => {
+    // Ignores the label and author parameters, like an older GitLab might
+    server = await startMockServer(({ url }) => {
+      if (url.pathname === `${PROJECT}/issues`) {
+        return { body: page(ISSUES, url) };
+      }
+      if (url.pathname === `${PROJECT}/issues/1/notes`) {
+        return { body: page(NOTES, url) };
+      }
+      return undefined;
+    });
+    // Read by config.ts, so set before the services are imported
+    process.env.GITLAB_HOSTS = JSON.stringify([
+      {
+        host: 'gitlab.test',
+        apiUrl: `${server.url}/api/v4`,
+        token: 'gl-token',
+      },
+    ]);
+    providers = await import('@/app/_lib/services/providers');
+  });
+
+  afterAll(() => server.close());
+
+  it('parses subgroup links on a configured host', () => {
+    const parsed = providers.parseRepoUrl('gitlab.test/group/sub/widgets');
+    expect(parsed?.provider.kind).toBe('gitlab');
+    expect(parsed?.repoInfo).toEqual({
+      host: 'gitlab.test',
+      owner: 'group/sub',
+      repo: 'widgets',
+    });
+  });
+
+  it('pages through open issues and re-applies the filters locally', async () => {
+    const { provider, repoInfo } = providers.parseRepoUrl(
+      'https://gitlab.test/group/sub/widgets'
+    )!;
+    const issues = await provider.listOpenIssues(
+      repoInfo,
+      { includeLabels: ['bug'], excludeLabels: ['wontfix'], author: 'alice' },
+      { host: repoInfo.host }
+    );
+
+    const expected = ISSUES.filter(
+      (issue) =>
+        issue.labels.includes('bug') &&
+        !issue.labels.includes('wontfix') &&
+        issue.author.username === 'alice'
+    ).map((issue) => issue.iid);
+    expect(issues.map((issue) => issue.number)).toEqual(expected);
+    expect(issues[0]).toMatchObject({ state: 'open', author: 'alice' });
+
+    const listings = server.requests.filter(
+      (request) => request.url.pathname === `${PROJECT}/issues`
+    );
+    expect(
+      listings.map((request) => request.url.searchParams.get('page'))
+    ).toEqual(['1', '2']);
+    for (const { url, headers } of listings) {
+      expect(url.searchParams.get('state')).toBe('opened');
+      expect(url.searchParams.get('per_page')).toBe('100');
+      expect(url.searchParams.get('labels')).toBe('bug');
+      expect(url.searchParams.get('author_username')).toBe('alice');
+      expect(headers['private-token']).toBe('gl-token');
+    }
+  });
+
+  it('caps the listing at maxIssues after filtering', async () => {
+    const { provider, repoInfo } = providers.parseRepoUrl(
+      'gitlab.test/group/sub/widgets'
+    )!;
+    const issues = await provider.listOpenIssues(
+      repoInfo,
+      { excludeLabels: ['bug'], maxIssues: 3 },
+      { host: repoInfo.host }
+    );
+    expect(issues.map((issue) => issue.number)).toEqual([5, 10, 20]);
+  });
+
+  it('pages through comments and drops system notes', async () => {
+    const { provider, issueInfo } = providers.parseIssueUrl(
+      'gitlab.test/group/sub/widgets/-/issues/1'
+    )!;
+    const comments = await provider.fetchIssueComments(issueInfo, {
+      host: issueInfo.host,
+      token: 'user-token',
+    });
+
+    expect(comments).toHaveLength(NOTES.filter((note) => !note.system).length);
+    expect(comments.at(-1)).toMatchObject({ id: 101, author: 'carol' });
+    const notes = server.requests.filter(
+      (request) => request.url.pathname === `${PROJECT}/issues/1/notes`
+    );
+    expect(notes).toHaveLength(2);
+    expect(notes[0].headers['private-token']).toBe('user-token');
+  });
+});
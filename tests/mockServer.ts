@@ -0,0 +1,60 @@
+import { createServer, IncomingHttpHeaders } from 'http';
+import { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  url: URL;
+  headers: IncomingHttpHeaders;
+}
+
+export interface MockResponse {
+  status?: number; // default 200
+  body: unknown; // sent as JSON
+}
+
+export interface MockServer {
+  url: string; // http://127.0.0.1:<port>
+  requests: RecordedRequest[];
+  close(): Promise<void>;
+}
+
+/**
+ * Start an HTTP server on a free local port that answers every request with
+ * handle's JSON, or a 404 when handle returns undefined. Requests are
+ * recorded in order.
+ */
+export async function startMockServer(
+  handle: (request: RecordedRequest) => MockResponse | undefined
+): Promise<MockServer> {
+  const requests: RecordedRequest[] = [];
+
+  const server = createServer((req, res) => {
+    const request = {
+      method: req.method ?? 'GET',
+      url: new URL(req.url ?? '/', 'http://127.0.0.1'),
+      headers: req.headers,
+    };
+    requests.push(request);
+
+    const response = handle(request) ?? {
+      status: 404,
+      body: { message: 'Not Found' },
+    };
+    res.writeHead(response.status ?? 200, {
+      'Content-Type': 'application/json',
+    });
+    res.end(JSON.stringify(response.body));
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  };
+}